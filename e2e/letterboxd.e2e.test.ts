@@ -21,12 +21,13 @@ import {
 } from "./setup";
 import {
 	MockPlugin,
+	createE2EAccount,
 	createTempVault,
 	cleanupTempVault,
 	readNoteFromVault,
 	listNotesInVault,
 } from "./mock-vault";
-import { fetchLetterboxdRSS } from "../src/letterboxd/parser";
+import { fetchEntryTags, fetchLetterboxdRSS } from "../src/letterboxd/parser";
 import {
 	fetchLetterboxdPageData,
 	extractViewingIdFromHtml,
@@ -48,9 +49,8 @@ describe("E2E 6: Letterboxd Page Fetcher", () => {
 
 		const result = await fetchLetterboxdPageData(letterboxdUri);
 
-		expect(result).not.toBeNull();
-		expect(result!.viewingId).toBe(viewingId);
-		expect(result!.tmdbId).toBe(tmdbId);
+		expect(result.viewingId).toBe(viewingId);
+		expect(result.tmdbId).toBe(tmdbId);
 	});
 
 	it("extracts viewing ID from One Battle After Another diary page", async () => {
@@ -58,9 +58,8 @@ describe("E2E 6: Letterboxd Page Fetcher", () => {
 
 		const result = await fetchLetterboxdPageData(letterboxdUri);
 
-		expect(result).not.toBeNull();
-		expect(result!.viewingId).toBe(viewingId);
-		expect(result!.tmdbId).toBe(tmdbId);
+		expect(result.viewingId).toBe(viewingId);
+		expect(result.tmdbId).toBe(tmdbId);
 	});
 
 	it("extracts viewing ID from real HTML", async () => {
@@ -87,13 +86,19 @@ describe("E2E 6: Letterboxd Page Fetcher", () => {
 
 describe("E2E 1: RSS Sync Flow", () => {
 	it("fetches RSS feed for test account", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		expect(entries.length).toBeGreaterThan(0);
 	});
 
+	it("does not return list items as diary entries", async () => {
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
+
+		expect(entries.every((e) => e.filmTitle !== "" && e.filmYear > 0)).toBe(true);
+	});
+
 	it("parses all expected entries from RSS", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		// Find Die Hard entry
 		const dieHard = entries.find((e) => e.filmTitle === "Die Hard");
@@ -114,7 +119,7 @@ describe("E2E 1: RSS Sync Flow", () => {
 	});
 
 	it("extracts viewing ID (GUID) from RSS entries", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		const dieHard = entries.find((e) => e.filmTitle === "Die Hard");
 		expect(dieHard!.guid).toBe(EXPECTED_ENTRIES.dieHard.viewingId);
@@ -124,7 +129,7 @@ describe("E2E 1: RSS Sync Flow", () => {
 	});
 
 	it("extracts poster URLs from RSS", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		for (const entry of entries) {
 			expect(entry.posterUrl).toMatch(/^https:\/\/.*\.jpg/);
@@ -132,7 +137,7 @@ describe("E2E 1: RSS Sync Flow", () => {
 	});
 
 	it("extracts review text from RSS", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		const dieHard = entries.find((e) => e.filmTitle === "Die Hard");
 		expect(dieHard!.review).toContain(EXPECTED_ENTRIES.dieHard.review);
@@ -214,7 +219,7 @@ describe("E2E 2: CSV Import Flow", () => {
 
 describe("E2E 7: Rewatch Handling", () => {
 	it("marks rewatch entries correctly from RSS", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		const dieHard = entries.find((e) => e.filmTitle === "Die Hard");
 		expect(dieHard!.rewatch).toBe(true);
@@ -237,7 +242,7 @@ describe("E2E 7: Rewatch Handling", () => {
 	});
 
 	it("each viewing has unique viewing ID", async () => {
-		const entries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		const guids = entries.map((e) => e.guid);
 		const uniqueGuids = new Set(guids);
@@ -303,7 +308,7 @@ describe("E2E 4: TMDB API", () => {
 
 describe("Data Consistency: RSS vs CSV", () => {
 	it("RSS and CSV produce matching entries", async () => {
-		const rssEntries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries: rssEntries } = await fetchLetterboxdRSS(TEST_USERNAME);
 
 		const diaryCSV = readFixtureCSV("diary.csv");
 		const reviewsCSV = readFixtureCSV("reviews.csv");
@@ -330,7 +335,8 @@ describe("Data Consistency: RSS vs CSV", () => {
 	});
 
 	it("RSS and CSV both provide tags", async () => {
-		const rssEntries = await fetchLetterboxdRSS(TEST_USERNAME);
+		const { entries: rssEntries } = await fetchLetterboxdRSS(TEST_USERNAME);
+		await fetchEntryTags(rssEntries);
 
 		const diaryCSV = readFixtureCSV("diary.csv");
 		const reviewsCSV = readFixtureCSV("reviews.csv");
@@ -339,7 +345,7 @@ describe("Data Consistency: RSS vs CSV", () => {
 		const rssDieHard = rssEntries.find((e) => e.filmTitle === "Die Hard");
 		const csvDieHard = csvEntries.find((e) => e.filmTitle === "Die Hard");
 
-		// RSS now fetches tags from viewing pages
+		// RSS tags are fetched from viewing pages
 		expect(rssDieHard!.tags).toContain("at home");
 		expect(rssDieHard!.tags).not.toContain("_pending_csv_import");
 
@@ -366,11 +372,13 @@ describe("E2E 1b: RSS Sync with Mock Vault", () => {
 
 	it("creates diary notes from RSS sync", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
-		const result = await syncDiary(plugin as unknown as LetterboxdPlugin);
+		const result = await syncDiary(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0]
+		);
 
 		expect(result.created).toBeGreaterThan(0);
 		expect(result.errors).toBe(0);
@@ -382,11 +390,10 @@ describe("E2E 1b: RSS Sync with Mock Vault", () => {
 
 	it("creates notes with correct GUID in frontmatter", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
-		await syncDiary(plugin as unknown as LetterboxdPlugin);
+		await syncDiary(plugin as unknown as LetterboxdPlugin, plugin.settings.accounts[0]);
 
 		// Find Die Hard note
 		const notes = listNotesInVault(vaultPath, "Letterboxd");
@@ -401,32 +408,59 @@ describe("E2E 1b: RSS Sync with Mock Vault", () => {
 
 	it("skips existing notes on second sync (deduplication)", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
 		// First sync
-		const result1 = await syncDiary(plugin as unknown as LetterboxdPlugin);
+		const result1 = await syncDiary(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0]
+		);
 		expect(result1.created).toBeGreaterThan(0);
 
 		// Second sync - should skip all
-		const result2 = await syncDiary(plugin as unknown as LetterboxdPlugin);
+		const result2 = await syncDiary(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0]
+		);
 		expect(result2.created).toBe(0);
 		expect(result2.skipped).toBe(result1.created);
 	});
 
 	it("collects TMDB IDs for new entries", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
-		const result = await syncDiary(plugin as unknown as LetterboxdPlugin);
+		const result = await syncDiary(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0]
+		);
 
 		expect(result.createdTmdbIds.length).toBeGreaterThan(0);
 		expect(result.createdTmdbIds).toContain(EXPECTED_ENTRIES.dieHard.tmdbId);
 		expect(result.createdTmdbIds).toContain(EXPECTED_ENTRIES.oneBattleAfterAnother.tmdbId);
 	});
+
+	it("plans notes without writing them in a dry run", async () => {
+		const plugin = new MockPlugin(vaultPath, {
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
+		});
+
+		const result = await syncDiary(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
+			true
+		);
+
+		expect(result.created).toBeGreaterThan(0);
+		expect(result.planned).toHaveLength(result.created);
+		expect(result.planned.every((a) => a.action === "create")).toBe(true);
+		expect(result.planned.some((a) => a.path.includes("Die Hard"))).toBe(true);
+
+		// Nothing written to the vault
+		expect(listNotesInVault(vaultPath, "Letterboxd")).toEqual([]);
+	});
 });
 
 // ============================================================================
@@ -446,12 +480,11 @@ describe("E2E 3: CSV + Existing Notes", () => {
 
 	it("skips existing notes from CSV when GUID matches", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
 		// First, sync from RSS to create notes
-		await syncDiary(plugin as unknown as LetterboxdPlugin);
+		await syncDiary(plugin as unknown as LetterboxdPlugin, plugin.settings.accounts[0]);
 
 		const notesAfterRss = listNotesInVault(vaultPath, "Letterboxd");
 		const noteCountAfterRss = notesAfterRss.length;
@@ -461,6 +494,7 @@ describe("E2E 3: CSV + Existing Notes", () => {
 		const reviewsCSV = readFixtureCSV("reviews.csv");
 		const csvResult = await importFromCSV(
 			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
 			diaryCSV,
 			reviewsCSV
 		);
@@ -477,12 +511,11 @@ describe("E2E 3: CSV + Existing Notes", () => {
 
 	it("does not modify existing notes from CSV", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
 		// First, sync from RSS
-		await syncDiary(plugin as unknown as LetterboxdPlugin);
+		await syncDiary(plugin as unknown as LetterboxdPlugin, plugin.settings.accounts[0]);
 
 		// Get original note content
 		const notes = listNotesInVault(vaultPath, "Letterboxd");
@@ -492,7 +525,12 @@ describe("E2E 3: CSV + Existing Notes", () => {
 		// Import CSV
 		const diaryCSV = readFixtureCSV("diary.csv");
 		const reviewsCSV = readFixtureCSV("reviews.csv");
-		await importFromCSV(plugin as unknown as LetterboxdPlugin, diaryCSV, reviewsCSV);
+		await importFromCSV(
+			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
+			diaryCSV,
+			reviewsCSV
+		);
 
 		// Verify content is unchanged (CSV doesn't modify existing notes)
 		const contentAfterCsv = readNoteFromVault(vaultPath, `Letterboxd/${dieHardNote}.md`);
@@ -501,8 +539,7 @@ describe("E2E 3: CSV + Existing Notes", () => {
 
 	it("creates new notes for entries not in vault", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 		});
 
 		// Start with empty vault, import CSV directly
@@ -510,6 +547,7 @@ describe("E2E 3: CSV + Existing Notes", () => {
 		const reviewsCSV = readFixtureCSV("reviews.csv");
 		const result = await importFromCSV(
 			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
 			diaryCSV,
 			reviewsCSV
 		);
@@ -541,8 +579,7 @@ describe("E2E 5: Full Pipeline", () => {
 
 	it.skipIf(!runTMDBTests)("creates diary notes and film notes from CSV", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 			tmdbFolderPath: "Films",
 			tmdbApiKey: getTMDBApiKey(),
 		});
@@ -552,6 +589,7 @@ describe("E2E 5: Full Pipeline", () => {
 		const reviewsCSV = readFixtureCSV("reviews.csv");
 		const csvResult = await importFromCSV(
 			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
 			diaryCSV,
 			reviewsCSV
 		);
@@ -579,8 +617,7 @@ describe("E2E 5: Full Pipeline", () => {
 
 	it.skipIf(!runTMDBTests)("does not create duplicate film notes for rewatches", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 			tmdbFolderPath: "Films",
 			tmdbApiKey: getTMDBApiKey(),
 		});
@@ -590,6 +627,7 @@ describe("E2E 5: Full Pipeline", () => {
 		const reviewsCSV = readFixtureCSV("reviews.csv");
 		const csvResult = await importFromCSV(
 			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
 			diaryCSV,
 			reviewsCSV
 		);
@@ -616,8 +654,7 @@ describe("E2E 5: Full Pipeline", () => {
 
 	it.skipIf(!runTMDBTests)("film notes have correct TMDB ID in frontmatter", async () => {
 		const plugin = new MockPlugin(vaultPath, {
-			username: TEST_USERNAME,
-			folderPath: "Letterboxd",
+			accounts: [createE2EAccount({ username: TEST_USERNAME, folderPath: "Letterboxd" })],
 			tmdbFolderPath: "Films",
 			tmdbApiKey: getTMDBApiKey(),
 		});
@@ -627,6 +664,7 @@ describe("E2E 5: Full Pipeline", () => {
 		const reviewsCSV = readFixtureCSV("reviews.csv");
 		const csvResult = await importFromCSV(
 			plugin as unknown as LetterboxdPlugin,
+			plugin.settings.accounts[0],
 			diaryCSV,
 			reviewsCSV
 		);
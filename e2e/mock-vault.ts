@@ -9,7 +9,9 @@ import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 import { TFile, TFolder } from "./obsidian-mock";
-import type { LetterboxdSettings } from "../src/types";
+import type { DataAdapter } from "obsidian";
+import type { LetterboxdSettings, LetterboxdAccount, PluginState } from "../src/types";
+import { SourceCache } from "../src/notes/source-cache";
 
 // ============================================================================
 // Mock Vault Implementation
@@ -191,6 +193,27 @@ export class MockVault {
 	}
 }
 
+/**
+ * Mock DataAdapter for files outside the vault tree (plugin data)
+ */
+export class MockAdapter {
+	constructor(private basePath: string) {}
+
+	async exists(adapterPath: string): Promise<boolean> {
+		return fs.existsSync(path.join(this.basePath, adapterPath));
+	}
+
+	async read(adapterPath: string): Promise<string> {
+		return fs.readFileSync(path.join(this.basePath, adapterPath), "utf-8");
+	}
+
+	async write(adapterPath: string, data: string): Promise<void> {
+		const fullPath = path.join(this.basePath, adapterPath);
+		fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+		fs.writeFileSync(fullPath, data, "utf-8");
+	}
+}
+
 // ============================================================================
 // Mock Plugin
 // ============================================================================
@@ -199,15 +222,17 @@ export class MockVault {
  * Mock App with vault
  */
 export class MockApp {
-	vault: MockVault;
+	vault: MockVault & { adapter: MockAdapter };
 
 	constructor(vaultPath: string) {
-		this.vault = new MockVault(vaultPath);
+		this.vault = Object.assign(new MockVault(vaultPath), {
+			adapter: new MockAdapter(vaultPath),
+		});
 	}
 }
 
-/** Default settings for E2E tests */
-const E2E_DEFAULT_SETTINGS: LetterboxdSettings = {
+/** Default account for E2E tests */
+const E2E_DEFAULT_ACCOUNT: LetterboxdAccount = {
 	username: "",
 	folderPath: "Letterboxd",
 	filenameTemplate: "{{watchedDate}} - {{filmTitle}}",
@@ -236,8 +261,42 @@ letterboxd_tags: {{tags yaml=true}}
 `,
 	syncOnStartup: false,
 	syncReviewsOnly: false,
+	syncListsFromRss: false,
+	profileNotePath: "Letterboxd/My film profile.md",
+};
+
+/**
+ * Returns an account for E2E tests
+ * @param account - Settings overriding the defaults
+ */
+export function createE2EAccount(account: Partial<LetterboxdAccount> = {}): LetterboxdAccount {
+	return { ...E2E_DEFAULT_ACCOUNT, ...account };
+}
+
+/** Default settings for E2E tests */
+const E2E_DEFAULT_SETTINGS: LetterboxdSettings = {
+	accounts: [E2E_DEFAULT_ACCOUNT],
+	updateExistingNotes: false,
 	notificationLevel: "silent",
 	guidFrontmatterKey: "letterboxd_guid",
+	exportWatchFolder: "",
+	listFolderPath: "Letterboxd/Lists",
+	listNoteTemplate: `---
+letterboxd_list_url: {{url yaml=true}}
+---
+
+# {{name}}
+
+{{entries}}
+`,
+	profileNoteTemplate: `---
+favorites: {{favoriteTitles yaml=true}}
+---
+
+# {{username}}
+
+{{favorites}}
+`,
 	tmdbApiKey: "",
 	tmdbFolderPath: "Films",
 	tmdbFilenameTemplate: "{{title}} ({{year}})",
@@ -251,6 +310,9 @@ tmdb_id: {{tmdbId}}
 `,
 	tmdbLanguage: "en-US",
 	tmdbIdFrontmatterKey: "tmdb_id",
+	cacheTtlFilmPageDays: 0,
+	cacheTtlViewingPageDays: 0,
+	cacheTtlTmdbMovieDays: 0,
 };
 
 /**
@@ -259,10 +321,25 @@ tmdb_id: {{tmdbId}}
 export class MockPlugin {
 	app: MockApp;
 	settings: LetterboxdSettings;
+	state: PluginState = {
+		syncJournal: [],
+		csvImportCheckpoint: null,
+		failedEnrichments: [],
+		importedExports: [],
+	};
+	sourceCache: SourceCache;
 
 	constructor(vaultPath: string, settings?: Partial<LetterboxdSettings>) {
 		this.app = new MockApp(vaultPath);
 		this.settings = { ...E2E_DEFAULT_SETTINGS, ...settings };
+		this.sourceCache = new SourceCache(
+			this.app.vault.adapter as unknown as DataAdapter,
+			".obsidian/plugins/letterboxd-mirror/source-cache.json"
+		);
+	}
+
+	async saveSettings(): Promise<void> {
+		// Plugin data is not persisted in E2E tests
 	}
 }
 
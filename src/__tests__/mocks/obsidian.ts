@@ -12,21 +12,25 @@ export class Notice {
 export class TFile {
 	basename: string;
 	extension: string;
+	name: string;
 	path: string;
 
 	constructor(path: string) {
 		this.path = path;
+		this.name = path.split("/").pop() || "";
 		this.extension = path.split(".").pop() || "";
 		this.basename = path.split("/").pop()?.replace(`.${this.extension}`, "") || "";
 	}
 }
 
 export class TFolder {
+	name: string;
 	path: string;
 	children: (TFile | TFolder)[] = [];
 
 	constructor(path: string) {
 		this.path = path;
+		this.name = path.split("/").pop() || "";
 	}
 }
 
@@ -48,6 +52,20 @@ export function requestUrl(params: RequestUrlParam): Promise<RequestUrlResponse>
 	return Promise.reject(new Error(`requestUrl not mocked for: ${params.url}`));
 }
 
+export function normalizePath(path: string): string {
+	return path.replace(/\/+/g, "/").replace(/^\/|\/$/g, "");
+}
+
+export function parseYaml(_yaml: string): unknown {
+	// This will be mocked in tests that need it
+	return {};
+}
+
+export function stringifyYaml(_obj: unknown): string {
+	// This will be mocked in tests that need it
+	return "";
+}
+
 export class Plugin {
 	app: unknown;
 	manifest: unknown;
@@ -0,0 +1,339 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+	parseLetterboxdExport,
+	parseLetterboxdExportOffline,
+	applyPageData,
+	createFallbackGuid,
+	isFallbackGuid,
+	markLikedEntries,
+} from "./csv-parser";
+import type { CSVRowIdentity } from "./csv-parser";
+import { fetchLetterboxdPageData } from "./fetcher";
+import { RequestBudgetError } from "../utils/request-scheduler";
+import type { LetterboxdEntry } from "../types";
+
+// Page fetches fail unless a test provides page data
+vi.mock("./fetcher", () => ({
+	fetchLetterboxdPageData: vi.fn(),
+}));
+
+const FIXTURES_DIR = path.resolve(__dirname, "../__tests__/fixtures/letterboxd-export");
+
+function readFixture(filename: string): string {
+	return fs.readFileSync(path.join(FIXTURES_DIR, filename), "utf-8");
+}
+
+beforeEach(() => {
+	vi.mocked(fetchLetterboxdPageData)
+		.mockReset()
+		.mockRejectedValue(new Error("Failed to fetch page: HTTP 404"));
+});
+
+const DIARY_CSV = [
+	"Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date",
+	"2024-01-02,Heat,1995,https://boxd.it/abc1,4.5,,,2024-01-01",
+	"2024-01-03,Ran,1985,https://boxd.it/abc2,5,Yes,,2024-01-02",
+].join("\n");
+
+function buildEntry(overrides: Partial<LetterboxdEntry>): LetterboxdEntry {
+	return {
+		filmTitle: "",
+		filmYear: 0,
+		userRatingNo: null,
+		userRatingStars: "",
+		watchedDate: "",
+		rewatch: false,
+		link: "",
+		tmdbId: "",
+		posterUrl: "",
+		guid: "",
+		review: "",
+		reviewText: "",
+		pubDate: "",
+		containsSpoilers: false,
+		liked: false,
+		tags: [],
+		...overrides,
+	};
+}
+
+// ============================================================================
+// parseLetterboxdExport with failed enrichment
+// ============================================================================
+
+describe("parseLetterboxdExport with failed enrichment", () => {
+	it("keeps the CSV data under a fallback GUID and reports the reason", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		const onFailed = vi.fn();
+
+		const entries = await parseLetterboxdExport(
+			DIARY_CSV,
+			null,
+			undefined,
+			undefined,
+			onFailed
+		);
+
+		const heat = entries.find((e) => e.filmTitle === "Heat");
+		expect(heat).toMatchObject({
+			guid: createFallbackGuid("https://boxd.it/abc1", "Heat", 1995),
+			link: "https://boxd.it/abc1",
+			userRatingNo: 4.5,
+			watchedDate: "2024-01-01",
+			tmdbId: "",
+		});
+		expect(isFallbackGuid(heat!.guid)).toBe(true);
+		expect(onFailed).toHaveBeenCalledWith(heat, "Failed to fetch page: HTTP 404");
+		expect(onFailed).toHaveBeenCalledTimes(2);
+	});
+
+	it("derives the same fallback GUID from the same row", () => {
+		const guid = createFallbackGuid("https://boxd.it/abc1", "Heat", 1995);
+		expect(createFallbackGuid("https://boxd.it/abc1", "HEAT", 1995)).toBe(guid);
+		expect(createFallbackGuid("https://boxd.it/abc2", "Heat", 1995)).not.toBe(guid);
+	});
+
+	it("leaves out rows that hit the request budget", async () => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(
+			new RequestBudgetError("letterboxd.com")
+		);
+		const onFailed = vi.fn();
+		const onDeferred = vi.fn();
+
+		const entries = await parseLetterboxdExport(
+			DIARY_CSV,
+			null,
+			undefined,
+			undefined,
+			onFailed,
+			onDeferred
+		);
+
+		expect(entries).toEqual([]);
+		expect(onFailed).not.toHaveBeenCalled();
+		expect(onDeferred).toHaveBeenCalledTimes(2);
+		expect(onDeferred).toHaveBeenCalledWith(
+			expect.objectContaining({ uri: "https://boxd.it/abc1", watchedDate: "2024-01-01" })
+		);
+	});
+});
+
+// ============================================================================
+// parseLetterboxdExportOffline / applyPageData
+// ============================================================================
+
+describe("parseLetterboxdExportOffline", () => {
+	it("builds entries from the CSV alone without fetching", () => {
+		const entries = parseLetterboxdExportOffline(DIARY_CSV, null);
+
+		expect(entries.map((e) => e.guid)).toEqual([
+			createFallbackGuid("https://boxd.it/abc1", "Heat", 1995),
+			createFallbackGuid("https://boxd.it/abc2", "Ran", 1985),
+		]);
+		expect(entries[1]).toMatchObject({ tmdbId: "", rewatch: true, userRatingNo: 5 });
+		expect(fetchLetterboxdPageData).not.toHaveBeenCalled();
+	});
+
+	it("skips known rows", () => {
+		const entries = parseLetterboxdExportOffline(
+			DIARY_CSV,
+			null,
+			(row) => row.filmTitle === "Heat"
+		);
+
+		expect(entries.map((e) => e.filmTitle)).toEqual(["Ran"]);
+	});
+});
+
+describe("applyPageData", () => {
+	const pageData = {
+		viewingId: "111",
+		tmdbId: "949",
+		containsSpoilers: true,
+		posterUrl: "https://a.ltrbxd.com/heat.jpg",
+		liked: false,
+		reviewHtml: "",
+		tags: ["cinema"],
+	};
+
+	it("completes an offline entry under its viewing ID", () => {
+		const [heat] = parseLetterboxdExportOffline(DIARY_CSV, null);
+
+		expect(applyPageData(heat, pageData)).toMatchObject({
+			guid: "111",
+			tmdbId: "949",
+			containsSpoilers: true,
+			posterUrl: "https://a.ltrbxd.com/heat.jpg",
+			tags: ["cinema"],
+			userRatingNo: 4.5,
+		});
+	});
+
+	it("keeps the tags from the CSV", () => {
+		const heat = buildEntry({ filmTitle: "Heat", tags: ["la"] });
+
+		expect(applyPageData(heat, pageData).tags).toEqual(["la"]);
+	});
+
+	it("takes the liked heart from the viewing page", () => {
+		const heat = buildEntry({ filmTitle: "Heat" });
+
+		expect(applyPageData(heat, { ...pageData, liked: true }).liked).toBe(true);
+		expect(applyPageData({ ...heat, liked: true }, pageData).liked).toBe(true);
+	});
+});
+
+// ============================================================================
+// markLikedEntries
+// ============================================================================
+
+describe("markLikedEntries", () => {
+	it("marks the entries of liked films, rewatches included", () => {
+		const entries = [
+			buildEntry({ filmTitle: "Heat", filmYear: 1995 }),
+			buildEntry({ filmTitle: "heat", filmYear: 1995, rewatch: true }),
+			buildEntry({ filmTitle: "Heat", filmYear: 1986 }),
+			buildEntry({ filmTitle: "Ran", filmYear: 1985 }),
+		];
+
+		markLikedEntries(entries, [{ filmTitle: "Heat", filmYear: 1995 }]);
+
+		expect(entries.map((e) => e.liked)).toEqual([true, true, false, false]);
+	});
+});
+
+// ============================================================================
+// parseLetterboxdExport with known rows
+// ============================================================================
+
+describe("parseLetterboxdExport with known rows", () => {
+	it("skips known rows before fetching their pages", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue({
+			viewingId: "222",
+			tmdbId: "11645",
+			containsSpoilers: false,
+			posterUrl: "",
+			liked: false,
+			reviewHtml: "",
+			tags: [],
+		});
+		const isKnown = vi.fn((row: CSVRowIdentity) => row.uri === "https://boxd.it/abc1");
+
+		const entries = await parseLetterboxdExport(DIARY_CSV, null, undefined, isKnown);
+
+		expect(entries.map((e) => e.filmTitle)).toEqual(["Ran"]);
+		expect(isKnown).toHaveBeenCalledWith(
+			expect.objectContaining({
+				filmTitle: "Heat",
+				filmYear: 1995,
+				watchedDate: "2024-01-01",
+			})
+		);
+		expect(fetchLetterboxdPageData).toHaveBeenCalledTimes(1);
+		expect(fetchLetterboxdPageData).not.toHaveBeenCalledWith("https://boxd.it/abc1");
+	});
+});
+
+// ============================================================================
+// parseLetterboxdExport with export fixtures
+// ============================================================================
+
+describe("parseLetterboxdExport with export fixtures", () => {
+	beforeEach(() => {
+		// Derive page data from the boxd.it URI, only the Ran review has spoilers
+		vi.mocked(fetchLetterboxdPageData).mockImplementation((uri) =>
+			Promise.resolve({
+				viewingId: uri.split("/").pop() ?? "",
+				tmdbId: "1",
+				containsSpoilers: uri.endsWith("/aRan01"),
+				posterUrl: "",
+				liked: false,
+				reviewHtml: "",
+				tags: [],
+			})
+		);
+	});
+
+	it("keeps multi-paragraph reviews intact", async () => {
+		const entries = await parseLetterboxdExport(
+			readFixture("diary.csv"),
+			readFixture("reviews.csv")
+		);
+
+		const heat = entries.find((e) => e.filmTitle === "Heat");
+		expect(heat?.review).toBe(
+			"The diner scene is two actors at the top of their game.\n\n" +
+				"The shootout downtown still sounds like nothing else.\n\n" +
+				'Mann\'s "city at night" in its purest form.'
+		);
+		expect(heat?.tags).toEqual(["crime", "la"]);
+		expect(heat?.userRatingNo).toBe(4.5);
+
+		const ran = entries.find((e) => e.filmTitle === "Ran");
+		expect(ran?.review).toBe("First paragraph.\r\n\r\nSecond paragraph, with a comma.");
+		expect(ran?.rewatch).toBe(true);
+	});
+
+	it("merges reviews into diary entries without losing rows", async () => {
+		const entries = await parseLetterboxdExport(
+			readFixture("diary.csv"),
+			readFixture("reviews.csv")
+		);
+
+		expect(entries.map((e) => e.filmTitle)).toEqual([
+			"Heat",
+			"Ran",
+			"Crouching Tiger, Hidden Dragon",
+		]);
+		expect(entries.map((e) => e.guid)).toEqual(["aHeat1", "aRan01", "aCtHd1"]);
+		expect(entries.map((e) => e.containsSpoilers)).toEqual([false, true, false]);
+	});
+
+	it("reads reviews.csv with a byte order mark on its own", async () => {
+		const entries = await parseLetterboxdExport(null, readFixture("reviews.csv"));
+
+		expect(entries.map((e) => e.watchedDate)).toEqual(["2024-01-01", "2024-01-04"]);
+	});
+
+	it("looks columns up by header name", async () => {
+		const reordered = [
+			"Watched Date,Letterboxd URI,Name,Year,Rating",
+			"2024-02-01,https://boxd.it/aHeat1,Heat,1995,3",
+		].join("\n");
+
+		const entries = await parseLetterboxdExport(reordered, null);
+
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({
+			filmTitle: "Heat",
+			filmYear: 1995,
+			watchedDate: "2024-02-01",
+			userRatingNo: 3,
+			rewatch: false,
+			tags: [],
+		});
+	});
+
+	it("takes the poster and the formatted review from the viewing page", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue({
+			viewingId: "111",
+			tmdbId: "949",
+			containsSpoilers: false,
+			posterUrl: "https://a.ltrbxd.com/poster.jpg",
+			liked: true,
+			reviewHtml: "<p>The <em>diner</em> scene.</p><p>Second paragraph.</p>",
+			tags: [],
+		});
+
+		const entries = await parseLetterboxdExport(null, readFixture("reviews.csv"));
+
+		expect(entries[0]).toMatchObject({
+			posterUrl: "https://a.ltrbxd.com/poster.jpg",
+			review: "The *diner* scene.\n\nSecond paragraph.",
+			reviewText: "The diner scene.\n\nSecond paragraph.",
+		});
+	});
+});
@@ -11,47 +11,25 @@
  * After parsing, entries are enriched by fetching Letterboxd pages to get:
  * - Viewing ID (for matching with RSS entries)
  * - TMDB ID (for creating Film notes)
+ * - Poster, spoiler flag and the review with its formatting (not in the CSV),
+ *   so entries render the same as entries synced from RSS
+ * Rows whose pages can't be fetched keep their CSV data under a fallback GUID.
  */
 
 import type { LetterboxdEntry } from "../types";
 import { ratingToStars } from "./parser";
 import { fetchLetterboxdPageData } from "./fetcher";
-
-/**
- * Parses a CSV line, handling quoted fields with commas and embedded quotes
- */
-function parseCSVLine(line: string): string[] {
-	const fields: string[] = [];
-	let current = "";
-	let inQuotes = false;
-
-	for (let i = 0; i < line.length; i++) {
-		const char = line[i];
-
-		if (char === '"') {
-			if (inQuotes && line[i + 1] === '"') {
-				// Escaped quote ""
-				current += '"';
-				i++;
-			} else {
-				inQuotes = !inQuotes;
-			}
-		} else if (char === "," && !inQuotes) {
-			fields.push(current);
-			current = "";
-		} else {
-			current += char;
-		}
-	}
-
-	fields.push(current);
-	return fields;
-}
+import type { LetterboxdPageData } from "./fetcher";
+import { parseCSVRows } from "../utils/csv";
+import { htmlToMarkdown, htmlToText } from "../utils/html";
+import { hashContent } from "../utils/hash";
+import { RequestBudgetError } from "../utils/request-scheduler";
+import type { CSVRow } from "../utils/csv";
 
 /**
  * Parses tags from CSV field (comma-separated within the field)
  */
-function parseTags(tagsField: string): string[] {
+export function parseTags(tagsField: string): string[] {
 	if (!tagsField || tagsField.trim() === "") {
 		return [];
 	}
@@ -63,121 +41,104 @@ function parseTags(tagsField: string): string[] {
 }
 
 /**
- * Intermediate structure for merging diary + reviews
+ * What identifies a CSV row's viewing before its pages are fetched
  */
-interface CSVEntryData {
+export interface CSVRowIdentity {
 	filmTitle: string;
 	filmYear: number;
+	/** Letterboxd URI of the viewing (e.g., "https://boxd.it/abc1") */
 	uri: string;
+	watchedDate: string;
+}
+
+/**
+ * Intermediate structure for merging diary + reviews
+ */
+interface CSVEntryData extends CSVRowIdentity {
 	rating: number | null;
 	rewatch: boolean;
 	tags: string[];
 	review: string;
-	watchedDate: string;
 	loggedDate: string;
 }
 
 /**
- * Enriched entry data after fetching from Letterboxd pages
+ * Creates a unique key for merging entries (also identifies the rows an
+ * interrupted import already wrote)
  */
-interface EnrichedCSVEntryData extends CSVEntryData {
-	/** Viewing ID from Letterboxd (e.g., "1093163294") */
-	viewingId: string;
-	/** TMDB movie ID (e.g., "281957") */
-	tmdbId: string;
+export function createMergeKey(filmTitle: string, filmYear: number, watchedDate: string): string {
+	return `${filmTitle.toLowerCase()}|${filmYear}|${watchedDate}`;
 }
 
 /**
- * Creates a unique key for merging entries
+ * Converts a diary.csv or reviews.csv row to entry data
+ * @returns Entry data, or null if the row has no film title or year
  */
-function createMergeKey(filmTitle: string, filmYear: number, watchedDate: string): string {
-	return `${filmTitle.toLowerCase()}|${filmYear}|${watchedDate}`;
+function toCSVEntryData(row: CSVRow): CSVEntryData | null {
+	// Columns missing from the header read as empty
+	const field = (name: string): string => row[name] ?? "";
+
+	const filmTitle = field("Name");
+	const filmYear = parseInt(field("Year"), 10) || 0;
+
+	if (!filmTitle || !filmYear) return null;
+
+	return {
+		filmTitle,
+		filmYear,
+		uri: field("Letterboxd URI"),
+		rating: field("Rating") ? parseFloat(field("Rating")) : null,
+		rewatch: field("Rewatch").toLowerCase() === "yes",
+		tags: parseTags(field("Tags")),
+		review: field("Review"),
+		watchedDate: field("Watched Date"),
+		loggedDate: field("Date"),
+	};
 }
 
 /**
- * Parses diary.csv content
+ * Parses diary.csv or reviews.csv content, keyed by merge key
  * Columns: Date, Name, Year, Letterboxd URI, Rating, Rewatch, Tags, Watched Date
+ * (reviews.csv adds Review). Columns are looked up by header name.
  */
-function parseDiaryCSV(csvContent: string): Map<string, CSVEntryData> {
+function parseEntriesCSV(csvContent: string): Map<string, CSVEntryData> {
 	const entries = new Map<string, CSVEntryData>();
-	const lines = csvContent.split(/\r?\n/);
-
-	for (let i = 1; i < lines.length; i++) {
-		const line = lines[i].trim();
-		if (!line) continue;
-
-		const fields = parseCSVLine(line);
-		if (fields.length < 8) continue;
-
-		const filmTitle = fields[1];
-		const filmYearStr = fields[2];
-		const filmYear = parseInt(filmYearStr, 10) || 0;
-		const watchedDate = fields[7];
-
-		if (!filmTitle || !filmYear) continue;
-
-		const key = createMergeKey(filmTitle, filmYear, watchedDate);
-
-		entries.set(key, {
-			filmTitle,
-			filmYear,
-			uri: fields[3],
-			rating: fields[4] ? parseFloat(fields[4]) : null,
-			rewatch: fields[5].toLowerCase() === "yes",
-			tags: parseTags(fields[6]),
-			review: "",
-			watchedDate,
-			loggedDate: fields[0],
-		});
+
+	for (const row of parseCSVRows(csvContent)) {
+		const entry = toCSVEntryData(row);
+		if (!entry) continue;
+
+		entries.set(createMergeKey(entry.filmTitle, entry.filmYear, entry.watchedDate), entry);
 	}
 
 	return entries;
 }
 
+/** Prefix of the GUIDs given to entries whose Letterboxd pages could not be fetched */
+const FALLBACK_GUID_PREFIX = "fallback-";
+
 /**
- * Parses reviews.csv content
- * Columns: Date, Name, Year, Letterboxd URI, Rating, Rewatch, Review, Tags, Watched Date
+ * Creates the GUID of an entry imported without its viewing ID
+ * Derived from the boxd.it URI, film title and year, so importing the same
+ * row again yields the same GUID.
  */
-function parseReviewsCSV(csvContent: string): Map<string, CSVEntryData> {
-	const entries = new Map<string, CSVEntryData>();
-	const lines = csvContent.split(/\r?\n/);
-
-	for (let i = 1; i < lines.length; i++) {
-		const line = lines[i].trim();
-		if (!line) continue;
-
-		const fields = parseCSVLine(line);
-		if (fields.length < 9) continue;
-
-		const filmTitle = fields[1];
-		const filmYearStr = fields[2];
-		const filmYear = parseInt(filmYearStr, 10) || 0;
-		const watchedDate = fields[8];
-
-		if (!filmTitle || !filmYear) continue;
-
-		const key = createMergeKey(filmTitle, filmYear, watchedDate);
-
-		entries.set(key, {
-			filmTitle,
-			filmYear,
-			uri: fields[3],
-			rating: fields[4] ? parseFloat(fields[4]) : null,
-			rewatch: fields[5].toLowerCase() === "yes",
-			tags: parseTags(fields[7]),
-			review: fields[6] || "",
-			watchedDate,
-			loggedDate: fields[0],
-		});
-	}
+export function createFallbackGuid(uri: string, filmTitle: string, filmYear: number): string {
+	return `${FALLBACK_GUID_PREFIX}${hashContent(`${uri}|${filmTitle.toLowerCase()}|${filmYear}`)}`;
+}
 
-	return entries;
+/**
+ * Whether a GUID is a fallback GUID (see createFallbackGuid) rather than a viewing ID
+ */
+export function isFallbackGuid(guid: string): boolean {
+	return guid.startsWith(FALLBACK_GUID_PREFIX);
 }
 
 /**
- * Converts enriched CSV entry data to LetterboxdEntry
+ * Converts CSV entry data to LetterboxdEntry, without the data only found on
+ * Letterboxd pages (see applyPageData)
+ * @param guid - Viewing ID, or a fallback GUID
  */
-function toLetterboxdEntry(data: EnrichedCSVEntryData): LetterboxdEntry {
+function toLetterboxdEntry(data: CSVEntryData, guid: string): LetterboxdEntry {
 	return {
 		filmTitle: data.filmTitle,
 		filmYear: data.filmYear,
@@ -186,16 +147,63 @@ function toLetterboxdEntry(data: EnrichedCSVEntryData): LetterboxdEntry {
 		watchedDate: data.watchedDate,
 		rewatch: data.rewatch,
 		link: data.uri,
-		tmdbId: data.tmdbId,
-		posterUrl: "", // Will be fetched from TMDB if needed
-		guid: data.viewingId,
+		tmdbId: "",
+		posterUrl: "",
+		guid,
 		review: data.review,
+		reviewText: data.review,
 		pubDate: data.loggedDate,
-		containsSpoilers: false, // Not available in CSV
+		containsSpoilers: false,
+		liked: false,
 		tags: data.tags,
 	};
 }
 
+/**
+ * Marks the entries of the films of likes/films.csv as liked
+ * The export only records likes per film, so every entry of a liked film is
+ * marked. Films are matched by title and year.
+ * @param entries - Entries to mark, updated in place
+ * @param likedFilms - Liked films
+ */
+export function markLikedEntries(
+	entries: LetterboxdEntry[],
+	likedFilms: { filmTitle: string; filmYear: number }[]
+): void {
+	const filmKey = (film: { filmTitle: string; filmYear: number }): string =>
+		`${film.filmTitle.toLowerCase()}|${film.filmYear}`;
+	const liked = new Set(likedFilms.map(filmKey));
+	for (const entry of entries) {
+		if (liked.has(filmKey(entry))) {
+			entry.liked = true;
+		}
+	}
+}
+
+/**
+ * Completes an entry with the data fetched from its Letterboxd pages
+ * @param entry - Entry built from the CSV (possibly under a fallback GUID)
+ * @param pageData - Data from the viewing and film pages
+ * @returns Entry with the viewing ID as GUID
+ */
+export function applyPageData(
+	entry: LetterboxdEntry,
+	pageData: LetterboxdPageData
+): LetterboxdEntry {
+	return {
+		...entry,
+		guid: pageData.viewingId,
+		tmdbId: pageData.tmdbId,
+		posterUrl: pageData.posterUrl,
+		containsSpoilers: pageData.containsSpoilers,
+		liked: entry.liked || pageData.liked,
+		// The viewing page has the review with its formatting, like the RSS feed
+		review: pageData.reviewHtml ? htmlToMarkdown(pageData.reviewHtml) : entry.review,
+		reviewText: pageData.reviewHtml ? htmlToText(pageData.reviewHtml) : entry.reviewText,
+		tags: entry.tags.length > 0 ? entry.tags : pageData.tags,
+	};
+}
+
 /**
  * Callback for progress reporting during CSV enrichment
  */
@@ -206,47 +214,25 @@ export type EnrichmentProgressCallback = (
 ) => void;
 
 /**
- * Enriches a single CSV entry by fetching data from Letterboxd pages
+ * Called for a row whose Letterboxd pages could not be fetched
+ * @param entry - Entry built from the CSV alone, under a fallback GUID
+ * @param reason - Why the pages could not be fetched
  */
-async function enrichEntry(data: CSVEntryData): Promise<EnrichedCSVEntryData | null> {
-	const pageData = await fetchLetterboxdPageData(data.uri);
-
-	if (!pageData) {
-		console.warn(
-			`Letterboxd: Failed to enrich "${data.filmTitle}" - could not fetch page data`
-		);
-		return null;
-	}
-
-	return {
-		...data,
-		viewingId: pageData.viewingId,
-		tmdbId: pageData.tmdbId,
-	};
-}
+export type EnrichmentFailureCallback = (entry: LetterboxdEntry, reason: string) => void;
 
 /**
- * Parses Letterboxd export and returns LetterboxdEntry array
- * Merges diary.csv and reviews.csv - reviews.csv takes precedence for review text
- *
- * This is an async function that fetches additional data from Letterboxd pages
- * for each entry to get the viewing ID and TMDB ID.
- *
- * @param diaryCSV - Contents of diary.csv
- * @param reviewsCSV - Contents of reviews.csv
- * @param onProgress - Optional callback for progress reporting
- * @returns Array of enriched LetterboxdEntry objects
+ * Merges diary.csv and reviews.csv rows by row key (title|year|watched date)
+ * reviews.csv takes precedence for review text and tags
  */
-export async function parseLetterboxdExport(
+function mergeExportRows(
 	diaryCSV: string | null,
-	reviewsCSV: string | null,
-	onProgress?: EnrichmentProgressCallback
-): Promise<LetterboxdEntry[]> {
+	reviewsCSV: string | null
+): Map<string, CSVEntryData> {
 	const mergedData = new Map<string, CSVEntryData>();
 
 	// Parse diary.csv first
 	if (diaryCSV) {
-		const diaryEntries = parseDiaryCSV(diaryCSV);
+		const diaryEntries = parseEntriesCSV(diaryCSV);
 		for (const [key, entry] of diaryEntries) {
 			mergedData.set(key, entry);
 		}
@@ -254,7 +240,7 @@ export async function parseLetterboxdExport(
 
 	// Parse reviews.csv and merge
 	if (reviewsCSV) {
-		const reviewEntries = parseReviewsCSV(reviewsCSV);
+		const reviewEntries = parseEntriesCSV(reviewsCSV);
 		for (const [key, entry] of reviewEntries) {
 			const existing = mergedData.get(key);
 			if (existing) {
@@ -269,25 +255,96 @@ export async function parseLetterboxdExport(
 		}
 	}
 
-	const entries = Array.from(mergedData.values());
-	const totalEntries = entries.length;
-
-	// Enrich entries by fetching Letterboxd pages
-	const enrichedEntries: LetterboxdEntry[] = [];
+	return mergedData;
+}
 
-	for (let i = 0; i < entries.length; i++) {
-		const entry = entries[i];
+/**
+ * Parses Letterboxd export without fetching anything from Letterboxd
+ * Entries get a fallback GUID (see createFallbackGuid) and no TMDB ID, poster
+ * or spoiler flag until they are completed with applyPageData.
+ *
+ * @param diaryCSV - Contents of diary.csv
+ * @param reviewsCSV - Contents of reviews.csv
+ * @param isKnown - Optional filter for rows that don't need to be imported
+ * @returns Array of LetterboxdEntry objects built from the CSV alone
+ */
+export function parseLetterboxdExportOffline(
+	diaryCSV: string | null,
+	reviewsCSV: string | null,
+	isKnown?: (row: CSVRowIdentity) => boolean
+): LetterboxdEntry[] {
+	return Array.from(mergeExportRows(diaryCSV, reviewsCSV).values())
+		.filter((entry) => !isKnown || !isKnown(entry))
+		.map((entry) =>
+			toLetterboxdEntry(entry, createFallbackGuid(entry.uri, entry.filmTitle, entry.filmYear))
+		);
+}
 
-		if (onProgress) {
-			onProgress(i + 1, totalEntries, entry.filmTitle);
-		}
+/**
+ * Parses Letterboxd export and returns LetterboxdEntry array
+ * Merges diary.csv and reviews.csv - reviews.csv takes precedence for review text
+ *
+ * This is an async function that fetches additional data from Letterboxd pages
+ * for each entry to get the viewing ID and TMDB ID.
+ * Rows for which isKnown returns true (e.g., already in the vault) are left out
+ * without fetching anything.
+ * Rows whose pages can't be fetched are returned from the CSV data alone, under
+ * a fallback GUID, and reported to onFailed. Rows hitting the request budget are
+ * left out instead and reported to onDeferred, for the import to fetch them
+ * when it is resumed.
+ *
+ * @param diaryCSV - Contents of diary.csv
+ * @param reviewsCSV - Contents of reviews.csv
+ * @param onProgress - Optional callback for progress reporting
+ * @param isKnown - Optional filter for rows that don't need to be imported
+ * @param onFailed - Optional callback for rows imported without their Letterboxd data
+ * @param onDeferred - Optional callback for rows left out because of the request budget
+ * @returns Array of enriched LetterboxdEntry objects
+ */
+export async function parseLetterboxdExport(
+	diaryCSV: string | null,
+	reviewsCSV: string | null,
+	onProgress?: EnrichmentProgressCallback,
+	isKnown?: (row: CSVRowIdentity) => boolean,
+	onFailed?: EnrichmentFailureCallback,
+	onDeferred?: (row: CSVRowIdentity) => void
+): Promise<LetterboxdEntry[]> {
+	const entries = Array.from(mergeExportRows(diaryCSV, reviewsCSV)).filter(
+		([, entry]) => !isKnown || !isKnown(entry)
+	);
+	const totalEntries = entries.length;
 
-		const enrichedData = await enrichEntry(entry);
+	// Enrich entries by fetching Letterboxd pages. All rows are queued at once,
+	// the request scheduler limits how many requests actually run in parallel.
+	const enrichedEntries: (LetterboxdEntry | null)[] = new Array(totalEntries).fill(null);
+	let completed = 0;
+
+	await Promise.all(
+		entries.map(async ([, entry], i) => {
+			try {
+				const pageData = await fetchLetterboxdPageData(entry.uri);
+				enrichedEntries[i] = applyPageData(toLetterboxdEntry(entry, ""), pageData);
+			} catch (error) {
+				const reason = error instanceof Error ? error.message : "Unknown error";
+				console.warn(`Letterboxd: Failed to enrich "${entry.filmTitle}" - ${reason}`);
+				if (error instanceof RequestBudgetError) {
+					onDeferred?.(entry);
+				} else {
+					const fallback = toLetterboxdEntry(
+						entry,
+						createFallbackGuid(entry.uri, entry.filmTitle, entry.filmYear)
+					);
+					enrichedEntries[i] = fallback;
+					onFailed?.(fallback, reason);
+				}
+			}
 
-		if (enrichedData) {
-			enrichedEntries.push(toLetterboxdEntry(enrichedData));
-		}
-	}
+			completed++;
+			if (onProgress) {
+				onProgress(completed, totalEntries, entry.filmTitle);
+			}
+		})
+	);
 
-	return enrichedEntries;
+	return enrichedEntries.filter((entry): entry is LetterboxdEntry => entry !== null);
 }
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseDiaryPage, buildDiaryPageUrl, fetchDiaryHistory } from "./diary-pages";
+import { fetchPage, fetchTagsFromViewingPage, fetchTmdbIdFromFilmPage } from "./fetcher";
+
+vi.mock("./fetcher", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./fetcher")>()),
+	fetchPage: vi.fn(),
+	fetchTagsFromViewingPage: vi.fn(),
+	fetchTmdbIdFromFilmPage: vi.fn(),
+}));
+
+/** Diary row in the legacy (td-*) table layout */
+const LEGACY_ROW = `
+<tr class="diary-entry-row viewing-poster-container" data-viewing-id="1119837402" data-owner="e2e_test_acc">
+	<td class="td-calendar"><a href="/e2e_test_acc/films/diary/for/2025/12/">Dec</a></td>
+	<td class="td-day diary-day center"><a href="/e2e_test_acc/films/diary/for/2025/12/25/">25</a></td>
+	<td class="td-film-details">
+		<div class="really-lazy-load poster film-poster" data-film-slug="die-hard" data-item-name="Die Hard (1988)"></div>
+		<h3 class="headline-3 prettify"><a href="/e2e_test_acc/film/die-hard/1/">Die Hard</a></h3>
+	</td>
+	<td class="td-released center"><span>1988</span></td>
+	<td class="td-rating rating-green"><span class="rating rated-9"> ★★★★½ </span></td>
+	<td class="td-like center diary-like"><span class="has-icon icon-16 large-liked icon-liked hide-for-owner"></span></td>
+	<td class="td-rewatch center"><span class="has-icon icon-rewatch"></span></td>
+	<td class="td-review center"><a href="/e2e_test_acc/film/die-hard/1/" class="has-icon icon-review"></a></td>
+</tr>`;
+
+/** Diary row in the current (col-*) table layout */
+const CURRENT_ROW = `
+<tr class="diary-entry-row" data-object-id="viewing:1119839361">
+	<td class="col-daydate"><a class="daydate" href="/e2e_test_acc/films/diary/for/2025/10/05/">05</a></td>
+	<td class="col-production">
+		<div class="react-component" data-item-slug="one-battle-after-another" data-item-name="One Battle After Another (2025)"></div>
+		<h2 class="name -primary prettify"><a href="/e2e_test_acc/film/one-battle-after-another/">One Battle After Another</a></h2>
+	</td>
+	<td class="col-releaseyear"><span>2025</span></td>
+	<td class="col-rating"><span class="rating -tiny rated-10"></span></td>
+	<td class="col-like"><span class="icon-like"></span></td>
+	<td class="col-rewatch icon-status-off"></td>
+	<td class="col-review"></td>
+</tr>`;
+
+// ============================================================================
+// parseDiaryPage
+// ============================================================================
+
+describe("parseDiaryPage", () => {
+	it("parses a row in the legacy layout", () => {
+		const { rows } = parseDiaryPage(`<table>${LEGACY_ROW}</table>`);
+
+		expect(rows).toEqual([
+			{
+				viewingId: "1119837402",
+				filmSlug: "die-hard",
+				filmTitle: "Die Hard",
+				filmYear: 1988,
+				rating: 4.5,
+				rewatch: true,
+				liked: true,
+				watchedDate: "2025-12-25",
+				link: "https://letterboxd.com/e2e_test_acc/film/die-hard/1/",
+				hasReview: true,
+			},
+		]);
+	});
+
+	it("parses a row in the current layout", () => {
+		const { rows } = parseDiaryPage(`<table>${CURRENT_ROW}</table>`);
+
+		expect(rows).toEqual([
+			{
+				viewingId: "1119839361",
+				filmSlug: "one-battle-after-another",
+				filmTitle: "One Battle After Another",
+				filmYear: 2025,
+				rating: 5,
+				rewatch: false,
+				liked: false,
+				watchedDate: "2025-10-05",
+				link: "https://letterboxd.com/e2e_test_acc/film/one-battle-after-another/",
+				hasReview: false,
+			},
+		]);
+	});
+
+	it("keeps rows in page order", () => {
+		const { rows } = parseDiaryPage(`<table>${LEGACY_ROW}${CURRENT_ROW}</table>`);
+		expect(rows.map((r) => r.viewingId)).toEqual(["1119837402", "1119839361"]);
+	});
+
+	it("returns null rating for unrated rows", () => {
+		const html = CURRENT_ROW.replace(' rated-10"', '"');
+		expect(parseDiaryPage(html).rows[0].rating).toBeNull();
+	});
+
+	it("falls back to data-item-name for title and year", () => {
+		const html = `
+			<tr class="diary-entry-row" data-viewing-id="1">
+				<td><div data-film-slug="bonnie-and-clyde" data-item-name="Bonnie &amp; Clyde (1967)"></div></td>
+			</tr>`;
+		const { rows } = parseDiaryPage(html);
+		expect(rows[0].filmTitle).toBe("Bonnie & Clyde");
+		expect(rows[0].filmYear).toBe(1967);
+	});
+
+	it("skips rows without a viewing ID", () => {
+		const html = LEGACY_ROW.replace(' data-viewing-id="1119837402"', "");
+		expect(parseDiaryPage(html).rows).toEqual([]);
+	});
+
+	it("detects a link to the next page", () => {
+		const html = `${LEGACY_ROW}<div class="paginate-nextprev"><a class="next" href="/e2e_test_acc/films/diary/page/2/">Older</a></div>`;
+		expect(parseDiaryPage(html).hasNextPage).toBe(true);
+	});
+
+	it("reports no next page on the last page", () => {
+		const html = `${LEGACY_ROW}<div class="paginate-nextprev"><span class="next">Older</span></div>`;
+		expect(parseDiaryPage(html).hasNextPage).toBe(false);
+	});
+
+	it("returns no rows for empty string", () => {
+		expect(parseDiaryPage("")).toEqual({ rows: [], hasNextPage: false });
+	});
+});
+
+// ============================================================================
+// buildDiaryPageUrl
+// ============================================================================
+
+describe("buildDiaryPageUrl", () => {
+	it("builds the paginated diary URL", () => {
+		expect(buildDiaryPageUrl("e2e_test_acc", 3)).toBe(
+			"https://letterboxd.com/e2e_test_acc/films/diary/page/3/"
+		);
+	});
+});
+
+// ============================================================================
+// fetchDiaryHistory
+// ============================================================================
+
+describe("fetchDiaryHistory", () => {
+	const NEXT_PAGE = `<a class="next" href="/e2e_test_acc/films/diary/page/2/">Older</a>`;
+
+	it("reads on while pages have new rows", async () => {
+		vi.mocked(fetchPage)
+			.mockReset()
+			.mockImplementation((url) =>
+				Promise.resolve(
+					url.endsWith("/page/1/")
+						? `${LEGACY_ROW}${CURRENT_ROW}${NEXT_PAGE}`
+						: `${LEGACY_ROW}${NEXT_PAGE}`
+				)
+			);
+		vi.mocked(fetchTagsFromViewingPage).mockReset().mockResolvedValue(["cinema"]);
+		vi.mocked(fetchTmdbIdFromFilmPage).mockReset().mockResolvedValue("1054867");
+
+		const entries = await fetchDiaryHistory(
+			"e2e_test_acc",
+			(viewingId) => viewingId === "1119837402"
+		);
+
+		expect(fetchPage).toHaveBeenCalledTimes(2);
+		expect(entries.map((e) => [e.guid, e.filmTitle, e.tmdbId, e.tags])).toEqual([
+			["1119839361", "One Battle After Another", "1054867", ["cinema"]],
+		]);
+	});
+
+	it("stops at the first page already in the vault", async () => {
+		vi.mocked(fetchPage).mockReset().mockResolvedValue(`${LEGACY_ROW}${NEXT_PAGE}`);
+
+		const entries = await fetchDiaryHistory("e2e_test_acc", () => true);
+
+		expect(fetchPage).toHaveBeenCalledTimes(1);
+		expect(entries).toEqual([]);
+	});
+
+	it("requests the pages of the new rows of a page at once", async () => {
+		vi.mocked(fetchPage).mockReset().mockResolvedValue(`${LEGACY_ROW}${CURRENT_ROW}`);
+		const pending: (() => void)[] = [];
+		vi.mocked(fetchTagsFromViewingPage)
+			.mockReset()
+			.mockImplementation(() => new Promise((resolve) => pending.push(() => resolve([]))));
+		vi.mocked(fetchTmdbIdFromFilmPage).mockReset().mockResolvedValue("1054867");
+
+		const done = fetchDiaryHistory("e2e_test_acc", () => false);
+		await vi.waitFor(() => expect(fetchTagsFromViewingPage).toHaveBeenCalledTimes(2));
+		pending.forEach((resolve) => resolve());
+
+		expect((await done).map((e) => e.guid)).toEqual(["1119837402", "1119839361"]);
+	});
+
+	it("stops after the page limit", async () => {
+		vi.mocked(fetchPage).mockReset().mockResolvedValue(`${LEGACY_ROW}${NEXT_PAGE}`);
+		vi.mocked(fetchTagsFromViewingPage).mockReset().mockResolvedValue([]);
+		vi.mocked(fetchTmdbIdFromFilmPage).mockReset().mockResolvedValue("562");
+
+		await fetchDiaryHistory("e2e_test_acc", () => false, false, undefined, 3);
+
+		expect(fetchPage).toHaveBeenCalledTimes(3);
+	});
+});
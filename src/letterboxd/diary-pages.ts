@@ -0,0 +1,269 @@
+/**
+ * Letterboxd Diary Pages
+ *
+ * The RSS feed only exposes the most recent diary entries. To reach older
+ * entries we walk the paginated diary at letterboxd.com/<username>/films/diary/page/N/
+ * and parse each row:
+ * - Viewing ID, film slug, title and year
+ * - Rating, rewatch, like and watched date
+ *
+ * New rows are enriched with tags (viewing page) and TMDB ID (film page), all
+ * rows of a page queued at once through the request scheduler. The walk stops
+ * at the first page without new rows.
+ */
+
+import type { LetterboxdEntry } from "../types";
+import { ratingToStars } from "./parser";
+import { fetchPage, fetchTagsFromViewingPage, fetchTmdbIdFromFilmPage } from "./fetcher";
+import { decodeHtmlEntities } from "../utils/html";
+
+/** Base URL for Letterboxd */
+const LETTERBOXD_BASE_URL = "https://letterboxd.com";
+
+/**
+ * A single row of a Letterboxd diary page
+ */
+export interface DiaryPageRow {
+	/** Viewing/diary entry ID (e.g., "1093163294") */
+	viewingId: string;
+	/** Film slug (e.g., "the-revenant-2015") */
+	filmSlug: string;
+	/** Film title without year */
+	filmTitle: string;
+	/** Film release year, 0 if not found */
+	filmYear: number;
+	/** Numeric rating 0.5-5, null if unrated */
+	rating: number | null;
+	/** Whether this viewing is a rewatch */
+	rewatch: boolean;
+	/** Whether the film is liked in this viewing */
+	liked: boolean;
+	/** Date the film was watched (YYYY-MM-DD format) */
+	watchedDate: string;
+	/** Absolute URL to the viewing page */
+	link: string;
+	/** Whether the viewing has a review attached */
+	hasReview: boolean;
+}
+
+/**
+ * Parsed content of a single diary page
+ */
+export interface DiaryPage {
+	rows: DiaryPageRow[];
+	/** Whether the pagination links to a following page */
+	hasNextPage: boolean;
+}
+
+/**
+ * Returns the first capture group of a regex match, or null
+ */
+function matchFirst(html: string, regex: RegExp): string | null {
+	const match = html.match(regex);
+	return match ? match[1] : null;
+}
+
+/**
+ * Extracts the inner HTML of the table cell with the given column class
+ * Supports both the legacy (td-rating) and current (col-rating) class names
+ */
+function extractCell(rowHtml: string, column: string): { cls: string; html: string } | null {
+	const regex = new RegExp(
+		`<td[^>]*class="([^"]*\\b(?:td|col)-${column}\\b[^"]*)"[^>]*>([\\s\\S]*?)</td>`
+	);
+	const match = rowHtml.match(regex);
+	return match ? { cls: match[1], html: match[2] } : null;
+}
+
+/**
+ * Parses a single diary row into a DiaryPageRow
+ * @param rowHtml - HTML of the <tr> element, including its opening tag
+ * @returns Parsed row or null if required fields are missing
+ */
+function parseDiaryRow(rowHtml: string): DiaryPageRow | null {
+	const viewingId =
+		matchFirst(rowHtml, /data-viewing-id="(\d+)"/) ??
+		matchFirst(rowHtml, /data-object-id="viewing:(\d+)"/);
+	const filmSlug =
+		matchFirst(rowHtml, /data-film-slug="([^"]+)"/) ??
+		matchFirst(rowHtml, /data-item-slug="([^"]+)"/);
+
+	if (!viewingId || !filmSlug) {
+		return null;
+	}
+
+	// Title link points to the viewing page: <h3><a href="/user/film/slug/">Title</a></h3>
+	const titleMatch = rowHtml.match(/<h[23][^>]*>\s*<a\s+href="([^"]+)"[^>]*>([^<]+)<\/a>/);
+	const itemName = matchFirst(rowHtml, /data-item-name="([^"]+)"/);
+	const filmTitle = decodeHtmlEntities(
+		titleMatch ? titleMatch[2].trim() : (itemName ?? "").replace(/\s*\(\d{4}\)$/, "")
+	);
+
+	if (!filmTitle) {
+		return null;
+	}
+
+	const releasedCell = extractCell(rowHtml, "released") ?? extractCell(rowHtml, "releaseyear");
+	const yearStr =
+		(releasedCell && matchFirst(releasedCell.html, /(\d{4})/)) ??
+		matchFirst(rowHtml, /data-film-release-year="(\d{4})"/) ??
+		(itemName && matchFirst(itemName, /\((\d{4})\)$/));
+
+	const watchedMatch = rowHtml.match(/\/films\/diary\/for\/(\d{4})\/(\d{2})\/(\d{2})\//);
+	const ratingStr = matchFirst(rowHtml, /\brated-(\d+)\b/);
+
+	const likeCell = extractCell(rowHtml, "like");
+	const rewatchCell = extractCell(rowHtml, "rewatch");
+	const reviewCell = extractCell(rowHtml, "review");
+
+	const viewingPath = titleMatch ? titleMatch[1] : `/film/${filmSlug}/`;
+
+	return {
+		viewingId,
+		filmSlug,
+		filmTitle,
+		filmYear: yearStr ? parseInt(yearStr, 10) : 0,
+		rating: ratingStr ? parseInt(ratingStr, 10) / 2 : null,
+		rewatch: rewatchCell !== null && !rewatchCell.cls.includes("icon-status-off"),
+		liked: likeCell !== null && /\bicon-liked\b/.test(likeCell.html),
+		watchedDate: watchedMatch ? `${watchedMatch[1]}-${watchedMatch[2]}-${watchedMatch[3]}` : "",
+		link: viewingPath.startsWith("http") ? viewingPath : `${LETTERBOXD_BASE_URL}${viewingPath}`,
+		hasReview: reviewCell !== null && /<a\s/.test(reviewCell.html),
+	};
+}
+
+/**
+ * Parses a Letterboxd diary page HTML
+ * Looks for: <tr class="diary-entry-row ..." data-viewing-id="...">...</tr>
+ *
+ * @returns Parsed rows (in page order) and whether a next page exists
+ */
+export function parseDiaryPage(html: string): DiaryPage {
+	const rows: DiaryPageRow[] = [];
+	const rowRegex = /<tr\b[^>]*\bdiary-entry-row\b[^>]*>[\s\S]*?<\/tr>/g;
+
+	let match;
+	while ((match = rowRegex.exec(html)) !== null) {
+		const row = parseDiaryRow(match[0]);
+		if (row) {
+			rows.push(row);
+		}
+	}
+
+	// Pagination renders an <a class="next"> link only when an older page exists
+	const hasNextPage = /<a\b[^>]*\bclass="[^"]*\bnext\b[^"]*"/.test(html);
+
+	return { rows, hasNextPage };
+}
+
+/**
+ * Builds the URL of a diary page
+ * @param username - Letterboxd username
+ * @param page - 1-indexed page number
+ */
+export function buildDiaryPageUrl(username: string, page: number): string {
+	return `${LETTERBOXD_BASE_URL}/${username}/films/diary/page/${page}/`;
+}
+
+/**
+ * Converts a diary row into a LetterboxdEntry, fetching the data the row lacks
+ *
+ * Makes 2 requests:
+ * 1. Fetch viewing page → tags
+ * 2. Fetch main film page → TMDB ID
+ */
+async function enrichDiaryRow(row: DiaryPageRow): Promise<LetterboxdEntry> {
+	const tags = await fetchTagsFromViewingPage(row.link);
+	// Diary pages show neither the poster nor the review
+	const missingFields: (keyof LetterboxdEntry)[] = [
+		"posterUrl",
+		"review",
+		"reviewText",
+		"containsSpoilers",
+	];
+	if (!tags) missingFields.push("tags");
+
+	let tmdbId = "";
+	try {
+		tmdbId = await fetchTmdbIdFromFilmPage(row.filmSlug);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		console.warn(`Letterboxd: Failed to fetch TMDB ID for "${row.filmTitle}": ${message}`);
+		missingFields.push("tmdbId");
+	}
+
+	return {
+		filmTitle: row.filmTitle,
+		filmYear: row.filmYear,
+		userRatingNo: row.rating,
+		userRatingStars: ratingToStars(row.rating),
+		watchedDate: row.watchedDate,
+		rewatch: row.rewatch,
+		link: row.link,
+		tmdbId,
+		posterUrl: "",
+		guid: row.viewingId,
+		review: "",
+		reviewText: "",
+		pubDate: row.watchedDate, // Logged date is not shown on diary pages
+		containsSpoilers: false,
+		liked: row.liked,
+		tags: tags ?? [],
+		missingFields,
+	};
+}
+
+/**
+ * Progress callback for diary backfill operations
+ * @param page - Diary page currently being processed (1-indexed)
+ * @param found - Number of new entries found so far
+ */
+export type BackfillProgressCallback = (page: number, found: number) => void;
+
+/**
+ * Walks the diary pages of a Letterboxd user and returns entries not yet in the vault
+ *
+ * Stops at the first page whose rows are all in the vault already (or left out
+ * by reviewsOnly), so running it again only costs a request.
+ *
+ * @param username - Letterboxd username
+ * @param isKnown - Returns true if a viewing ID already exists in the vault
+ * @param reviewsOnly - Skip rows without a review
+ * @param onProgress - Optional callback for progress updates
+ * @param maxPages - Stop after this many pages
+ * @returns Array of new diary entries, newest first
+ * @throws Error if a diary page cannot be fetched
+ */
+export async function fetchDiaryHistory(
+	username: string,
+	isKnown: (viewingId: string) => boolean,
+	reviewsOnly = false,
+	onProgress?: BackfillProgressCallback,
+	maxPages = Infinity
+): Promise<LetterboxdEntry[]> {
+	if (!username) {
+		throw new Error("Letterboxd username is required");
+	}
+
+	const entries: LetterboxdEntry[] = [];
+
+	for (let page = 1; page <= maxPages; page++) {
+		if (onProgress) {
+			onProgress(page, entries.length);
+		}
+
+		const html = await fetchPage(buildDiaryPageUrl(username, page));
+		const { rows, hasNextPage } = parseDiaryPage(html);
+
+		const newRows = rows.filter(
+			(row) => !isKnown(row.viewingId) && (!reviewsOnly || row.hasReview)
+		);
+		entries.push(...(await Promise.all(newRows.map(enrichDiaryRow))));
+
+		if (newRows.length === 0 || !hasNextPage) {
+			break;
+		}
+	}
+
+	return entries;
+}
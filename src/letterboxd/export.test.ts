@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "fs";
+import * as path from "path";
+import {
+	readLetterboxdExport,
+	countExportDatasets,
+	collectFilmStatuses,
+	parseListCSV,
+} from "./export";
+import type { ExportDataset } from "./export";
+
+const FIXTURES_DIR = path.resolve(__dirname, "../__tests__/fixtures/letterboxd-export");
+
+/**
+ * Reads the export fixtures as unzip would return them
+ * @param prefix - Folder the files are nested in
+ */
+function readFixtureFiles(prefix = ""): Map<string, Uint8Array> {
+	const files = new Map<string, Uint8Array>();
+	const walk = (dir: string) => {
+		for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+			const fullPath = path.join(dir, entry.name);
+			if (entry.isDirectory()) {
+				walk(fullPath);
+			} else {
+				const relativePath = path
+					.relative(FIXTURES_DIR, fullPath)
+					.split(path.sep)
+					.join("/");
+				files.set(prefix + relativePath, new Uint8Array(fs.readFileSync(fullPath)));
+			}
+		}
+	};
+	walk(FIXTURES_DIR);
+	return files;
+}
+
+// ============================================================================
+// readLetterboxdExport
+// ============================================================================
+
+describe("readLetterboxdExport", () => {
+	it("reads every dataset of the export", () => {
+		const data = readLetterboxdExport(readFixtureFiles());
+
+		expect(data.diaryCSV).toContain("Heat,1995");
+		expect(data.reviewsCSV).toContain("The diner scene");
+		expect(data.ratings).toHaveLength(3);
+		expect(data.ratings[0]).toEqual({
+			filmTitle: "Heat",
+			filmYear: 1995,
+			uri: "https://boxd.it/29qe",
+			date: "2024-01-02",
+			rating: 4.5,
+		});
+		expect(data.watched.map((row) => row.filmTitle)).toContain(
+			"Crouching Tiger, Hidden Dragon"
+		);
+		expect(data.watchlist).toHaveLength(2);
+		expect(data.likes).toHaveLength(1);
+		expect(data.lists.map((list) => list.name)).toEqual(["Heists"]);
+	});
+
+	it("finds the export nested in a folder", () => {
+		const data = readLetterboxdExport(readFixtureFiles("letterboxd-user-2024-03-01/"));
+
+		expect(data.diaryCSV).not.toBeNull();
+		expect(data.likes).toHaveLength(1);
+		expect(data.lists).toHaveLength(1);
+	});
+
+	it("ignores deleted entries and macOS metadata", () => {
+		const files = readFixtureFiles();
+		files.set("deleted/diary.csv", new TextEncoder().encode("Date,Name\n"));
+		files.set("deleted/lists/old.csv", files.get("lists/heists.csv") as Uint8Array);
+		files.set("__MACOSX/._diary.csv", new Uint8Array([0, 5, 22, 7]));
+
+		const data = readLetterboxdExport(files);
+
+		expect(data.diaryCSV).toContain("Heat,1995");
+		expect(data.lists).toHaveLength(1);
+	});
+
+	it("leaves missing datasets empty", () => {
+		const data = readLetterboxdExport(
+			new Map([["watched.csv", new TextEncoder().encode("Date,Name,Year,Letterboxd URI\n")]])
+		);
+
+		expect(data.diaryCSV).toBeNull();
+		expect(countExportDatasets(data)).toEqual({
+			diary: 0,
+			ratings: 0,
+			watched: 0,
+			watchlist: 0,
+			likes: 0,
+			lists: 0,
+		});
+	});
+});
+
+// ============================================================================
+// parseListCSV
+// ============================================================================
+
+describe("parseListCSV", () => {
+	it("reads the list and its films in order", () => {
+		const list = parseListCSV(
+			fs.readFileSync(path.join(FIXTURES_DIR, "lists/heists.csv"), "utf-8")
+		);
+
+		expect(list).toEqual({
+			name: "Heists",
+			date: "2024-03-01",
+			url: "https://letterboxd.com/user/list/heists/",
+			description: "The best jobs, <i>ranked</i>.",
+			tags: ["crime", "heist"],
+			films: [
+				{
+					position: 1,
+					filmTitle: "Heat",
+					filmYear: 1995,
+					uri: "https://boxd.it/29qe",
+					description: "",
+				},
+				{
+					position: 2,
+					filmTitle: "Thief",
+					filmYear: 1981,
+					uri: "https://boxd.it/1Lsm",
+					description: "The safe-cracking opener.",
+				},
+			],
+		});
+	});
+
+	it("returns null without a list record", () => {
+		expect(parseListCSV("Letterboxd list export v7\n")).toBeNull();
+	});
+});
+
+// ============================================================================
+// countExportDatasets
+// ============================================================================
+
+describe("countExportDatasets", () => {
+	it("counts merged diary entries, films and lists", () => {
+		expect(countExportDatasets(readLetterboxdExport(readFixtureFiles()))).toEqual({
+			diary: 3,
+			ratings: 3,
+			watched: 4,
+			watchlist: 2,
+			likes: 1,
+			lists: 1,
+		});
+	});
+});
+
+// ============================================================================
+// collectFilmStatuses
+// ============================================================================
+
+describe("collectFilmStatuses", () => {
+	const data = readLetterboxdExport(readFixtureFiles());
+	const all = new Set<ExportDataset>(["watched", "ratings", "likes", "watchlist", "lists"]);
+
+	it("merges the datasets by film", () => {
+		const films = collectFilmStatuses(data, all);
+		const byTitle = new Map(films.map((film) => [film.filmTitle, film]));
+
+		expect(films).toHaveLength(5);
+		expect(byTitle.get("Heat")).toMatchObject({ watched: true, rating: 4.5, liked: true });
+		expect(byTitle.get("Thief")).toMatchObject({
+			watched: true,
+			watchlist: true,
+			rating: null,
+		});
+		expect(byTitle.get("Sorcerer")).toMatchObject({ watched: false, watchlist: true });
+	});
+
+	it("only reads the selected datasets", () => {
+		const films = collectFilmStatuses(data, new Set<ExportDataset>(["likes"]));
+
+		expect(films).toEqual([
+			{
+				filmTitle: "Heat",
+				filmYear: 1995,
+				uri: "https://boxd.it/29qe",
+				watched: false,
+				watchlist: false,
+				rating: null,
+				liked: true,
+			},
+		]);
+	});
+
+	it("leaves list films to the list notes", () => {
+		expect(collectFilmStatuses(data, new Set<ExportDataset>(["lists"]))).toEqual([]);
+	});
+});
@@ -0,0 +1,323 @@
+/**
+ * Letterboxd Export Archive
+ *
+ * Reads the datasets of the export .zip (or its unpacked folder):
+ * - diary.csv / reviews.csv: diary entries (see csv-parser)
+ * - ratings.csv: Date, Name, Year, Letterboxd URI, Rating
+ * - watched.csv, watchlist.csv, likes/films.csv: Date, Name, Year, Letterboxd URI
+ * - lists/*.csv: one file per list (see parseListCSV)
+ *
+ * Unlike diary.csv, the Letterboxd URIs of these files point to films, not viewings.
+ */
+
+import { parseCSVRows, tokenizeCSV } from "../utils/csv";
+import type { CSVRow } from "../utils/csv";
+import { parseLetterboxdExportOffline, parseTags } from "./csv-parser";
+
+/** Paths of the export files, relative to the export root */
+const DIARY_PATH = "diary.csv";
+const REVIEWS_PATH = "reviews.csv";
+const RATINGS_PATH = "ratings.csv";
+const WATCHED_PATH = "watched.csv";
+const WATCHLIST_PATH = "watchlist.csv";
+const LIKES_PATH = "likes/films.csv";
+const LISTS_FOLDER = "lists/";
+
+/** Folder macOS adds to archives it creates */
+const MACOS_METADATA_FOLDER = "__MACOSX/";
+
+/**
+ * Datasets of an export that can be imported
+ */
+export type ExportDataset = "diary" | "ratings" | "watched" | "watchlist" | "likes" | "lists";
+
+/** Datasets in the order they are presented and imported */
+export const EXPORT_DATASETS: ExportDataset[] = [
+	"diary",
+	"watched",
+	"ratings",
+	"likes",
+	"watchlist",
+	"lists",
+];
+
+/**
+ * A film row of ratings.csv, watched.csv, watchlist.csv or likes/films.csv
+ */
+export interface ExportFilmRow {
+	filmTitle: string;
+	filmYear: number;
+	/** Letterboxd URI of the film (e.g., "https://boxd.it/29qe") */
+	uri: string;
+	/** Date the row was added (YYYY-MM-DD format) */
+	date: string;
+	/** Numeric rating 0.5-5 (ratings.csv only), null otherwise */
+	rating: number | null;
+}
+
+/**
+ * A film of an exported list
+ */
+export interface ExportListFilm {
+	/** 1-indexed position in the list */
+	position: number;
+	filmTitle: string;
+	filmYear: number;
+	/** Letterboxd URI of the film */
+	uri: string;
+	/** Note attached to the film in the list, empty if none */
+	description: string;
+}
+
+/**
+ * A list from lists/*.csv
+ */
+export interface ExportList {
+	name: string;
+	/** Date the list was created (YYYY-MM-DD format) */
+	date: string;
+	/** URL of the list on Letterboxd */
+	url: string;
+	/** List description (may contain HTML) */
+	description: string;
+	tags: string[];
+	films: ExportListFilm[];
+}
+
+/**
+ * Contents of a Letterboxd export
+ */
+export interface LetterboxdExport {
+	diaryCSV: string | null;
+	reviewsCSV: string | null;
+	ratings: ExportFilmRow[];
+	watched: ExportFilmRow[];
+	watchlist: ExportFilmRow[];
+	likes: ExportFilmRow[];
+	lists: ExportList[];
+}
+
+/**
+ * Watch status of a film across the film datasets of an export
+ */
+export interface ExportFilmStatus {
+	filmTitle: string;
+	filmYear: number;
+	/** Letterboxd URI of the film */
+	uri: string;
+	/** In watched.csv or ratings.csv */
+	watched: boolean;
+	/** In watchlist.csv */
+	watchlist: boolean;
+	/** Rating 0.5-5 from ratings.csv, null if unrated */
+	rating: number | null;
+	/** In likes/films.csv */
+	liked: boolean;
+}
+
+/**
+ * Returns the folder the export files are in
+ * Archives of a re-zipped export folder nest everything in that folder.
+ */
+function findExportRoot(paths: string[]): string {
+	// The shallowest diary.csv or watched.csv (deleted/ has its own diary.csv)
+	const markers = paths
+		.filter((p) => [DIARY_PATH, WATCHED_PATH].includes(p.split("/").pop() ?? ""))
+		.sort((a, b) => a.split("/").length - b.split("/").length);
+	if (markers.length === 0) {
+		return "";
+	}
+	return markers[0].slice(0, markers[0].lastIndexOf("/") + 1);
+}
+
+/**
+ * Converts a film dataset row
+ * @returns The row, or null if it has no film title
+ */
+function toExportFilmRow(row: CSVRow): ExportFilmRow | null {
+	const field = (name: string): string => row[name] ?? "";
+
+	const filmTitle = field("Name");
+	if (!filmTitle) return null;
+
+	return {
+		filmTitle,
+		filmYear: parseInt(field("Year"), 10) || 0,
+		uri: field("Letterboxd URI"),
+		date: field("Date"),
+		rating: field("Rating") ? parseFloat(field("Rating")) : null,
+	};
+}
+
+/**
+ * Parses ratings.csv, watched.csv, watchlist.csv or likes/films.csv
+ * Columns are looked up by header name.
+ */
+export function parseFilmCSV(csvContent: string): ExportFilmRow[] {
+	return parseCSVRows(csvContent)
+		.map(toExportFilmRow)
+		.filter((row): row is ExportFilmRow => row !== null);
+}
+
+/**
+ * Parses a list export
+ *
+ * The file starts with a format line ("Letterboxd list export v7"), followed by
+ * a header record and a record describing the list (Date, Name, Tags, URL,
+ * Description), then a blank line and the films (Position, Name, Year, URL,
+ * Description).
+ *
+ * @returns The list, or null if the file has no list record
+ */
+export function parseListCSV(csvContent: string): ExportList | null {
+	const records = [...tokenizeCSV(csvContent)].filter(
+		(fields) => !(fields.length === 1 && fields[0].trim() === "")
+	);
+
+	const toRow = (header: string[], fields: string[]): CSVRow => {
+		const row: CSVRow = {};
+		header.forEach((name, index) => {
+			row[name.trim()] = fields[index] ?? "";
+		});
+		return row;
+	};
+
+	const listHeaderIndex = records.findIndex((fields) => fields[0].trim() === "Date");
+	if (listHeaderIndex < 0 || listHeaderIndex + 1 >= records.length) {
+		return null;
+	}
+	const list = toRow(records[listHeaderIndex], records[listHeaderIndex + 1]);
+
+	const filmHeaderIndex = records.findIndex((fields) => fields[0].trim() === "Position");
+	const films: ExportListFilm[] = [];
+	if (filmHeaderIndex >= 0) {
+		for (const fields of records.slice(filmHeaderIndex + 1)) {
+			const row = toRow(records[filmHeaderIndex], fields);
+			if (!row["Name"]) continue;
+			films.push({
+				position: parseInt(row["Position"], 10) || films.length + 1,
+				filmTitle: row["Name"],
+				filmYear: parseInt(row["Year"], 10) || 0,
+				uri: row["URL"] ?? "",
+				description: row["Description"] ?? "",
+			});
+		}
+	}
+
+	return {
+		name: list["Name"] ?? "",
+		date: list["Date"] ?? "",
+		url: list["URL"] ?? "",
+		description: list["Description"] ?? "",
+		tags: parseTags(list["Tags"] ?? ""),
+		films,
+	};
+}
+
+/**
+ * Reads the datasets of a Letterboxd export
+ * Files of the deleted/ and orphaned/ folders are ignored, as are datasets
+ * missing from the export.
+ * @param files - Export files by path, as returned by unzip
+ */
+export function readLetterboxdExport(files: Map<string, Uint8Array>): LetterboxdExport {
+	const decoder = new TextDecoder();
+	const paths = [...files.keys()].filter((p) => !p.startsWith(MACOS_METADATA_FOLDER));
+	const root = findExportRoot(paths);
+
+	const texts = new Map<string, string>();
+	for (const path of paths) {
+		if (!path.startsWith(root) || !path.toLowerCase().endsWith(".csv")) continue;
+		texts.set(path.slice(root.length), decoder.decode(files.get(path)));
+	}
+
+	const filmRows = (path: string): ExportFilmRow[] => {
+		const content = texts.get(path);
+		return content ? parseFilmCSV(content) : [];
+	};
+
+	const lists: ExportList[] = [];
+	for (const [path, content] of texts) {
+		// Only lists at the root of lists/ (not deleted/lists/)
+		if (!path.startsWith(LISTS_FOLDER) || path.slice(LISTS_FOLDER.length).includes("/")) {
+			continue;
+		}
+		const list = parseListCSV(content);
+		if (list) {
+			lists.push(list);
+		}
+	}
+
+	return {
+		diaryCSV: texts.get(DIARY_PATH) ?? null,
+		reviewsCSV: texts.get(REVIEWS_PATH) ?? null,
+		ratings: filmRows(RATINGS_PATH),
+		watched: filmRows(WATCHED_PATH),
+		watchlist: filmRows(WATCHLIST_PATH),
+		likes: filmRows(LIKES_PATH),
+		lists,
+	};
+}
+
+/**
+ * Counts the items of each dataset (diary entries, films or lists)
+ */
+export function countExportDatasets(data: LetterboxdExport): Record<ExportDataset, number> {
+	return {
+		diary:
+			data.diaryCSV || data.reviewsCSV
+				? parseLetterboxdExportOffline(data.diaryCSV, data.reviewsCSV).length
+				: 0,
+		ratings: data.ratings.length,
+		watched: data.watched.length,
+		watchlist: data.watchlist.length,
+		likes: data.likes.length,
+		lists: data.lists.length,
+	};
+}
+
+/**
+ * Merges the film datasets into one status per film
+ * Lists are not read: their films get their Film notes with the list notes.
+ * @param data - Contents of the export
+ * @param datasets - Datasets selected for import
+ * @returns Film statuses, in dataset order
+ */
+export function collectFilmStatuses(
+	data: LetterboxdExport,
+	datasets: Set<ExportDataset>
+): ExportFilmStatus[] {
+	const films = new Map<string, ExportFilmStatus>();
+
+	const add = (
+		row: Pick<ExportFilmRow, "filmTitle" | "filmYear" | "uri">,
+		update: Partial<ExportFilmStatus>
+	): void => {
+		if (!row.uri) return;
+		const film = films.get(row.uri) ?? {
+			filmTitle: row.filmTitle,
+			filmYear: row.filmYear,
+			uri: row.uri,
+			watched: false,
+			watchlist: false,
+			rating: null,
+			liked: false,
+		};
+		films.set(row.uri, { ...film, ...update });
+	};
+
+	if (datasets.has("watched")) {
+		data.watched.forEach((row) => add(row, { watched: true }));
+	}
+	if (datasets.has("ratings")) {
+		data.ratings.forEach((row) => add(row, { watched: true, rating: row.rating }));
+	}
+	if (datasets.has("likes")) {
+		data.likes.forEach((row) => add(row, { liked: true }));
+	}
+	if (datasets.has("watchlist")) {
+		data.watchlist.forEach((row) => add(row, { watchlist: true }));
+	}
+
+	return [...films.values()];
+}
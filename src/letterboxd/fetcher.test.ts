@@ -4,6 +4,10 @@ import {
 	extractTmdbId,
 	extractViewingIdFromRssGuid,
 	extractTagsFromHtml,
+	extractContainsSpoilersFromHtml,
+	extractPosterUrlFromHtml,
+	extractLikedFromHtml,
+	extractReviewHtmlFromHtml,
 } from "./fetcher";
 
 // ============================================================================
@@ -131,6 +135,87 @@ describe("extractViewingIdFromRssGuid", () => {
 	});
 });
 
+// ============================================================================
+// extractContainsSpoilersFromHtml
+// ============================================================================
+
+describe("extractContainsSpoilersFromHtml", () => {
+	it("detects the spoiler warning above the review", () => {
+		const html = `<div class="review body-text -prose -hero -loose">
+			<div><p>This review may contain spoilers. <a href="#" class="reveal">I can handle the truth.</a></p></div>
+		</div>`;
+		expect(extractContainsSpoilersFromHtml(html)).toBe(true);
+	});
+
+	it("returns false for reviews without the warning", () => {
+		const html = `<div class="review body-text -prose -hero -loose"><p>Great film.</p></div>`;
+		expect(extractContainsSpoilersFromHtml(html)).toBe(false);
+	});
+});
+
+// ============================================================================
+// extractPosterUrlFromHtml
+// ============================================================================
+
+describe("extractPosterUrlFromHtml", () => {
+	it("extracts the og:image URL", () => {
+		const html = `<meta property="og:image" content="https://a.ltrbxd.com/resized/film-poster/heat-0-1000-0-1500-crop.jpg?v=1&amp;k=2" />`;
+		expect(extractPosterUrlFromHtml(html)).toBe(
+			"https://a.ltrbxd.com/resized/film-poster/heat-0-1000-0-1500-crop.jpg?v=1&k=2"
+		);
+	});
+
+	it("falls back to the structured data image", () => {
+		const html = `<script type="application/ld+json">{"@type":"Movie","image":"https:\\/\\/a.ltrbxd.com\\/poster.jpg"}</script>`;
+		expect(extractPosterUrlFromHtml(html)).toBe("https://a.ltrbxd.com/poster.jpg");
+	});
+
+	it("returns empty string when no poster found", () => {
+		expect(extractPosterUrlFromHtml("<html></html>")).toBe("");
+	});
+});
+
+// ============================================================================
+// extractLikedFromHtml
+// ============================================================================
+
+describe("extractLikedFromHtml", () => {
+	it("detects the liked icon", () => {
+		const html = `<span class="has-icon icon-16 icon-liked"><span class="label">Liked</span></span>`;
+		expect(extractLikedFromHtml(html)).toBe(true);
+	});
+
+	it("returns false without the liked icon", () => {
+		const html = `<span class="has-icon icon-16 icon-like"></span>`;
+		expect(extractLikedFromHtml(html)).toBe(false);
+	});
+});
+
+// ============================================================================
+// extractReviewHtmlFromHtml
+// ============================================================================
+
+describe("extractReviewHtmlFromHtml", () => {
+	it("extracts the review body with nested elements", () => {
+		const html = `<section>
+			<div class="review body-text -prose -hero -loose"><div><p>First <em>paragraph</em>.</p><p>Second.</p></div></div>
+			<div class="other">Not the review</div>
+		</section>`;
+		expect(extractReviewHtmlFromHtml(html)).toBe(
+			"<div><p>First <em>paragraph</em>.</p><p>Second.</p></div>"
+		);
+	});
+
+	it("removes the spoiler warning", () => {
+		const html = `<div class="js-review-body"><p>This review may contain spoilers. <a href="#">I can handle the truth.</a></p><p>He dies.</p></div>`;
+		expect(extractReviewHtmlFromHtml(html)).toBe("<p>He dies.</p>");
+	});
+
+	it("returns empty string for viewings without a review", () => {
+		expect(extractReviewHtmlFromHtml(`<div class="film-poster"></div>`)).toBe("");
+	});
+});
+
 // ============================================================================
 // extractTagsFromHtml
 // ============================================================================
@@ -2,11 +2,13 @@
  * Letterboxd Page Fetcher
  *
  * Fetches and extracts data from Letterboxd pages:
- * - User review page: viewing ID
+ * - User review page: viewing ID, poster, spoiler flag, like status, review
  * - Main film page: TMDB ID
  */
 
-import { requestUrl } from "obsidian";
+import { scheduledRequest } from "../utils/request-scheduler";
+import { httpCache } from "../utils/http-cache";
+import { decodeHtmlEntities } from "../utils/html";
 
 /**
  * Data extracted from Letterboxd pages
@@ -16,6 +18,16 @@ export interface LetterboxdPageData {
 	viewingId: string;
 	/** TMDB movie ID (e.g., "281957") */
 	tmdbId: string;
+	/** Whether the review is marked as containing spoilers */
+	containsSpoilers: boolean;
+	/** URL to the film poster image, empty string if not found */
+	posterUrl: string;
+	/** Whether the film is liked in this viewing */
+	liked: boolean;
+	/** Review HTML (spoiler warning removed), empty string if no review */
+	reviewHtml: string;
+	/** Tags of the viewing */
+	tags: string[];
 }
 
 /** Base URL for Letterboxd */
@@ -30,6 +42,70 @@ export function extractViewingIdFromHtml(html: string): string | null {
 	return match ? match[1] : null;
 }
 
+/**
+ * Checks whether a Letterboxd viewing page marks the review as containing spoilers
+ * Looks for the spoiler warning shown above the review text
+ */
+export function extractContainsSpoilersFromHtml(html: string): boolean {
+	return /This review may contain spoilers/i.test(html);
+}
+
+/**
+ * Extracts the film poster URL from a Letterboxd viewing page HTML
+ * Looks for the og:image meta tag, then the image of the structured data
+ */
+export function extractPosterUrlFromHtml(html: string): string {
+	const ogImage = html.match(/<meta\s+property="og:image"\s+content="([^"]+)"/);
+	if (ogImage) {
+		return decodeHtmlEntities(ogImage[1]);
+	}
+
+	const ldImage = html.match(
+		/<script type="application\/ld\+json">[\s\S]*?"image"\s*:\s*"([^"]+)"[\s\S]*?<\/script>/
+	);
+	return ldImage ? ldImage[1].replace(/\\\//g, "/") : "";
+}
+
+/**
+ * Checks whether the film is liked in a Letterboxd viewing page HTML
+ * Looks for the liked icon: class="... icon-liked ..."
+ */
+export function extractLikedFromHtml(html: string): boolean {
+	return /class="[^"]*\bicon-liked\b[^"]*"/.test(html);
+}
+
+/**
+ * Extracts the review HTML from a Letterboxd viewing page HTML
+ * Looks for the review body: <div class="... js-review-body ..."> (or body-text)
+ * and returns its inner HTML without the spoiler warning.
+ *
+ * @returns Review HTML, empty string if the viewing has no review
+ */
+export function extractReviewHtmlFromHtml(html: string): string {
+	const openMatch =
+		/<div[^>]*class="[^"]*\bjs-review-body\b[^"]*"[^>]*>/.exec(html) ??
+		/<div[^>]*class="[^"]*\breview\b[^"]*\bbody-text\b[^"]*"[^>]*>/.exec(html);
+	if (!openMatch) {
+		return "";
+	}
+
+	// Find the matching closing tag, accounting for nested divs
+	const divTag = /<(\/?)div\b[^>]*>/g;
+	divTag.lastIndex = openMatch.index + openMatch[0].length;
+	let depth = 1;
+	let match;
+	while ((match = divTag.exec(html)) !== null) {
+		depth += match[1] ? -1 : 1;
+		if (depth === 0) break;
+	}
+	const end = match ? match.index : html.length;
+
+	return html
+		.slice(openMatch.index + openMatch[0].length, end)
+		.replace(/<p>[^<]*This review may contain spoilers[\s\S]*?<\/p>/g, "")
+		.trim();
+}
+
 /**
  * Extracts tags from a Letterboxd viewing page HTML
  * Looks for: <ul class="tags">...<a href="...">tag name</a>...</ul>
@@ -79,10 +155,10 @@ export function extractTmdbId(html: string): string | null {
 
 /**
  * Fetches a URL and returns the response text
- * Uses Obsidian's requestUrl which handles redirects and CORS properly
+ * Goes through the request scheduler, which retries transient failures
  */
-async function fetchPage(url: string): Promise<string> {
-	const response = await requestUrl({
+export async function fetchPage(url: string): Promise<string> {
+	const response = await scheduledRequest({
 		url,
 		method: "GET",
 	});
@@ -94,57 +170,105 @@ async function fetchPage(url: string): Promise<string> {
 	return response.text;
 }
 
+/** Fields of the page data; cached records missing one are fetched again */
+const PAGE_DATA_KEYS: (keyof LetterboxdPageData)[] = [
+	"viewingId",
+	"tmdbId",
+	"containsSpoilers",
+	"posterUrl",
+	"liked",
+	"reviewHtml",
+	"tags",
+];
+
+/**
+ * Whether cached page data has every field of the page data
+ */
+function isCompletePageData(data: Partial<LetterboxdPageData>): data is LetterboxdPageData {
+	return PAGE_DATA_KEYS.every((key) => data[key] !== undefined);
+}
+
 /**
  * Fetches data from a Letterboxd diary entry URL (boxd.it short URL)
  *
  * Makes 2 requests:
- * 1. Fetch user review page (following boxd.it redirect) → viewing ID + film slug
+ * 1. Fetch user review page (following boxd.it redirect) → viewing ID, film slug,
+ *    poster, spoiler flag, like status, review and tags
  * 2. Fetch main film page → TMDB ID
+ * Both are skipped when the HTTP cache has the data.
  *
  * @param letterboxdUri - The boxd.it URL from CSV (e.g., "https://boxd.it/bVO16l")
- * @returns Extracted page data or null if extraction fails
+ * @returns Extracted page data
+ * @throws Error if a page cannot be fetched or has no viewing ID or film slug
  */
-export async function fetchLetterboxdPageData(
-	letterboxdUri: string
-): Promise<LetterboxdPageData | null> {
-	try {
-		// Step 1: Fetch user review page (boxd.it redirects automatically)
-		const reviewPageHtml = await fetchPage(letterboxdUri);
+export async function fetchLetterboxdPageData(letterboxdUri: string): Promise<LetterboxdPageData> {
+	const cached = await httpCache.get<Partial<LetterboxdPageData>>("viewingPage", letterboxdUri);
+	if (cached && isCompletePageData(cached)) {
+		return cached;
+	}
 
-		const viewingId = extractViewingIdFromHtml(reviewPageHtml);
-		const filmSlug = extractFilmSlug(reviewPageHtml);
+	// Step 1: Fetch user review page (boxd.it redirects automatically)
+	const reviewPageHtml = await fetchPage(letterboxdUri);
 
-		if (!viewingId || !filmSlug) {
-			console.warn(
-				`Letterboxd: Could not extract viewing ID or film slug from ${letterboxdUri}`
-			);
-			return null;
-		}
+	const viewingId = extractViewingIdFromHtml(reviewPageHtml);
+	const filmSlug = extractFilmSlug(reviewPageHtml);
 
-		// Step 2: Fetch main film page to get TMDB ID
-		const filmPageUrl = `${LETTERBOXD_BASE_URL}/film/${filmSlug}/`;
-		const filmPageHtml = await fetchPage(filmPageUrl);
+	if (!viewingId || !filmSlug) {
+		throw new Error("No viewing ID or film slug found on the diary entry page");
+	}
 
-		const tmdbId = extractTmdbId(filmPageHtml);
+	// Step 2: Fetch main film page to get TMDB ID
+	// Still return partial data if missing - TMDB ID might not be available for all films
+	const tmdbId = await fetchTmdbIdFromFilmPage(filmSlug);
 
-		if (!tmdbId) {
-			console.warn(`Letterboxd: Could not extract TMDB ID from ${filmPageUrl}`);
-			// Still return partial data - TMDB ID might not be available for all films
-			return {
-				viewingId,
-				tmdbId: "",
-			};
-		}
+	const pageData: LetterboxdPageData = {
+		viewingId,
+		tmdbId,
+		containsSpoilers: extractContainsSpoilersFromHtml(reviewPageHtml),
+		posterUrl: extractPosterUrlFromHtml(reviewPageHtml),
+		liked: extractLikedFromHtml(reviewPageHtml),
+		reviewHtml: extractReviewHtmlFromHtml(reviewPageHtml),
+		tags: extractTagsFromHtml(reviewPageHtml),
+	};
+	await httpCache.set("viewingPage", letterboxdUri, pageData);
+	return pageData;
+}
 
-		return {
-			viewingId,
-			tmdbId,
-		};
-	} catch (error) {
-		const message = error instanceof Error ? error.message : "Unknown error";
-		console.error(`Letterboxd: Failed to fetch page data from ${letterboxdUri}: ${message}`);
-		return null;
+/**
+ * Fetches the TMDB ID from a Letterboxd main film page
+ *
+ * @param filmSlug - Film slug (e.g., "the-revenant-2015")
+ * @returns TMDB ID or empty string if the page has none
+ * @throws Error if the page cannot be fetched
+ */
+export async function fetchTmdbIdFromFilmPage(filmSlug: string): Promise<string> {
+	return fetchTmdbIdFromFilmUrl(`${LETTERBOXD_BASE_URL}/film/${filmSlug}/`);
+}
+
+/**
+ * Fetches the TMDB ID from a film page URL
+ * Also accepts the boxd.it film URLs of the export CSVs (the redirect is followed).
+ *
+ * @param filmUrl - Film page URL (e.g., "https://boxd.it/29qe")
+ * @returns TMDB ID or empty string if the page has none
+ * @throws Error if the page cannot be fetched
+ */
+export async function fetchTmdbIdFromFilmUrl(filmUrl: string): Promise<string> {
+	const cached = await httpCache.get<string>("filmPage", filmUrl);
+	if (cached) {
+		return cached;
+	}
+
+	const filmPageHtml = await fetchPage(filmUrl);
+
+	const tmdbId = extractTmdbId(filmPageHtml);
+	if (!tmdbId) {
+		console.warn(`Letterboxd: Could not extract TMDB ID from ${filmUrl}`);
+		return "";
 	}
+
+	await httpCache.set("filmPage", filmUrl, tmdbId);
+	return tmdbId;
 }
 
 /**
@@ -163,15 +287,15 @@ export function extractViewingIdFromRssGuid(guid: string): string | null {
  * Fetches tags from a Letterboxd viewing page
  *
  * @param viewingUrl - The full URL to the viewing page (from RSS <link>)
- * @returns Array of tags, empty array on error or if no tags
+ * @returns Array of tags (empty if no tags), null if the page could not be fetched
  */
-export async function fetchTagsFromViewingPage(viewingUrl: string): Promise<string[]> {
+export async function fetchTagsFromViewingPage(viewingUrl: string): Promise<string[] | null> {
 	try {
 		const html = await fetchPage(viewingUrl);
 		return extractTagsFromHtml(html);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : "Unknown error";
 		console.warn(`Letterboxd: Failed to fetch tags from ${viewingUrl}: ${message}`);
-		return [];
+		return null;
 	}
 }
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { normalizeListUrl, parseListPage, parseListRssDescription, listFromExport } from "./lists";
+
+/** Header of a ranked list page */
+const LIST_HEADER = `
+<header class="list-title-intro">
+	<h1 class="title-1 prettify">Heists &amp; Capers</h1>
+	<div class="body-text -prose -hero clear js-collapsible-text"><p>The best jobs, <i>ranked</i>.</p></div>
+	<ul class="tags clear">
+		<li><a href="/user/tag/crime/lists/">crime</a></li>
+		<li><a href="/user/tag/heist/lists/">heist</a></li>
+	</ul>
+</header>`;
+
+/** Poster of a list page */
+const POSTER = `
+<li class="poster-container numbered-list-item">
+	<div class="react-component" data-component-class="LazyPoster" data-item-name="Heat (1995)" data-item-slug="heat-1995" data-item-link="/film/heat-1995/"></div>
+	<p class="list-number">1</p>
+</li>`;
+
+// ============================================================================
+// normalizeListUrl
+// ============================================================================
+
+describe("normalizeListUrl", () => {
+	it("returns the canonical URL of a list page or view", () => {
+		expect(normalizeListUrl("letterboxd.com/user/list/heists/page/2/")).toBe(
+			"https://letterboxd.com/user/list/heists/"
+		);
+		expect(normalizeListUrl("https://www.letterboxd.com/user/list/heists/detail/")).toBe(
+			"https://letterboxd.com/user/list/heists/"
+		);
+	});
+
+	it("returns null for other URLs", () => {
+		expect(normalizeListUrl("https://letterboxd.com/user/watchlist/")).toBeNull();
+		expect(normalizeListUrl("https://boxd.it/4z5xK")).toBeNull();
+	});
+});
+
+// ============================================================================
+// parseListPage
+// ============================================================================
+
+describe("parseListPage", () => {
+	it("parses the list details and films of a ranked list", () => {
+		const page = parseListPage(
+			`${LIST_HEADER}<ul class="js-list-entries poster-list -p125 -grid film-list numbered-list">${POSTER}</ul>`
+		);
+
+		expect(page).toEqual({
+			name: "Heists & Capers",
+			description: "<p>The best jobs, <i>ranked</i>.</p>",
+			ranked: true,
+			tags: ["crime", "heist"],
+			films: [
+				{
+					filmTitle: "Heat",
+					filmYear: 1995,
+					uri: "https://letterboxd.com/film/heat-1995/",
+					note: "",
+				},
+			],
+			hasNextPage: false,
+		});
+	});
+
+	it("detects unranked lists", () => {
+		const page = parseListPage(
+			`${LIST_HEADER}<ul class="js-list-entries poster-list -p125 -grid film-list">${POSTER}</ul>`
+		);
+
+		expect(page.ranked).toBe(false);
+	});
+
+	it("falls back to the meta tags for the name and description", () => {
+		const page = parseListPage(
+			`<meta property="og:title" content="Heists" /><meta property="og:description" content="The best jobs." />`
+		);
+
+		expect(page.name).toBe("Heists");
+		expect(page.description).toBe("The best jobs.");
+	});
+});
+
+// ============================================================================
+// parseListRssDescription
+// ============================================================================
+
+describe("parseListRssDescription", () => {
+	it("parses the description and films of a ranked list", () => {
+		const parsed = parseListRssDescription(
+			`<p>The best jobs.</p><ol><li><a href="https://letterboxd.com/film/heat-1995/">Heat</a></li><li><a href="https://letterboxd.com/film/thief/">Thief</a></li></ol>`
+		);
+
+		expect(parsed).toEqual({
+			description: "<p>The best jobs.</p>",
+			ranked: true,
+			films: [
+				{
+					position: 1,
+					filmTitle: "Heat",
+					filmYear: 0,
+					uri: "https://letterboxd.com/film/heat-1995/",
+					note: "",
+				},
+				{
+					position: 2,
+					filmTitle: "Thief",
+					filmYear: 0,
+					uri: "https://letterboxd.com/film/thief/",
+					note: "",
+				},
+			],
+			complete: true,
+		});
+	});
+
+	it("flags long lists whose description only has the first films", () => {
+		const parsed = parseListRssDescription(
+			`<ul><li><a href="https://letterboxd.com/film/heat-1995/">Heat</a></li></ul><p>...plus 12 more. View the full list on Letterboxd.</p>`
+		);
+
+		expect(parsed.ranked).toBe(false);
+		expect(parsed.complete).toBe(false);
+	});
+});
+
+// ============================================================================
+// listFromExport
+// ============================================================================
+
+describe("listFromExport", () => {
+	it("converts an exported list, leaving the ranked flag unknown", () => {
+		const list = listFromExport({
+			name: "Heists",
+			date: "2024-03-01",
+			url: "https://boxd.it/4z5xK",
+			description: "The best jobs.",
+			tags: ["crime"],
+			films: [
+				{
+					position: 1,
+					filmTitle: "Thief",
+					filmYear: 1981,
+					uri: "https://boxd.it/1Lsm",
+					description: "The safe-cracking opener.",
+				},
+			],
+		});
+
+		expect(list).toMatchObject({ name: "Heists", ranked: null, complete: true });
+		expect(list.films[0].note).toBe("The safe-cracking opener.");
+	});
+});
@@ -0,0 +1,250 @@
+/**
+ * Letterboxd Lists
+ *
+ * A list is read from one of three sources:
+ * - lists/*.csv of an export (see parseListCSV)
+ * - the list pages at letterboxd.com/<username>/list/<slug>/page/N/, which
+ *   use the same poster grid as the watchlist
+ * - a list item of the RSS feed, whose description only shows the first
+ *   films of long lists (see parseListRssDescription)
+ */
+
+import { fetchPage } from "./fetcher";
+import { parseWatchlistPage } from "./watchlist";
+import type { ExportList } from "./export";
+import { decodeHtmlEntities } from "../utils/html";
+
+/** Base URL for Letterboxd */
+const LETTERBOXD_BASE_URL = "https://letterboxd.com";
+
+/** Regex matching a list URL, capturing the username and list slug */
+const LIST_URL_PATTERN = /^(?:https?:\/\/)?(?:www\.)?letterboxd\.com\/([^/?#]+)\/list\/([^/?#]+)/i;
+
+/**
+ * A film of a list
+ */
+export interface ListFilm {
+	/** 1-indexed position in the list */
+	position: number;
+	filmTitle: string;
+	/** Film release year, 0 if unknown */
+	filmYear: number;
+	/** Letterboxd URI of the film */
+	uri: string;
+	/** Note attached to the film in the list (may contain HTML), empty if none */
+	note: string;
+}
+
+/**
+ * A Letterboxd list
+ */
+export interface LetterboxdList {
+	name: string;
+	/** URL of the list on Letterboxd */
+	url: string;
+	/** List description (may contain HTML) */
+	description: string;
+	/** Whether the list is ranked, null if the source doesn't tell */
+	ranked: boolean | null;
+	tags: string[];
+	/** Films in list order */
+	films: ListFilm[];
+	/** False if the source only has the first films of the list (RSS) */
+	complete: boolean;
+}
+
+/**
+ * Parsed content of a single list page
+ */
+export interface ListPage {
+	name: string;
+	description: string;
+	ranked: boolean;
+	tags: string[];
+	/** Films of the page in list order; positions continue from the previous pages */
+	films: Omit<ListFilm, "position">[];
+	/** Whether the pagination links to a following page */
+	hasNextPage: boolean;
+}
+
+/**
+ * Converts a list of an export
+ * Exports don't record whether a list is ranked.
+ */
+export function listFromExport(list: ExportList): LetterboxdList {
+	return {
+		name: list.name,
+		url: list.url,
+		description: list.description,
+		ranked: null,
+		tags: list.tags,
+		films: list.films.map((film) => ({
+			position: film.position,
+			filmTitle: film.filmTitle,
+			filmYear: film.filmYear,
+			uri: film.uri,
+			note: film.description,
+		})),
+		complete: true,
+	};
+}
+
+/**
+ * Returns the canonical URL of a list (https://letterboxd.com/<username>/list/<slug>/)
+ * @param url - List URL, possibly of one of its pages or views
+ * @returns Canonical URL, or null if the URL is not a Letterboxd list URL
+ */
+export function normalizeListUrl(url: string): string | null {
+	const match = url.trim().match(LIST_URL_PATTERN);
+	return match ? `${LETTERBOXD_BASE_URL}/${match[1]}/list/${match[2]}/` : null;
+}
+
+/**
+ * Reads the content attribute of a meta tag
+ */
+function getMetaContent(html: string, property: string): string {
+	const match = html.match(new RegExp(`<meta\\b[^>]*\\bproperty="${property}"[^>]*>`));
+	const content = match?.[0].match(/\bcontent="([^"]*)"/);
+	return content ? decodeHtmlEntities(content[1]) : "";
+}
+
+/**
+ * Parses a Letterboxd list page HTML
+ * @returns List details, films (in page order) and whether a next page exists
+ */
+export function parseListPage(html: string): ListPage {
+	const { films, hasNextPage } = parseWatchlistPage(html);
+
+	const heading = html.match(/<h1\b[^>]*\bclass="[^"]*\btitle-1\b[^"]*"[^>]*>([\s\S]*?)<\/h1>/);
+	const name = heading
+		? decodeHtmlEntities(heading[1].replace(/<[^>]+>/g, "")).trim()
+		: getMetaContent(html, "og:title");
+
+	// The description is the prose block of the list header; the meta
+	// description is a plain text fallback
+	const body = html.match(/<div\b[^>]*\bclass="[^"]*\bbody-text\b[^"]*"[^>]*>([\s\S]*?)<\/div>/);
+	const description = body ? body[1].trim() : getMetaContent(html, "og:description");
+
+	const tags: string[] = [];
+	const tagList = html.match(/<ul\b[^>]*\bclass="[^"]*\btags\b[^"]*"[^>]*>([\s\S]*?)<\/ul>/);
+	if (tagList) {
+		for (const tag of tagList[1].matchAll(/<a\b[^>]*>([\s\S]*?)<\/a>/g)) {
+			const text = decodeHtmlEntities(tag[1].replace(/<[^>]+>/g, "")).trim();
+			if (text) tags.push(text);
+		}
+	}
+
+	return {
+		name,
+		description,
+		// Ranked lists number their posters (the list gets a numbered-list class)
+		ranked: /\bclass="(?:[^"]*\s)?numbered-list[\s"]/.test(html),
+		tags,
+		films: films.map((film) => ({
+			filmTitle: film.filmTitle,
+			filmYear: film.filmYear,
+			uri: film.uri,
+			note: "",
+		})),
+		hasNextPage,
+	};
+}
+
+/**
+ * Parses the description of a list item of the RSS feed
+ *
+ * The description holds the list description, then the films as links to
+ * their film page in an <ol> (ranked list) or <ul>, then for long lists a
+ * "...plus N more" paragraph.
+ *
+ * @param descriptionHtml - HTML content of the item description
+ */
+export function parseListRssDescription(
+	descriptionHtml: string
+): Pick<LetterboxdList, "description" | "ranked" | "films" | "complete"> {
+	const filmList = descriptionHtml.match(/<(ol|ul)\b[^>]*>([\s\S]*?)<\/\1>/i);
+	const films: ListFilm[] = [];
+
+	if (filmList) {
+		const linkRegex = /<a\b[^>]*\bhref="([^"]*\/film\/[^"]+)"[^>]*>([\s\S]*?)<\/a>/g;
+		for (const link of filmList[2].matchAll(linkRegex)) {
+			films.push({
+				position: films.length + 1,
+				filmTitle: decodeHtmlEntities(link[2].replace(/<[^>]+>/g, "")).trim(),
+				filmYear: 0,
+				uri: decodeHtmlEntities(link[1]),
+				note: "",
+			});
+		}
+	}
+
+	const before = filmList ? descriptionHtml.slice(0, filmList.index) : descriptionHtml;
+
+	return {
+		description: before.trim(),
+		ranked: filmList ? filmList[1].toLowerCase() === "ol" : null,
+		films,
+		complete: !/\.\.\.\s*plus\s+\d+\s+more/i.test(descriptionHtml),
+	};
+}
+
+/**
+ * Builds the URL of a list page
+ * @param listUrl - Canonical list URL (see normalizeListUrl)
+ * @param page - 1-indexed page number
+ */
+export function buildListPageUrl(listUrl: string, page: number): string {
+	return `${listUrl}page/${page}/`;
+}
+
+/**
+ * Progress callback for list fetches
+ * @param page - List page currently being fetched (1-indexed)
+ * @param found - Number of films found so far
+ */
+export type ListProgressCallback = (page: number, found: number) => void;
+
+/**
+ * Fetches a whole list from its pages
+ * @param url - List URL
+ * @param onProgress - Optional callback for progress updates
+ * @returns The list, films in list order
+ * @throws Error if the URL is not a list URL or a list page cannot be fetched
+ */
+export async function fetchList(
+	url: string,
+	onProgress?: ListProgressCallback
+): Promise<LetterboxdList> {
+	const listUrl = normalizeListUrl(url);
+	if (!listUrl) {
+		throw new Error(`Not a Letterboxd list URL: ${url}`);
+	}
+
+	let list: LetterboxdList | null = null;
+
+	for (let page = 1; ; page++) {
+		if (onProgress) {
+			onProgress(page, list?.films.length ?? 0);
+		}
+
+		const parsed = parseListPage(await fetchPage(buildListPageUrl(listUrl, page)));
+		list ??= {
+			name: parsed.name,
+			url: listUrl,
+			description: parsed.description,
+			ranked: parsed.ranked,
+			tags: parsed.tags,
+			films: [],
+			complete: true,
+		};
+		for (const film of parsed.films) {
+			list.films.push({ ...film, position: list.films.length + 1 });
+		}
+
+		if (parsed.films.length === 0 || !parsed.hasNextPage) {
+			break;
+		}
+	}
+
+	return list;
+}
@@ -1,6 +1,19 @@
-import { describe, it, expect } from "vitest";
-import { ratingToStars, extractPosterUrl, extractReviewText } from "./parser";
-import { extractViewingIdFromRssGuid } from "./fetcher";
+import { describe, it, expect, vi } from "vitest";
+import {
+	ratingToStars,
+	extractPosterUrl,
+	extractReviewText,
+	extractReviewMarkdown,
+	fetchEntryTags,
+	getFeedItemType,
+} from "./parser";
+import { extractViewingIdFromRssGuid, fetchTagsFromViewingPage } from "./fetcher";
+import type { LetterboxdEntry } from "../types";
+
+vi.mock("./fetcher", async (importOriginal) => ({
+	...(await importOriginal<typeof import("./fetcher")>()),
+	fetchTagsFromViewingPage: vi.fn(),
+}));
 
 // ============================================================================
 // ratingToStars
@@ -78,6 +91,26 @@ describe("extractViewingIdFromRssGuid", () => {
 	});
 });
 
+// ============================================================================
+// getFeedItemType
+// ============================================================================
+
+describe("getFeedItemType", () => {
+	it("classifies reviews and watches as diary items", () => {
+		expect(getFeedItemType("letterboxd-review-1093163294")).toBe("diary");
+		expect(getFeedItemType("letterboxd-watch-456789")).toBe("diary");
+	});
+
+	it("classifies published lists", () => {
+		expect(getFeedItemType("letterboxd-list-31415926")).toBe("list");
+	});
+
+	it("returns unknown for other GUIDs", () => {
+		expect(getFeedItemType("letterboxd-story-12")).toBe("unknown");
+		expect(getFeedItemType("")).toBe("unknown");
+	});
+});
+
 // ============================================================================
 // extractPosterUrl
 // ============================================================================
@@ -167,3 +200,116 @@ describe("extractReviewText", () => {
 		expect(extractReviewText(html)).toBe("Padded text");
 	});
 });
+
+// ============================================================================
+// extractReviewMarkdown
+// ============================================================================
+
+describe("extractReviewMarkdown", () => {
+	it("keeps formatting of a real-world review", () => {
+		const html = `<p><img src="https://a.ltrbxd.com/poster.jpg"/></p>
+<p><em>This review may contain spoilers.</em></p>
+<p>Great film! I loved the <em>cinematography</em>.</p>
+<blockquote><p>Say hello to my little friend</p></blockquote>
+<p>See also <a href="https://letterboxd.com/film/heat/">Heat</a> &mdash; same year.</p>`;
+		expect(extractReviewMarkdown(html)).toBe(
+			"Great film! I loved the *cinematography*.\n\n" +
+				"> Say hello to my little friend\n\n" +
+				"See also [Heat](https://letterboxd.com/film/heat/) — same year."
+		);
+	});
+
+	it('returns empty string for "Watched on..." entries', () => {
+		const html =
+			'<p><img src="https://a.ltrbxd.com/poster.jpg"/></p><p>Watched on Thursday 5 December 2025</p>';
+		expect(extractReviewMarkdown(html)).toBe("");
+	});
+});
+
+// ============================================================================
+// fetchEntryTags
+// ============================================================================
+
+function rssEntry(filmTitle: string, link: string): LetterboxdEntry {
+	return {
+		filmTitle,
+		filmYear: 0,
+		userRatingNo: null,
+		userRatingStars: "",
+		watchedDate: "",
+		rewatch: false,
+		link,
+		tmdbId: "",
+		posterUrl: "",
+		guid: "",
+		review: "",
+		reviewText: "",
+		pubDate: "",
+		containsSpoilers: false,
+		liked: false,
+		tags: [],
+	};
+}
+
+describe("fetchEntryTags", () => {
+	it("fetches tags for the given entries only and reports progress", async () => {
+		vi.mocked(fetchTagsFromViewingPage)
+			.mockReset()
+			.mockImplementation((url) =>
+				Promise.resolve([url.includes("heat") ? "cinema" : "home"])
+			);
+		const entries = [
+			rssEntry("Heat", "https://letterboxd.com/u/film/heat/"),
+			rssEntry("Alien", "https://letterboxd.com/u/film/alien/"),
+		];
+		const progress: string[] = [];
+
+		await fetchEntryTags(entries, (current, total, filmTitle) =>
+			progress.push(`${current}/${total} ${filmTitle}`)
+		);
+
+		expect(entries.map((e) => e.tags)).toEqual([["cinema"], ["home"]]);
+		expect(progress).toEqual(["1/2 Heat", "2/2 Alien"]);
+		expect(fetchTagsFromViewingPage).toHaveBeenCalledTimes(2);
+	});
+
+	it("requests the pages of all entries at once", async () => {
+		const pending: (() => void)[] = [];
+		vi.mocked(fetchTagsFromViewingPage)
+			.mockReset()
+			.mockImplementation(
+				() => new Promise((resolve) => pending.push(() => resolve(["cinema"])))
+			);
+		const entries = [
+			rssEntry("Heat", "https://letterboxd.com/u/film/heat/"),
+			rssEntry("Alien", "https://letterboxd.com/u/film/alien/"),
+		];
+
+		const done = fetchEntryTags(entries);
+		await vi.waitFor(() => expect(fetchTagsFromViewingPage).toHaveBeenCalledTimes(2));
+		pending.forEach((resolve) => resolve());
+		await done;
+
+		expect(entries.map((e) => e.tags)).toEqual([["cinema"], ["cinema"]]);
+	});
+
+	it("marks the tags of entries whose page can't be fetched as missing", async () => {
+		vi.mocked(fetchTagsFromViewingPage).mockReset().mockResolvedValue(null);
+		const entries = [rssEntry("Heat", "https://letterboxd.com/u/film/heat/")];
+
+		await fetchEntryTags(entries);
+
+		expect(entries[0].tags).toEqual([]);
+		expect(entries[0].missingFields).toEqual(["tags"]);
+	});
+
+	it("skips entries without a link", async () => {
+		vi.mocked(fetchTagsFromViewingPage).mockReset();
+		const entries = [rssEntry("Heat", "")];
+
+		await fetchEntryTags(entries);
+
+		expect(entries[0].tags).toEqual([]);
+		expect(fetchTagsFromViewingPage).not.toHaveBeenCalled();
+	});
+});
@@ -1,6 +1,9 @@
-import { requestUrl } from "obsidian";
+import { scheduledRequest } from "../utils/request-scheduler";
 import type { LetterboxdEntry } from "../types";
 import { extractViewingIdFromRssGuid, fetchTagsFromViewingPage } from "./fetcher";
+import { normalizeListUrl, parseListRssDescription } from "./lists";
+import type { LetterboxdList } from "./lists";
+import { htmlToMarkdown, htmlToText } from "../utils/html";
 
 /** Base URL for Letterboxd RSS feeds */
 const LETTERBOXD_RSS_BASE_URL = "https://letterboxd.com";
@@ -12,6 +15,37 @@ const NAMESPACES = {
 	dc: "http://purl.org/dc/elements/1.1/",
 };
 
+/**
+ * Kind of an RSS feed item, from its GUID
+ * - diary: a logged film (letterboxd-review-{id} or letterboxd-watch-{id})
+ * - list: a published list (letterboxd-list-{id})
+ * - unknown: anything else, ignored
+ */
+export type FeedItemType = "diary" | "list" | "unknown";
+
+/**
+ * Contents of a user's RSS feed
+ */
+export interface LetterboxdFeed {
+	/** Diary entries, without tags */
+	entries: LetterboxdEntry[];
+	/** Published lists; long lists only come with their first films */
+	lists: LetterboxdList[];
+}
+
+/**
+ * Classifies an RSS feed item by its GUID
+ */
+export function getFeedItemType(guid: string): FeedItemType {
+	if (extractViewingIdFromRssGuid(guid) !== null) {
+		return "diary";
+	}
+	if (/^letterboxd-list-\d+$/.test(guid)) {
+		return "list";
+	}
+	return "unknown";
+}
+
 /**
  * Converts a numeric rating (0.5-5) to a star string representation
  * @param rating - Numeric rating from 0.5 to 5 in 0.5 increments
@@ -38,38 +72,39 @@ export function extractPosterUrl(descriptionHtml: string): string {
 	return imgMatch ? imgMatch[1] : "";
 }
 
+/**
+ * Removes the parts of the description HTML that aren't the review:
+ * the poster, the spoiler warning and the "Watched on..." line
+ */
+function stripNonReviewHtml(descriptionHtml: string): string {
+	return (
+		descriptionHtml
+			// Remove the img tag first
+			.replace(/<p><img[^>]*\/><\/p>/g, "")
+			// Remove spoiler warning paragraph
+			.replace(/<p><em>This review may contain spoilers\.<\/em><\/p>/g, "")
+			// Remove "Watched on..." paragraph (for watch-only entries)
+			.replace(/<p>Watched on [^<]+<\/p>/g, "")
+	);
+}
+
 /**
  * Extracts the review text from the description HTML
  * @param descriptionHtml - HTML content from <description> CDATA
  * @returns Plain text review or empty string if no review
  */
 export function extractReviewText(descriptionHtml: string): string {
-	// Remove the img tag first
-	let html = descriptionHtml.replace(/<p><img[^>]*\/><\/p>/g, "");
-
-	// Remove spoiler warning paragraph
-	html = html.replace(/<p><em>This review may contain spoilers\.<\/em><\/p>/g, "");
-
-	// Remove "Watched on..." paragraph (for watch-only entries)
-	html = html.replace(/<p>Watched on [^<]+<\/p>/g, "");
-
-	// Convert paragraph tags to newlines and strip remaining HTML
-	html = html.replace(/<\/p>\s*<p>/g, "\n\n");
-	html = html.replace(/<\/?p>/g, "");
-	html = html.replace(/<br\s*\/?>/g, "\n");
-
-	// Convert common HTML entities
-	html = html.replace(/&amp;/g, "&");
-	html = html.replace(/&lt;/g, "<");
-	html = html.replace(/&gt;/g, ">");
-	html = html.replace(/&quot;/g, '"');
-	html = html.replace(/&#039;/g, "'");
-	html = html.replace(/&nbsp;/g, " ");
-
-	// Strip any remaining HTML tags (like <em>, <strong>, <i>, <b>)
-	html = html.replace(/<[^>]+>/g, "");
+	return htmlToText(stripNonReviewHtml(descriptionHtml)).trim();
+}
 
-	return html.trim();
+/**
+ * Extracts the review from the description HTML as Markdown
+ * Keeps emphasis, links, blockquotes, lists and line breaks.
+ * @param descriptionHtml - HTML content from <description> CDATA
+ * @returns Markdown review or empty string if no review
+ */
+export function extractReviewMarkdown(descriptionHtml: string): string {
+	return htmlToMarkdown(stripNonReviewHtml(descriptionHtml)).trim();
 }
 
 /**
@@ -143,6 +178,7 @@ function parseItem(item: Element): LetterboxdEntry {
 	const watchedDate = getNamespacedText(item, NAMESPACES.letterboxd, "watchedDate");
 	const rewatchStr = getNamespacedText(item, NAMESPACES.letterboxd, "rewatch");
 	const memberRatingStr = getNamespacedText(item, NAMESPACES.letterboxd, "memberRating");
+	const memberLikeStr = getNamespacedText(item, NAMESPACES.letterboxd, "memberLike");
 
 	// TMDB ID
 	const tmdbId = getNamespacedText(item, NAMESPACES.tmdb, "movieId");
@@ -165,15 +201,32 @@ function parseItem(item: Element): LetterboxdEntry {
 		tmdbId,
 		posterUrl: extractPosterUrl(description),
 		guid: extractViewingIdFromRssGuid(guid) ?? guid,
-		review: extractReviewText(description),
+		review: extractReviewMarkdown(description),
+		reviewText: extractReviewText(description),
 		pubDate: parseDate(pubDateRaw),
 		containsSpoilers,
+		liked: memberLikeStr.toLowerCase() === "yes",
 		tags: [], // Tags are fetched separately from viewing pages
 	};
 }
 
 /**
- * Progress callback for RSS fetch operations
+ * Parses a list item of the RSS feed into a LetterboxdList
+ * List tags are not part of the feed.
+ */
+function parseListItem(item: Element): LetterboxdList {
+	const link = getElementText(item, "link");
+
+	return {
+		name: getElementText(item, "title"),
+		url: normalizeListUrl(link) ?? link,
+		tags: [],
+		...parseListRssDescription(getElementText(item, "description")),
+	};
+}
+
+/**
+ * Progress callback for RSS tag enrichment
  * @param current - Current entry being processed (1-indexed)
  * @param total - Total number of entries
  * @param filmTitle - Title of current film being processed
@@ -182,24 +235,22 @@ export type RSSProgressCallback = (current: number, total: number, filmTitle: st
 
 /**
  * Fetches and parses the RSS feed for a Letterboxd user
- * Also fetches tags from each viewing page (requires additional HTTP requests)
+ * Items are classified by GUID (see getFeedItemType), so lists are not
+ * mistaken for diary entries; items of unknown types are skipped.
+ * Tags are not part of the feed: entries are returned with empty tags, see fetchEntryTags.
  *
  * @param username - Letterboxd username
- * @param onProgress - Optional callback for progress updates
- * @returns Array of diary entries with tags populated
+ * @returns Diary entries without tags, and lists
  * @throws Error if fetch fails or XML is invalid
  */
-export async function fetchLetterboxdRSS(
-	username: string,
-	onProgress?: RSSProgressCallback
-): Promise<LetterboxdEntry[]> {
+export async function fetchLetterboxdRSS(username: string): Promise<LetterboxdFeed> {
 	if (!username) {
 		throw new Error("Letterboxd username is required");
 	}
 
 	const rssUrl = `${LETTERBOXD_RSS_BASE_URL}/${username}/rss/`;
 
-	const response = await requestUrl({
+	const response = await scheduledRequest({
 		url: rssUrl,
 		method: "GET",
 	});
@@ -219,25 +270,54 @@ export async function fetchLetterboxdRSS(
 	}
 
 	const items = doc.querySelectorAll("item");
-	const entries: LetterboxdEntry[] = [];
+	const feed: LetterboxdFeed = { entries: [], lists: [] };
 
 	items.forEach((item) => {
-		entries.push(parseItem(item));
-	});
-
-	// Fetch tags from each viewing page
-	const totalEntries = entries.length;
-	for (let i = 0; i < totalEntries; i++) {
-		const entry = entries[i];
-
-		if (onProgress) {
-			onProgress(i + 1, totalEntries, entry.filmTitle);
+		switch (getFeedItemType(getElementText(item, "guid").trim())) {
+			case "diary":
+				feed.entries.push(parseItem(item));
+				break;
+			case "list":
+				feed.lists.push(parseListItem(item));
+				break;
 		}
+	});
 
-		if (entry.link) {
-			entry.tags = await fetchTagsFromViewingPage(entry.link);
-		}
-	}
+	return feed;
+}
 
-	return entries;
+/**
+ * Fetches tags from the viewing page of each entry (one HTTP request per entry)
+ * Only pass the entries that are about to be written, the RSS feed can hold many
+ * entries that already exist in the vault. All pages are queued at once, the
+ * request scheduler limits how many requests actually run in parallel.
+ *
+ * @param entries - Entries to enrich, their tags are replaced in place (entries
+ *   whose page can't be fetched get "tags" in their missing fields)
+ * @param onProgress - Optional callback for progress updates, as entries complete
+ */
+export async function fetchEntryTags(
+	entries: LetterboxdEntry[],
+	onProgress?: RSSProgressCallback
+): Promise<void> {
+	const totalEntries = entries.length;
+	let completed = 0;
+
+	await Promise.all(
+		entries.map(async (entry) => {
+			if (entry.link) {
+				const tags = await fetchTagsFromViewingPage(entry.link);
+				if (tags) {
+					entry.tags = tags;
+				} else {
+					entry.missingFields = [...(entry.missingFields ?? []), "tags"];
+				}
+			}
+
+			completed++;
+			if (onProgress) {
+				onProgress(completed, totalEntries, entry.filmTitle);
+			}
+		})
+	);
 }
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import { parseProfilePage, buildProfileUrl } from "./profile";
+
+/** Favourites section with a poster in each layout */
+const FAVOURITES = `
+<section id="favourites" class="section">
+	<h2 class="section-heading">Favorite films</h2>
+	<ul class="poster-list -p150 -horizontal">
+		<li class="poster-container favourite-film-poster-container">
+			<div class="react-component" data-component-class="LazyPoster" data-item-name="Am&eacute;lie (2001)" data-item-slug="amelie" data-item-link="/film/amelie/" data-film-id="1023"></div>
+		</li>
+		<li class="poster-container favourite-film-poster-container">
+			<div class="really-lazy-load poster film-poster linked-film-poster" data-film-slug="heat-1995" data-target-link="/film/heat-1995/">
+				<img src="https://s.ltrbxd.com/static/img/empty-poster-150.png" class="image" alt="Heat" />
+			</div>
+		</li>
+	</ul>
+</section>`;
+
+const STATS = `
+<div class="profile-stats js-profile-stats">
+	<h4 class="profile-statistic statistic"><a href="/user/films/"><span class="value">1,234</span><span class="definition">Films</span></a></h4>
+	<h4 class="profile-statistic statistic"><a href="/user/films/diary/for/2026/"><span class="value">56</span><span class="definition">This year</span></a></h4>
+	<h4 class="profile-statistic statistic"><a href="/user/lists/"><span class="value">1</span><span class="definition">List</span></a></h4>
+	<h4 class="profile-statistic statistic"><a href="/user/following/"><span class="value">80</span><span class="definition">Following</span></a></h4>
+	<h4 class="profile-statistic statistic"><a href="/user/followers/"><span class="value">2,048</span><span class="definition">Followers</span></a></h4>
+</div>`;
+
+// ============================================================================
+// parseProfilePage
+// ============================================================================
+
+describe("parseProfilePage", () => {
+	it("parses the favourite films in profile order", () => {
+		const { favorites } = parseProfilePage(FAVOURITES, "user");
+
+		expect(favorites).toEqual([
+			{
+				filmSlug: "amelie",
+				filmTitle: "Amélie",
+				filmYear: 2001,
+				uri: "https://letterboxd.com/film/amelie/",
+			},
+			{
+				filmSlug: "heat-1995",
+				filmTitle: "Heat",
+				filmYear: 0,
+				uri: "https://letterboxd.com/film/heat-1995/",
+			},
+		]);
+	});
+
+	it("ignores posters outside the favourites section", () => {
+		const recent = `<section id="recent-activity"><ul><li><div data-item-name="Heat (1995)" data-item-slug="heat" data-item-link="/film/heat/"></div></li></ul></section>`;
+
+		expect(parseProfilePage(recent, "user").favorites).toEqual([]);
+	});
+
+	it("parses the statistics", () => {
+		const profile = parseProfilePage(STATS, "user");
+
+		expect(profile).toMatchObject({
+			filmsWatched: 1234,
+			filmsThisYear: 56,
+			listsCount: 1,
+			followers: 2048,
+		});
+	});
+
+	it("reads missing statistics as zero", () => {
+		expect(parseProfilePage("<p>Private profile</p>", "user")).toEqual({
+			username: "user",
+			url: "https://letterboxd.com/user/",
+			favorites: [],
+			filmsWatched: 0,
+			filmsThisYear: 0,
+			listsCount: 0,
+			followers: 0,
+		});
+	});
+});
+
+// ============================================================================
+// buildProfileUrl
+// ============================================================================
+
+describe("buildProfileUrl", () => {
+	it("builds the URL of a profile", () => {
+		expect(buildProfileUrl("e2e_test_acc")).toBe("https://letterboxd.com/e2e_test_acc/");
+	});
+});
@@ -0,0 +1,97 @@
+/**
+ * Letterboxd Profile Page
+ *
+ * The profile at letterboxd.com/<username>/ shows the four favourite films
+ * (a poster grid like the watchlist) and the account statistics: films
+ * watched, films this year, lists, following and followers.
+ */
+
+import { fetchPage } from "./fetcher";
+import { parseWatchlistPage } from "./watchlist";
+import type { WatchlistFilm } from "./watchlist";
+import { decodeHtmlEntities } from "../utils/html";
+
+/** Base URL for Letterboxd */
+const LETTERBOXD_BASE_URL = "https://letterboxd.com";
+
+/**
+ * A Letterboxd profile
+ */
+export interface LetterboxdProfile {
+	username: string;
+	/** URL of the profile on Letterboxd */
+	url: string;
+	/** Favourite films in profile order (up to four) */
+	favorites: WatchlistFilm[];
+	/** Films watched in total */
+	filmsWatched: number;
+	/** Films watched this year */
+	filmsThisYear: number;
+	/** Lists published */
+	listsCount: number;
+	followers: number;
+}
+
+/** Profile statistics, by their label on the profile page (singular, lowercase) */
+const STATISTIC_KEYS: Record<
+	string,
+	keyof Pick<LetterboxdProfile, "filmsWatched" | "filmsThisYear" | "listsCount" | "followers">
+> = {
+	film: "filmsWatched",
+	"this year": "filmsThisYear",
+	list: "listsCount",
+	follower: "followers",
+};
+
+/**
+ * Builds the URL of a profile page
+ */
+export function buildProfileUrl(username: string): string {
+	return `${LETTERBOXD_BASE_URL}/${username}/`;
+}
+
+/**
+ * Parses a Letterboxd profile page HTML
+ * Statistics missing from the page (Letterboxd hides some at zero) are 0.
+ * @param html - Profile page HTML
+ * @param username - Letterboxd username of the profile
+ */
+export function parseProfilePage(html: string, username: string): LetterboxdProfile {
+	const favoritesSection = html.match(
+		/<section\b[^>]*\bid="favourites"[^>]*>([\s\S]*?)<\/section>/
+	);
+	const favorites = favoritesSection ? parseWatchlistPage(favoritesSection[1]).films : [];
+
+	const profile: LetterboxdProfile = {
+		username,
+		url: buildProfileUrl(username),
+		favorites: favorites.slice(0, 4),
+		filmsWatched: 0,
+		filmsThisYear: 0,
+		listsCount: 0,
+		followers: 0,
+	};
+
+	// Each statistic is a value and its label: <span class="value">1,234</span><span class="definition">Films</span>
+	const statisticRegex =
+		/<span\b[^>]*\bclass="[^"]*\bvalue\b[^"]*"[^>]*>([^<]*)<\/span>\s*<span\b[^>]*\bclass="[^"]*\bdefinition\b[^"]*"[^>]*>([^<]*)<\/span>/g;
+	for (const statistic of html.matchAll(statisticRegex)) {
+		const label = decodeHtmlEntities(statistic[2]).trim().toLowerCase().replace(/s$/, "");
+		const key = STATISTIC_KEYS[label];
+		const value = parseInt(statistic[1].replace(/[^\d]/g, ""), 10);
+		if (key && !isNaN(value)) {
+			profile[key] = value;
+		}
+	}
+
+	return profile;
+}
+
+/**
+ * Fetches the profile of a Letterboxd account
+ * @param username - Letterboxd username
+ * @throws Error if the profile page cannot be fetched
+ */
+export async function fetchProfile(username: string): Promise<LetterboxdProfile> {
+	return parseProfilePage(await fetchPage(buildProfileUrl(username)), username);
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { parseWatchlistPage, buildWatchlistPageUrl } from "./watchlist";
+
+/** Poster in the legacy layout: title only in the image alt text */
+const LEGACY_POSTER = `
+<li class="poster-container">
+	<div class="really-lazy-load poster film-poster film-poster-51568 linked-film-poster" data-film-id="51568" data-film-slug="the-revenant-2015" data-poster-url="/film/the-revenant-2015/image-150/" data-target-link="/film/the-revenant-2015/">
+		<img src="https://s.ltrbxd.com/static/img/empty-poster-125.png" class="image" width="125" height="187" alt="The Revenant" />
+		<span class="frame"><span class="frame-title"></span></span>
+	</div>
+</li>`;
+
+/** Poster in the current layout */
+const CURRENT_POSTER = `
+<li class="griditem">
+	<div class="react-component" data-component-class="LazyPoster" data-item-name="Am&eacute;lie (2001)" data-item-slug="amelie" data-item-link="/film/amelie/" data-film-id="1023"></div>
+</li>`;
+
+// ============================================================================
+// parseWatchlistPage
+// ============================================================================
+
+describe("parseWatchlistPage", () => {
+	it("parses a poster in the legacy layout", () => {
+		const { films } = parseWatchlistPage(`<ul class="poster-list">${LEGACY_POSTER}</ul>`);
+
+		expect(films).toEqual([
+			{
+				filmSlug: "the-revenant-2015",
+				filmTitle: "The Revenant",
+				filmYear: 0,
+				uri: "https://letterboxd.com/film/the-revenant-2015/",
+			},
+		]);
+	});
+
+	it("parses a poster in the current layout", () => {
+		const { films } = parseWatchlistPage(`<ul class="grid">${CURRENT_POSTER}</ul>`);
+
+		expect(films).toEqual([
+			{
+				filmSlug: "amelie",
+				filmTitle: "Amélie",
+				filmYear: 2001,
+				uri: "https://letterboxd.com/film/amelie/",
+			},
+		]);
+	});
+
+	it("keeps the page order", () => {
+		const { films } = parseWatchlistPage(`<ul>${CURRENT_POSTER}${LEGACY_POSTER}</ul>`);
+
+		expect(films.map((film) => film.filmSlug)).toEqual(["amelie", "the-revenant-2015"]);
+	});
+
+	it("detects the next page link", () => {
+		const page = `<ul>${CURRENT_POSTER}</ul><div class="paginate-nextprev"><a class="next" href="/user/watchlist/page/2/">Older</a></div>`;
+
+		expect(parseWatchlistPage(page).hasNextPage).toBe(true);
+		expect(parseWatchlistPage(`<ul>${CURRENT_POSTER}</ul>`).hasNextPage).toBe(false);
+	});
+
+	it("returns no films for an empty watchlist", () => {
+		expect(parseWatchlistPage("<p>No films yet</p>")).toEqual({
+			films: [],
+			hasNextPage: false,
+		});
+	});
+});
+
+// ============================================================================
+// buildWatchlistPageUrl
+// ============================================================================
+
+describe("buildWatchlistPageUrl", () => {
+	it("builds the URL of a watchlist page", () => {
+		expect(buildWatchlistPageUrl("e2e_test_acc", 2)).toBe(
+			"https://letterboxd.com/e2e_test_acc/watchlist/page/2/"
+		);
+	});
+});
@@ -0,0 +1,139 @@
+/**
+ * Letterboxd Watchlist Pages
+ *
+ * The watchlist has no RSS feed, so it is read from the paginated poster grid
+ * at letterboxd.com/<username>/watchlist/page/N/. Each poster gives the film
+ * slug and title; the TMDB ID is read from the film page when needed.
+ */
+
+import { fetchPage } from "./fetcher";
+import { decodeHtmlEntities } from "../utils/html";
+
+/** Base URL for Letterboxd */
+const LETTERBOXD_BASE_URL = "https://letterboxd.com";
+
+/**
+ * A film on the watchlist
+ */
+export interface WatchlistFilm {
+	/** Film slug (e.g., "the-revenant-2015") */
+	filmSlug: string;
+	/** Film title without year */
+	filmTitle: string;
+	/** Film release year, 0 if not shown */
+	filmYear: number;
+	/** Absolute URL of the film page */
+	uri: string;
+}
+
+/**
+ * Parsed content of a single watchlist page
+ */
+export interface WatchlistPage {
+	films: WatchlistFilm[];
+	/** Whether the pagination links to a following page */
+	hasNextPage: boolean;
+}
+
+/**
+ * Reads an attribute from a tag's attribute string
+ */
+function getAttribute(tag: string, name: string): string | null {
+	const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+	return match ? decodeHtmlEntities(match[1]) : null;
+}
+
+/**
+ * Parses a Letterboxd watchlist page HTML
+ * Looks for poster elements with a film slug, in both the legacy
+ * (data-film-slug, title in the image alt) and current (data-item-slug,
+ * data-item-name "Title (Year)") layouts.
+ *
+ * @returns Parsed films (in page order) and whether a next page exists
+ */
+export function parseWatchlistPage(html: string): WatchlistPage {
+	const films: WatchlistFilm[] = [];
+	const seen = new Set<string>();
+	const posterRegex = /<div\b[^>]*\bdata-(?:film|item)-slug="[^"]+"[^>]*>/g;
+
+	let match;
+	while ((match = posterRegex.exec(html)) !== null) {
+		const tag = match[0];
+		const filmSlug = getAttribute(tag, "data-film-slug") ?? getAttribute(tag, "data-item-slug");
+		if (!filmSlug || seen.has(filmSlug)) continue;
+
+		// Legacy posters only name the film in the alt text of their image
+		const itemName = getAttribute(tag, "data-item-name") ?? getAttribute(tag, "data-film-name");
+		const following = html.slice(posterRegex.lastIndex, posterRegex.lastIndex + 1000);
+		const alt = following.match(/^[\s\S]*?<img\b[^>]*\balt="([^"]*)"/);
+		const name = itemName ?? (alt ? decodeHtmlEntities(alt[1]) : "");
+		const yearMatch = name.match(/\s*\((\d{4})\)$/);
+		const yearAttribute = getAttribute(tag, "data-film-release-year");
+
+		const filmTitle = name.replace(/\s*\(\d{4}\)$/, "").trim();
+		if (!filmTitle) continue;
+
+		seen.add(filmSlug);
+		films.push({
+			filmSlug,
+			filmTitle,
+			filmYear: parseInt(yearMatch?.[1] ?? yearAttribute ?? "", 10) || 0,
+			uri: `${LETTERBOXD_BASE_URL}/film/${filmSlug}/`,
+		});
+	}
+
+	// Pagination renders an <a class="next"> link only when another page exists
+	const hasNextPage = /<a\b[^>]*\bclass="[^"]*\bnext\b[^"]*"/.test(html);
+
+	return { films, hasNextPage };
+}
+
+/**
+ * Builds the URL of a watchlist page
+ * @param username - Letterboxd username
+ * @param page - 1-indexed page number
+ */
+export function buildWatchlistPageUrl(username: string, page: number): string {
+	return `${LETTERBOXD_BASE_URL}/${username}/watchlist/page/${page}/`;
+}
+
+/**
+ * Progress callback for watchlist fetches
+ * @param page - Watchlist page currently being fetched (1-indexed)
+ * @param found - Number of films found so far
+ */
+export type WatchlistProgressCallback = (page: number, found: number) => void;
+
+/**
+ * Fetches the whole watchlist of a Letterboxd user
+ * @param username - Letterboxd username
+ * @param onProgress - Optional callback for progress updates
+ * @returns Films on the watchlist, in watchlist order
+ * @throws Error if a watchlist page cannot be fetched
+ */
+export async function fetchWatchlist(
+	username: string,
+	onProgress?: WatchlistProgressCallback
+): Promise<WatchlistFilm[]> {
+	if (!username) {
+		throw new Error("Letterboxd username is required");
+	}
+
+	const films: WatchlistFilm[] = [];
+
+	for (let page = 1; ; page++) {
+		if (onProgress) {
+			onProgress(page, films.length);
+		}
+
+		const html = await fetchPage(buildWatchlistPageUrl(username, page));
+		const { films: pageFilms, hasNextPage } = parseWatchlistPage(html);
+		films.push(...pageFilms);
+
+		if (pageFilms.length === 0 || !hasNextPage) {
+			break;
+		}
+	}
+
+	return films;
+}
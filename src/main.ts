@@ -1,22 +1,88 @@
-import { Plugin, Notice } from "obsidian";
-import type { LetterboxdSettings } from "./types";
-import { DEFAULT_SETTINGS, LetterboxdSettingTab } from "./settings";
-import { syncDiary, importFromCSV } from "./notes/sync";
+import { Plugin, Notice, normalizePath, debounce } from "obsidian";
+import type {
+	LetterboxdSettings,
+	LetterboxdAccount,
+	PluginState,
+	PlannedAction,
+	JournalFile,
+	SyncJournalRecord,
+} from "./types";
+import { DEFAULT_SETTINGS, LetterboxdSettingTab, migrateAccountSettings } from "./settings";
+import {
+	syncDiary,
+	importFromCSV,
+	backfillDiary,
+	resumeCSVImport,
+	clearCSVImportCheckpoint,
+	retryFailedEnrichments,
+	enrichPendingNotes,
+	findAccount,
+} from "./notes/sync";
+import type { SyncResult } from "./notes/sync";
 import { syncFilmsFromTMDB, syncAllFilmsFromDiary } from "./tmdb/sync";
+import { SourceCache, SOURCE_CACHE_FILENAME } from "./notes/source-cache";
+import { planRegeneration, applyRegeneration } from "./notes/regenerate";
+import type { RegenerationTarget } from "./notes/regenerate";
+import { RegenerateNotesModal } from "./ui/regenerate-modal";
+import { DryRunReportModal } from "./ui/dry-run-modal";
+import { recordSyncRun, getLastSyncRun, undoSyncRun, mergeJournalFiles } from "./notes/journal";
+import { ConfirmModal } from "./ui/confirm-modal";
+import { httpCache, HTTP_CACHE_FILENAME } from "./utils/http-cache";
+import type { HttpCacheTtls } from "./utils/http-cache";
+import { unzip } from "./utils/zip";
+import {
+	readLetterboxdExport,
+	countExportDatasets,
+	collectFilmStatuses,
+	EXPORT_DATASETS,
+} from "./letterboxd/export";
+import type { LetterboxdExport, ExportDataset } from "./letterboxd/export";
+import {
+	importFilmStatuses,
+	syncWatchlist,
+	syncWatchlistFromLetterboxd,
+	markFilmsWatched,
+	markFilmsLiked,
+} from "./notes/film-status";
+import { ImportExportModal } from "./ui/import-export-modal";
+import { findVaultExports, readVaultExport } from "./notes/vault-export";
+import type { VaultExport } from "./notes/vault-export";
+import { ExportSourceModal } from "./ui/export-source-modal";
+import { importLists, importListFromUrl } from "./notes/lists";
+import { listFromExport } from "./letterboxd/lists";
+import { ListUrlModal } from "./ui/list-url-modal";
+import { syncProfile } from "./notes/profile";
+import { AccountSuggestModal } from "./ui/account-suggest-modal";
 
 /** Delay before auto-sync on startup (ms) - allows vault to fully load */
 const STARTUP_SYNC_DELAY_MS = 3000;
 
-/** Expected CSV filenames in Letterboxd export */
-const DIARY_CSV_FILENAME = "diary.csv";
-const REVIEWS_CSV_FILENAME = "reviews.csv";
+/** Quiet period after a file is added to the export watch folder before importing (ms) */
+const WATCH_FOLDER_IMPORT_DELAY_MS = 5000;
+
+/** Name of the exports Letterboxd generates, capturing the username */
+const EXPORT_NAME_PATTERN = /^letterboxd-(.+)-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-utc\b/i;
 
 export default class LetterboxdPlugin extends Plugin {
 	settings: LetterboxdSettings;
+	state: PluginState;
+	sourceCache: SourceCache;
+	/** Whether the export watch folder is being imported */
+	private watchFolderImportRunning = false;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
+		this.sourceCache = new SourceCache(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/${SOURCE_CACHE_FILENAME}`)
+		);
+		httpCache.open(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/${HTTP_CACHE_FILENAME}`),
+			this.getHttpCacheTtls()
+		);
+
 		// Register settings tab
 		this.addSettingTab(new LetterboxdSettingTab(this.app, this));
 
@@ -24,7 +90,24 @@ export default class LetterboxdPlugin extends Plugin {
 		this.addCommand({
 			id: "sync-diary",
 			name: "Sync Letterboxd diary",
-			callback: () => this.syncDiary(),
+			callback: () => this.syncAllAccounts(),
+		});
+
+		this.addCommand({
+			id: "sync-diary-account",
+			name: "Sync Letterboxd diary of one account",
+			checkCallback: (checking) => {
+				if (this.getSyncAccounts().length < 2) return false;
+				if (!checking) this.chooseAccount((account) => void this.syncDiary(account));
+				return true;
+			},
+		});
+
+		// Register diary backfill command
+		this.addCommand({
+			id: "backfill-diary",
+			name: "Backfill full Letterboxd diary",
+			callback: () => this.chooseAccount((account) => void this.backfillDiary(account)),
 		});
 
 		// Register CSV import command
@@ -34,6 +117,68 @@ export default class LetterboxdPlugin extends Plugin {
 			callback: () => this.importCSVFolder(),
 		});
 
+		this.addCommand({
+			id: "import-export-zip",
+			name: "Import Letterboxd export (.zip)",
+			callback: () => this.importExportZip(),
+		});
+
+		this.addCommand({
+			id: "import-vault-export",
+			name: "Import Letterboxd export from vault",
+			callback: () => this.importVaultExport(),
+		});
+
+		this.addCommand({
+			id: "resume-csv-import",
+			name: "Resume interrupted import",
+			checkCallback: (checking) => {
+				if (!this.state.csvImportCheckpoint) return false;
+				if (!checking) void this.resumeCSVImport();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "import-csv-offline",
+			name: "Import from Letterboxd CSV export (offline)",
+			callback: () => this.importCSVFolder(false, true),
+		});
+
+		this.addCommand({
+			id: "enrich-pending-notes",
+			name: "Enrich pending notes",
+			callback: () => this.enrichPendingNotes(),
+		});
+
+		this.addCommand({
+			id: "retry-failed-enrichments",
+			name: "Retry failed enrichments",
+			checkCallback: (checking) => {
+				if (this.state.failedEnrichments.length === 0) return false;
+				if (!checking) void this.retryFailedEnrichments();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "sync-watchlist",
+			name: "Sync Letterboxd watchlist",
+			callback: () => this.chooseAccount((account) => void this.syncWatchlist(account)),
+		});
+
+		this.addCommand({
+			id: "import-list",
+			name: "Import Letterboxd list from URL",
+			callback: () => this.importList(),
+		});
+
+		this.addCommand({
+			id: "sync-profile",
+			name: "Sync Letterboxd profile",
+			callback: () => this.chooseAccount((account) => void this.syncProfile(account)),
+		});
+
 		// Register TMDB sync command
 		this.addCommand({
 			id: "sync-films",
@@ -41,69 +186,326 @@ export default class LetterboxdPlugin extends Plugin {
 			callback: () => this.syncTMDBFilms(),
 		});
 
+		// Register dry-run commands (report planned changes without writing)
+		this.addCommand({
+			id: "preview-sync-diary",
+			name: "Preview Letterboxd diary sync (dry run)",
+			callback: () => this.chooseAccount((account) => void this.syncDiary(account, true)),
+		});
+
+		this.addCommand({
+			id: "preview-import-csv",
+			name: "Preview import from Letterboxd CSV export (dry run)",
+			callback: () => this.importCSVFolder(true),
+		});
+
+		this.addCommand({
+			id: "preview-sync-films",
+			name: "Preview TMDB film data sync (dry run)",
+			callback: () => this.syncTMDBFilms(true),
+		});
+
+		// Register undo command
+		this.addCommand({
+			id: "undo-last-sync",
+			name: "Undo last sync",
+			callback: () => this.undoLastSync(),
+		});
+
+		// Register template regeneration commands
+		this.addCommand({
+			id: "regenerate-diary-notes",
+			name: "Regenerate diary notes from template",
+			callback: () => this.regenerateNotes("diary"),
+		});
+
+		this.addCommand({
+			id: "regenerate-film-notes",
+			name: "Regenerate film notes from template",
+			callback: () => this.regenerateNotes("film"),
+		});
+
 		// Add ribbon icon
 		this.addRibbonIcon("clapperboard", "Sync Letterboxd diary", () => {
-			void this.syncDiary();
+			void this.syncAllAccounts();
 		});
 
-		// Auto-sync on startup if enabled
-		if (this.settings.syncOnStartup && this.settings.username) {
+		// Auto-sync on startup the accounts that have it enabled
+		const startupAccounts = this.settings.accounts.filter(
+			(account) => account.syncOnStartup && account.username
+		);
+		if (startupAccounts.length > 0) {
 			this.registerInterval(
 				window.setTimeout(() => {
-					void this.syncDiary();
+					void this.syncAllAccounts(startupAccounts);
 				}, STARTUP_SYNC_DELAY_MS)
 			);
 		}
+
+		// Import exports added to the watch folder (registered once the vault
+		// is loaded, so existing files don't fire create events)
+		this.app.workspace.onLayoutReady(() => {
+			const importWatchFolder = debounce(
+				() => void this.importWatchFolder(),
+				WATCH_FOLDER_IMPORT_DELAY_MS,
+				true
+			);
+			this.registerEvent(
+				this.app.vault.on("create", (file) => {
+					const { exportWatchFolder } = this.settings;
+					if (exportWatchFolder && file.path.startsWith(`${exportWatchFolder}/`)) {
+						importWatchFolder();
+					}
+				})
+			);
+			void this.importWatchFolder();
+		});
 	}
 
 	onunload(): void {
 		// Cleanup is handled automatically by register* methods
+		// Pending HTTP cache writes still need to be flushed
+		void httpCache.save();
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// data.json holds the settings with the plugin state alongside
+		const {
+			syncJournal,
+			csvImportCheckpoint,
+			failedEnrichments,
+			importedExports,
+			...settings
+		} = ((await this.loadData()) ?? {}) as Partial<LetterboxdSettings & PluginState>;
+		migrateAccountSettings(settings);
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+		this.state = {
+			syncJournal: syncJournal ?? [],
+			// Checkpoints that kept the CSV files in data.json can't be resumed
+			csvImportCheckpoint: csvImportCheckpoint?.processed ? csvImportCheckpoint : null,
+			failedEnrichments: failedEnrichments ?? [],
+			importedExports: importedExports ?? [],
+		};
 	}
 
+	/**
+	 * Saves the settings and the plugin state to data.json
+	 */
 	async saveSettings(): Promise<void> {
-		await this.saveData(this.settings);
+		await this.saveData({ ...this.settings, ...this.state });
+		httpCache.setTtls(this.getHttpCacheTtls());
+	}
+
+	/**
+	 * Returns the HTTP cache time to live of each resource type from the settings
+	 */
+	private getHttpCacheTtls(): HttpCacheTtls {
+		return {
+			filmPage: this.settings.cacheTtlFilmPageDays,
+			viewingPage: this.settings.cacheTtlViewingPageDays,
+			tmdbMovie: this.settings.cacheTtlTmdbMovieDays,
+		};
+	}
+
+	/**
+	 * Returns the accounts that commands act on: those with a username, or the
+	 * first account if none has one (its sync then asks for a username)
+	 */
+	private getSyncAccounts(): LetterboxdAccount[] {
+		const accounts = this.settings.accounts.filter((account) => account.username);
+		return accounts.length > 0 ? accounts : this.settings.accounts.slice(0, 1);
+	}
+
+	/**
+	 * Runs a command for the account the user chooses
+	 * The choice is skipped when there is only one account.
+	 */
+	private chooseAccount(onChoose: (account: LetterboxdAccount) => void): void {
+		const accounts = this.getSyncAccounts();
+		if (accounts.length === 1) {
+			onChoose(accounts[0]);
+			return;
+		}
+		new AccountSuggestModal(this.app, accounts, onChoose).open();
+	}
+
+	/**
+	 * Syncs the diary of each account in turn
+	 * @param accounts - Accounts to sync, all accounts with a username by default
+	 */
+	async syncAllAccounts(accounts = this.getSyncAccounts()): Promise<void> {
+		for (const account of accounts) {
+			await this.syncDiary(account);
+		}
 	}
 
 	/**
 	 * Triggers a diary sync via RSS
 	 * If TMDB API key is configured, also syncs Film notes for new entries
+	 * @param account - Account whose diary is synced
+	 * @param dryRun - Show the planned changes instead of writing them
 	 */
-	async syncDiary(): Promise<void> {
-		const result = await syncDiary(this);
+	async syncDiary(account: LetterboxdAccount, dryRun = false): Promise<void> {
+		const result = await syncDiary(this, account, dryRun);
+
+		if (dryRun) {
+			await this.showDryRunReport(
+				"Diary sync preview",
+				result.planned,
+				result.createdTmdbIds
+			);
+			return;
+		}
 
 		// If TMDB is enabled and we created new diary entries, sync Film notes
-		if (this.settings.tmdbApiKey && result.createdTmdbIds.length > 0) {
-			const tmdbResult = await syncFilmsFromTMDB(this, result.createdTmdbIds);
-			if (tmdbResult.created > 0 || tmdbResult.errors > 0) {
-				const parts: string[] = [];
-				if (tmdbResult.created > 0) parts.push(`${tmdbResult.created} films created`);
-				if (tmdbResult.skipped > 0) parts.push(`${tmdbResult.skipped} skipped`);
-				if (tmdbResult.errors > 0) parts.push(`${tmdbResult.errors} errors`);
-				new Notice(`TMDB: ${parts.join(", ")}`);
-			}
+		await this.completeDiaryRun("RSS", account, result);
+	}
+
+	/**
+	 * Backfills diary entries older than the RSS window from the diary pages
+	 * If TMDB API key is configured, also syncs Film notes for new entries
+	 */
+	async backfillDiary(account: LetterboxdAccount): Promise<void> {
+		const result = await backfillDiary(this, account);
+		await this.completeDiaryRun("Backfill", account, result);
+	}
+
+	/**
+	 * Creates Film notes for newly created diary entries when TMDB is enabled
+	 * @returns Files written, for the sync journal
+	 */
+	private async syncFilmNotes(tmdbIds: string[]): Promise<JournalFile[]> {
+		if (!this.settings.tmdbApiKey || tmdbIds.length === 0) {
+			return [];
+		}
+
+		const tmdbResult = await syncFilmsFromTMDB(this, tmdbIds);
+		if (tmdbResult.created > 0 || tmdbResult.errors > 0) {
+			const parts: string[] = [];
+			if (tmdbResult.created > 0) parts.push(`${tmdbResult.created} films created`);
+			if (tmdbResult.skipped > 0) parts.push(`${tmdbResult.skipped} skipped`);
+			if (tmdbResult.errors > 0) parts.push(`${tmdbResult.errors} errors`);
+			new Notice(`TMDB: ${parts.join(", ")}`);
 		}
+		return tmdbResult.written;
+	}
+
+	/**
+	 * Opens the dry run report, including the Film notes the new entries would get
+	 * @param planned - Diary changes planned by the dry run
+	 * @param tmdbIds - TMDB IDs of the entries that would be created
+	 */
+	private async showDryRunReport(
+		title: string,
+		planned: PlannedAction[],
+		tmdbIds: string[] = []
+	): Promise<void> {
+		const filmPlanned =
+			this.settings.tmdbApiKey && tmdbIds.length > 0
+				? (await syncFilmsFromTMDB(this, tmdbIds, true)).planned
+				: [];
+		new DryRunReportModal(this.app, title, [...planned, ...filmPlanned]).open();
+	}
+
+	/**
+	 * Syncs the Letterboxd watchlist into Film notes
+	 * Films on the watchlist get "status: watchlist"; Film notes of films that
+	 * left it without being watched are flagged "status: removed".
+	 */
+	async syncWatchlist(account: LetterboxdAccount): Promise<void> {
+		const result = await syncWatchlistFromLetterboxd(this, account);
+		await recordSyncRun(this, "Watchlist", result.written);
+	}
+
+	/**
+	 * Writes the profile note from the Letterboxd profile page
+	 * Film notes of the favourite films are created first when TMDB is enabled.
+	 */
+	async syncProfile(account: LetterboxdAccount): Promise<void> {
+		await recordSyncRun(this, "Profile", await syncProfile(this, account));
+	}
+
+	/**
+	 * Asks for the URL of a Letterboxd list and writes its list note
+	 */
+	importList(): void {
+		new ListUrlModal(this.app, (url) => {
+			void importListFromUrl(this, url).then((result) =>
+				recordSyncRun(this, "Lists", result.written)
+			);
+		}).open();
 	}
 
 	/**
 	 * Syncs all TMDB Film notes from existing diary entries
+	 * @param dryRun - Show the planned changes instead of writing them
 	 */
-	async syncTMDBFilms(): Promise<void> {
+	async syncTMDBFilms(dryRun = false): Promise<void> {
 		if (!this.settings.tmdbApiKey) {
 			new Notice("TMDB: please set your API key in settings.");
 			return;
 		}
-		await syncAllFilmsFromDiary(this);
+		const result = await syncAllFilmsFromDiary(this, dryRun);
+		if (dryRun) {
+			await this.showDryRunReport("TMDB film sync preview", result.planned);
+			return;
+		}
+		await recordSyncRun(this, "TMDB", result.written);
+	}
+
+	/**
+	 * Trashes the notes created by the last sync, after confirmation
+	 * Notes edited since the sync are kept.
+	 */
+	undoLastSync(): void {
+		const record = getLastSyncRun(this);
+		if (!record) {
+			new Notice("Letterboxd: no sync to undo.");
+			return;
+		}
+
+		const created = record.files.filter((f) => f.change === "created").length;
+		const date = new Date(record.date).toLocaleString();
+		new ConfirmModal(this.app, {
+			title: "Undo last sync",
+			message: `The ${record.source} sync of ${date} created ${created} notes. Notes you haven't edited since will be moved to the trash.`,
+			confirmText: "Undo sync",
+			onConfirm: async () => {
+				const result = await undoSyncRun(this, record);
+				const parts = [`${result.trashed} notes trashed`];
+				if (result.kept > 0) parts.push(`${result.kept} kept because edited`);
+				if (result.missing > 0) parts.push(`${result.missing} already gone`);
+				if (result.modified > 0) parts.push(`${result.modified} updated notes left as is`);
+				new Notice(`Letterboxd: ${parts.join(", ")}`);
+			},
+		}).open();
+	}
+
+	/**
+	 * Re-renders existing notes from the current template
+	 * Changes are previewed in a modal and only the notes confirmed there are written
+	 */
+	async regenerateNotes(target: RegenerationTarget): Promise<void> {
+		const plans = await planRegeneration(this, target);
+		if (plans.length === 0) {
+			new Notice("Letterboxd: all notes already match the template.");
+			return;
+		}
+
+		new RegenerateNotesModal(this.app, plans, (selected) => {
+			void applyRegeneration(this, selected);
+		}).open();
 	}
 
 	/**
 	 * Opens folder picker to import Letterboxd CSV export
-	 * Expects a folder containing diary.csv and optionally reviews.csv
+	 * Expects the unpacked export folder. Imports get a checklist of its
+	 * datasets; previews and offline imports only read diary.csv, reviews.csv
+	 * and likes/films.csv.
+	 * @param dryRun - Show the planned changes instead of writing them
+	 * @param offline - Create notes from the CSV alone, to be enriched later
 	 */
-	importCSVFolder(): void {
+	importCSVFolder(dryRun = false, offline = false): void {
 		// Create a file input that accepts directories
 		// Note: webkitdirectory is not standard but works in Electron/Obsidian
 		const input = document.createElement("input");
@@ -118,50 +520,32 @@ export default class LetterboxdPlugin extends Plugin {
 			}
 
 			try {
-				let diaryCSV: string | null = null;
-				let reviewsCSV: string | null = null;
-
-				// Find diary.csv and reviews.csv at the ROOT of the selected folder
 				// webkitRelativePath format: "folderName/file.csv" for root files
 				// vs "folderName/subfolder/file.csv" for nested files
+				const exportFiles = new Map<string, Uint8Array>();
 				for (let i = 0; i < files.length; i++) {
 					const file = files[i];
 					const relativePath =
-						(file as File & { webkitRelativePath?: string }).webkitRelativePath || "";
-					const pathParts = relativePath.split("/");
-
-					// Only process files at root level (exactly 2 parts: folder/file.csv)
-					if (pathParts.length !== 2) continue;
-
-					const filename = file.name.toLowerCase();
+						(file as File & { webkitRelativePath?: string }).webkitRelativePath ||
+						file.name;
+					if (!relativePath.toLowerCase().endsWith(".csv")) continue;
+					exportFiles.set(relativePath, new Uint8Array(await file.arrayBuffer()));
+				}
+				const data = readLetterboxdExport(exportFiles);
 
-					if (filename === DIARY_CSV_FILENAME) {
-						diaryCSV = await file.text();
-					} else if (filename === REVIEWS_CSV_FILENAME) {
-						reviewsCSV = await file.text();
-					}
+				if (!dryRun && !offline) {
+					this.chooseExportDatasets(data);
+					return;
 				}
 
-				if (!diaryCSV && !reviewsCSV) {
+				if (!data.diaryCSV && !data.reviewsCSV) {
 					new Notice("Letterboxd: no diary.csv or reviews.csv found in folder.");
 					return;
 				}
 
-				const csvResult = await importFromCSV(this, diaryCSV, reviewsCSV);
-
-				// If TMDB is enabled and we have new films, sync Film notes
-				if (this.settings.tmdbApiKey && csvResult.createdTmdbIds.length > 0) {
-					new Notice(`TMDB: creating ${csvResult.createdTmdbIds.length} film notes...`);
-					const tmdbResult = await syncFilmsFromTMDB(this, csvResult.createdTmdbIds);
-					if (tmdbResult.created > 0 || tmdbResult.errors > 0) {
-						const parts: string[] = [];
-						if (tmdbResult.created > 0)
-							parts.push(`${tmdbResult.created} films created`);
-						if (tmdbResult.skipped > 0) parts.push(`${tmdbResult.skipped} skipped`);
-						if (tmdbResult.errors > 0) parts.push(`${tmdbResult.errors} errors`);
-						new Notice(`TMDB: ${parts.join(", ")}`);
-					}
-				}
+				this.chooseAccount(
+					(account) => void this.importDiaryCSV(account, data, dryRun, offline)
+				);
 			} catch (error) {
 				const message = error instanceof Error ? error.message : "Unknown error";
 				new Notice(`Letterboxd: Failed to read CSV files - ${message}`);
@@ -171,4 +555,300 @@ export default class LetterboxdPlugin extends Plugin {
 
 		input.click();
 	}
+
+	/**
+	 * Imports diary.csv and reviews.csv of an export on their own
+	 * @param dryRun - Show the planned changes instead of writing them
+	 * @param offline - Create notes from the CSV alone, to be enriched later
+	 */
+	private async importDiaryCSV(
+		account: LetterboxdAccount,
+		data: LetterboxdExport,
+		dryRun: boolean,
+		offline: boolean
+	): Promise<void> {
+		const csvResult = await importFromCSV(
+			this,
+			account,
+			data.diaryCSV,
+			data.reviewsCSV,
+			dryRun,
+			offline,
+			data.likes
+		);
+
+		if (dryRun) {
+			await this.showDryRunReport(
+				"CSV import preview",
+				csvResult.planned,
+				csvResult.createdTmdbIds
+			);
+			return;
+		}
+
+		// Notes without TMDB ID get their Film notes once enriched
+		await recordSyncRun(this, "CSV", csvResult.written);
+	}
+
+	/**
+	 * Opens file picker to import the Letterboxd export .zip
+	 * The archive is read in memory, then the datasets to import are chosen
+	 */
+	importExportZip(): void {
+		const input = document.createElement("input");
+		input.type = "file";
+		input.accept = ".zip";
+
+		input.onchange = async () => {
+			const file = input.files?.[0];
+			if (!file) {
+				return;
+			}
+
+			try {
+				const files = await unzip(await file.arrayBuffer());
+				this.chooseExportDatasets(readLetterboxdExport(files));
+			} catch (error) {
+				const message = error instanceof Error ? error.message : "Unknown error";
+				new Notice(`Letterboxd: Failed to read export - ${message}`);
+				console.error("Letterboxd export read error:", error);
+			}
+		};
+
+		input.click();
+	}
+
+	/**
+	 * Opens a fuzzy search of the exports stored in the vault (.zip files and
+	 * extracted export folders), then the datasets to import are chosen
+	 */
+	importVaultExport(): void {
+		const sources = findVaultExports(this.app.vault);
+		if (sources.length === 0) {
+			new Notice("Letterboxd: no .zip file or export folder found in the vault.");
+			return;
+		}
+
+		new ExportSourceModal(this.app, sources, (source) => {
+			void this.readVaultExport(source).then((data) => {
+				if (data) this.chooseExportDatasets(data);
+			});
+		}).open();
+	}
+
+	/**
+	 * Imports every dataset of the exports in the watch folder not imported yet
+	 * An export is recorded as imported once its import completed. Exports that
+	 * can't be read or hold no data yet (e.g., still being copied) are left for
+	 * the next run. Exports go to the account named in their filename, or the
+	 * first account.
+	 */
+	async importWatchFolder(): Promise<void> {
+		const { exportWatchFolder } = this.settings;
+		if (!exportWatchFolder || this.watchFolderImportRunning) {
+			return;
+		}
+
+		this.watchFolderImportRunning = true;
+		try {
+			const sources = findVaultExports(this.app.vault, exportWatchFolder).filter(
+				(source) => !this.state.importedExports.includes(source.path)
+			);
+			for (const source of sources) {
+				const data = await this.readVaultExport(source);
+				if (!data) continue;
+				const counts = countExportDatasets(data);
+				const datasets = EXPORT_DATASETS.filter((dataset) => counts[dataset] > 0);
+				if (datasets.length === 0) continue;
+
+				new Notice(`Letterboxd: importing export "${source.name}"...`);
+				const account = findAccount(this, source.name.match(EXPORT_NAME_PATTERN)?.[1]);
+				try {
+					await this.importExport(data, new Set(datasets), account);
+				} catch (error) {
+					const message = error instanceof Error ? error.message : "Unknown error";
+					new Notice(`Letterboxd: Failed to import export "${source.path}" - ${message}`);
+					console.error("Letterboxd export import error:", error);
+					continue;
+				}
+
+				this.state.importedExports.push(source.path);
+				await this.saveSettings();
+			}
+		} finally {
+			this.watchFolderImportRunning = false;
+		}
+	}
+
+	/**
+	 * Reads an export stored in the vault
+	 * @returns The export, or null if it could not be read (a notice is shown)
+	 */
+	private async readVaultExport(source: VaultExport): Promise<LetterboxdExport | null> {
+		try {
+			return readLetterboxdExport(await readVaultExport(this.app.vault, source));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : "Unknown error";
+			new Notice(`Letterboxd: Failed to read export "${source.path}" - ${message}`);
+			console.error("Letterboxd export read error:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Asks for the account of an export, then shows its datasets and imports
+	 * the ones selected
+	 */
+	private chooseExportDatasets(data: LetterboxdExport): void {
+		const counts = countExportDatasets(data);
+		if (Object.values(counts).every((count) => count === 0)) {
+			new Notice("Letterboxd: no Letterboxd export data found.");
+			return;
+		}
+
+		this.chooseAccount((account) => {
+			new ImportExportModal(this.app, counts, !!this.settings.tmdbApiKey, (selected) => {
+				void this.importExport(data, selected, account);
+			}).open();
+		});
+	}
+
+	/**
+	 * Imports the selected datasets of an export as one sync run
+	 * Film statuses go first, so the diary's Film notes already exist when it
+	 * is imported.
+	 */
+	private async importExport(
+		data: LetterboxdExport,
+		datasets: Set<ExportDataset>,
+		account: LetterboxdAccount
+	): Promise<void> {
+		// The watchlist is synced on its own, to flag the films that left it
+		const statusDatasets = new Set([...datasets].filter((d) => d !== "watchlist"));
+		const { written } = await importFilmStatuses(
+			this,
+			collectFilmStatuses(data, statusDatasets),
+			account.username
+		);
+		if (datasets.has("watchlist")) {
+			mergeJournalFiles(
+				written,
+				(await syncWatchlist(this, data.watchlist, account.username)).written
+			);
+		}
+		if (datasets.has("lists")) {
+			mergeJournalFiles(
+				written,
+				(await importLists(this, data.lists.map(listFromExport))).written
+			);
+		}
+
+		if (datasets.has("diary") && (data.diaryCSV || data.reviewsCSV)) {
+			const csvResult = await importFromCSV(
+				this,
+				account,
+				data.diaryCSV,
+				data.reviewsCSV,
+				false,
+				false,
+				data.likes
+			);
+			await this.finishCSVImport(account, csvResult, written);
+			return;
+		}
+
+		await recordSyncRun(this, "CSV", written);
+	}
+
+	/**
+	 * Resumes a CSV import that was interrupted, from its checkpoint
+	 */
+	async resumeCSVImport(): Promise<void> {
+		const checkpoint = this.state.csvImportCheckpoint;
+		if (!checkpoint) {
+			new Notice("Letterboxd: no interrupted import to resume.");
+			return;
+		}
+
+		new Notice(
+			`Letterboxd: resuming import (${checkpoint.processed.length} entries already imported)...`
+		);
+		const account = findAccount(this, checkpoint.account);
+		const csvResult = await resumeCSVImport(this);
+		await this.finishCSVImport(account, csvResult);
+	}
+
+	/**
+	 * Completes the notes of offline imports with their Letterboxd data, then
+	 * creates their Film notes if TMDB is enabled
+	 */
+	async enrichPendingNotes(): Promise<void> {
+		for (const account of this.settings.accounts) {
+			const result = await enrichPendingNotes(this, account);
+			await this.completeDiaryRun("CSV", account, result);
+		}
+	}
+
+	/**
+	 * Fetches the Letterboxd data of entries imported without it again and
+	 * completes their notes, then creates their Film notes if TMDB is enabled
+	 */
+	async retryFailedEnrichments(): Promise<void> {
+		const accounts = new Set(
+			this.state.failedEnrichments.map((failure) => findAccount(this, failure.account))
+		);
+		for (const account of accounts) {
+			const result = await retryFailedEnrichments(this, account);
+			await this.completeDiaryRun("CSV", account, result);
+		}
+	}
+
+	/**
+	 * Completes a CSV import: syncs Film notes for new films if TMDB is enabled,
+	 * records the run in the sync journal and clears the import checkpoint,
+	 * unless the import was interrupted and can still be resumed
+	 * @param otherWritten - Files written earlier in the same run
+	 */
+	private async finishCSVImport(
+		account: LetterboxdAccount,
+		csvResult: SyncResult,
+		otherWritten: JournalFile[] = []
+	): Promise<void> {
+		if (this.settings.tmdbApiKey && csvResult.createdTmdbIds.length > 0) {
+			new Notice(`TMDB: creating ${csvResult.createdTmdbIds.length} film notes...`);
+		}
+		await this.completeDiaryRun("CSV", account, csvResult, otherWritten);
+		if (!csvResult.interrupted) {
+			await clearCSVImportCheckpoint(this);
+		}
+	}
+
+	/**
+	 * Completes a run that wrote diary notes: creates Film notes for new films if
+	 * TMDB is enabled, marks the logged films as watched by the account (with its
+	 * ratings, and the liked ones as liked) on their Film notes and records the
+	 * run in the sync journal
+	 * @param otherWritten - Files written earlier in the same run
+	 */
+	private async completeDiaryRun(
+		source: SyncJournalRecord["source"],
+		account: LetterboxdAccount,
+		result: SyncResult,
+		otherWritten: JournalFile[] = []
+	): Promise<void> {
+		const written = [
+			...otherWritten,
+			...result.written,
+			...(await this.syncFilmNotes(result.createdTmdbIds)),
+		];
+		await markFilmsWatched(
+			this,
+			account.username,
+			result.loggedTmdbIds,
+			result.ratings,
+			written
+		);
+		await markFilmsLiked(this, result.likedTmdbIds, written);
+		await recordSyncRun(this, source, written);
+	}
 }
@@ -0,0 +1,173 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TFile } from "obsidian";
+import { importFilmStatuses, syncWatchlist } from "./film-status";
+import { fetchTmdbIdFromFilmUrl } from "../letterboxd/fetcher";
+import { getExistingFilmNotes } from "../tmdb/sync";
+import type LetterboxdPlugin from "../main";
+
+vi.mock("../letterboxd/fetcher", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../letterboxd/fetcher")>()),
+	fetchTmdbIdFromFilmUrl: vi.fn((uri: string) => Promise.resolve(uri.split("/").pop())),
+}));
+
+vi.mock("../tmdb/sync", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../tmdb/sync")>()),
+	getExistingFilmNotes: vi.fn(),
+}));
+
+// The mocked class takes its path (the real one has no public constructor)
+const MockTFile = TFile as unknown as new (path: string) => TFile;
+
+/**
+ * Builds a plugin whose Film notes have the given frontmatter, by TMDB ID
+ * @returns The plugin and the frontmatter of its Film notes, updated in place
+ */
+function createPlugin(
+	usernames: string[],
+	films: Record<string, Record<string, unknown>>
+): { plugin: LetterboxdPlugin; frontmatters: Map<string, Record<string, unknown>> } {
+	const frontmatters = new Map<string, Record<string, unknown>>();
+	const notes = Object.entries(films).map(([tmdbId, frontmatter]) => {
+		const file = new MockTFile(`Films/${tmdbId}.md`);
+		frontmatters.set(file.path, { ...frontmatter });
+		return { file, tmdbId };
+	});
+	vi.mocked(getExistingFilmNotes).mockResolvedValue(notes);
+
+	const read = (file: TFile) => {
+		const lines = Object.entries(frontmatters.get(file.path) ?? {}).map(
+			([key, value]) => `${key}: ${JSON.stringify(value)}`
+		);
+		return Promise.resolve(`---\n${lines.join("\n")}\n---\n`);
+	};
+
+	const plugin = {
+		app: {
+			vault: { read, cachedRead: read },
+			fileManager: {
+				processFrontMatter: (
+					file: TFile,
+					fn: (frontmatter: Record<string, unknown>) => void
+				) => {
+					fn(frontmatters.get(file.path) ?? {});
+					return Promise.resolve();
+				},
+			},
+		},
+		settings: {
+			accounts: usernames.map((username) => ({ username })),
+			notificationLevel: "silent",
+			tmdbApiKey: "",
+			tmdbFolderPath: "Films",
+			tmdbNoteTemplate: "",
+		},
+		sourceCache: { save: () => Promise.resolve() },
+	} as unknown as LetterboxdPlugin;
+
+	return { plugin, frontmatters };
+}
+
+/**
+ * Builds a watchlist row of a film whose URI ends with its TMDB ID
+ */
+function watchlistFilm(tmdbId: string) {
+	return { filmTitle: `Film ${tmdbId}`, filmYear: 1995, uri: `https://boxd.it/${tmdbId}` };
+}
+
+// ============================================================================
+// importFilmStatuses
+// ============================================================================
+
+describe("importFilmStatuses", () => {
+	beforeEach(() => {
+		vi.mocked(fetchTmdbIdFromFilmUrl).mockClear();
+	});
+
+	const rated = {
+		...watchlistFilm("949"),
+		watched: true,
+		watchlist: false,
+		rating: 4.5,
+		liked: false,
+	};
+
+	it("writes the shared rating while a single account is configured", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna"], { "949": {} });
+
+		await importFilmStatuses(plugin, [rated], "anna");
+
+		expect(frontmatters.get("Films/949.md")).toMatchObject({ rating: 9, rating_anna: 9 });
+	});
+
+	it("only writes the account's rating when several accounts are configured", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna", "ben"], { "949": {} });
+
+		await importFilmStatuses(plugin, [rated], "ben");
+
+		expect(frontmatters.get("Films/949.md")).toEqual({
+			status: "watched",
+			watched_by: ["ben"],
+			rating_ben: 9,
+		});
+	});
+});
+
+// ============================================================================
+// syncWatchlist
+// ============================================================================
+
+describe("syncWatchlist", () => {
+	it("records the account on the films of its watchlist", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna", "ben"], {
+			"949": { status: "watchlist", watchlisted_by: ["anna"] },
+		});
+
+		await syncWatchlist(plugin, [watchlistFilm("949")], "ben");
+
+		expect(frontmatters.get("Films/949.md")).toEqual({
+			status: "watchlist",
+			watchlisted_by: ["anna", "ben"],
+		});
+	});
+
+	it("only flags the films the account added", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna", "ben"], {
+			"949": { status: "watchlist", watchlisted_by: ["anna"] },
+			"680": { status: "watchlist", watchlisted_by: ["ben"] },
+			"603": { status: "watchlist" },
+		});
+
+		const result = await syncWatchlist(plugin, [watchlistFilm("1")], "ben");
+
+		expect(frontmatters.get("Films/949.md")).toEqual({
+			status: "watchlist",
+			watchlisted_by: ["anna"],
+		});
+		expect(frontmatters.get("Films/680.md")).toEqual({ status: "removed" });
+		expect(frontmatters.get("Films/603.md")).toEqual({ status: "watchlist" });
+		expect(result.updated).toBe(1);
+	});
+
+	it("keeps a film on the watchlist of another account", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna", "ben"], {
+			"949": { status: "watchlist", watchlisted_by: ["anna", "ben"] },
+		});
+
+		await syncWatchlist(plugin, [watchlistFilm("1")], "ben");
+
+		expect(frontmatters.get("Films/949.md")).toEqual({
+			status: "watchlist",
+			watchlisted_by: ["anna"],
+		});
+	});
+
+	it("flags the films noted before accounts were recorded while a single account is configured", async () => {
+		const { plugin, frontmatters } = createPlugin(["anna"], {
+			"949": { status: "watchlist" },
+		});
+
+		await syncWatchlist(plugin, [watchlistFilm("1")], "anna");
+
+		expect(frontmatters.get("Films/949.md")).toEqual({ status: "removed" });
+	});
+});
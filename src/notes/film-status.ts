@@ -0,0 +1,571 @@
+/**
+ * Film Status
+ *
+ * Records how films stand on Letterboxd in the frontmatter of their Film
+ * notes, from the film datasets of an export, the watchlist and the diary:
+ * - status: "watchlist", then "watched" once logged, or "removed" if the film
+ *   left the watchlist without being watched
+ * - rating: your rating on the 1-10 scale (like diary notes), while a single
+ *   account is configured
+ * - liked: true for liked films
+ * - watched_by and watchlisted_by: the accounts that logged the film or have
+ *   it on their watchlist, and rating_<username> each account's rating, as
+ *   Film notes are shared by the accounts
+ *
+ * Film notes are matched by TMDB ID, read from the Letterboxd film page.
+ * Missing Film notes are created when TMDB is enabled.
+ */
+
+import type { TFile } from "obsidian";
+import type LetterboxdPlugin from "../main";
+import type { JournalFile, LetterboxdAccount } from "../types";
+import type { SyncResult } from "./sync";
+import type { ExportFilmRow, ExportFilmStatus } from "../letterboxd/export";
+import { fetchTmdbIdFromFilmUrl } from "../letterboxd/fetcher";
+import { fetchWatchlist } from "../letterboxd/watchlist";
+import { fetchTMDBMovie, templateNeedsCredits } from "../tmdb/api";
+import { createFilmNote, createTMDBSyncResult, getExistingFilmNotes } from "../tmdb/sync";
+import { RequestBudgetError } from "../utils/request-scheduler";
+import { ensureFolderExists } from "../utils/vault";
+import { notify } from "../utils/notify";
+import { hashContent } from "../utils/hash";
+import { mergeJournalFiles } from "./journal";
+import { createFrontmatterKeyRegex, splitFrontmatter } from "../utils/frontmatter";
+
+/** Frontmatter keys written to Film notes */
+export const FILM_STATUS_KEY = "status";
+export const FILM_RATING_KEY = "rating";
+export const FILM_LIKED_KEY = "liked";
+export const FILM_WATCHED_BY_KEY = "watched_by";
+export const FILM_WATCHLISTED_BY_KEY = "watchlisted_by";
+
+/** Keys holding a list of accounts, which accounts are added to rather than replaced */
+const ACCOUNT_LIST_KEYS = [FILM_WATCHED_BY_KEY, FILM_WATCHLISTED_BY_KEY];
+
+/**
+ * Returns the frontmatter key of an account's rating on Film notes
+ */
+export function getAccountRatingKey(username: string): string {
+	return `rating_${username}`;
+}
+
+/**
+ * Where a film stands on Letterboxd
+ * "removed" flags films that left the watchlist without being watched.
+ */
+export type FilmStatus = "watched" | "watchlist" | "removed";
+
+export interface FilmStatusResult {
+	/** Film notes created */
+	created: number;
+	/** Existing Film notes whose properties changed */
+	updated: number;
+	/** Films without a TMDB ID, without a Film note (TMDB disabled) or unchanged */
+	skipped: number;
+	errors: number;
+	/** TMDB IDs of the films that have one */
+	tmdbIds: string[];
+	/** Film notes of the films that have one, by Letterboxd URI */
+	files: Map<string, TFile>;
+	/** Files written, for the sync journal */
+	written: JournalFile[];
+}
+
+/**
+ * Returns true when more than one account is configured
+ * Film notes then hold no shared rating: each account's is in rating_<username>.
+ */
+function hasSeveralAccounts(plugin: LetterboxdPlugin): boolean {
+	return plugin.settings.accounts.length > 1;
+}
+
+/**
+ * Returns the frontmatter properties recording a film's status
+ * @param username - Account the status belongs to, if known
+ * @param severalAccounts - Leave out the shared rating (see hasSeveralAccounts)
+ */
+function toFilmProperties(
+	film: ExportFilmStatus,
+	username: string | undefined,
+	severalAccounts: boolean
+): Record<string, unknown> {
+	const properties: Record<string, unknown> = {};
+	if (film.watched) {
+		properties[FILM_STATUS_KEY] = "watched" satisfies FilmStatus;
+	} else if (film.watchlist) {
+		properties[FILM_STATUS_KEY] = "watchlist" satisfies FilmStatus;
+	}
+	if (film.rating !== null && !(username && severalAccounts)) {
+		properties[FILM_RATING_KEY] = film.rating * 2;
+	}
+	if (film.liked) {
+		properties[FILM_LIKED_KEY] = true;
+	}
+	if (username && film.watched) {
+		properties[FILM_WATCHED_BY_KEY] = [username];
+	}
+	if (username && film.watchlist) {
+		properties[FILM_WATCHLISTED_BY_KEY] = [username];
+	}
+	if (username && film.rating !== null) {
+		properties[getAccountRatingKey(username)] = film.rating * 2;
+	}
+	return properties;
+}
+
+/**
+ * Writes status properties to a Film note
+ * A watched film stays watched when it is also on the watchlist. Accounts are
+ * added to watched_by and watchlisted_by, never removed.
+ * @returns true if a property changed
+ */
+async function applyFilmProperties(
+	plugin: LetterboxdPlugin,
+	file: TFile,
+	properties: Record<string, unknown>
+): Promise<boolean> {
+	let changed = false;
+	await plugin.app.fileManager.processFrontMatter(
+		file,
+		(frontmatter: Record<string, unknown>) => {
+			for (const [key, value] of Object.entries(properties)) {
+				if (ACCOUNT_LIST_KEYS.includes(key) && Array.isArray(value)) {
+					const current: unknown[] = Array.isArray(frontmatter[key])
+						? (frontmatter[key] as unknown[])
+						: [];
+					const added = value.filter((account) => !current.includes(account));
+					if (added.length === 0) continue;
+					frontmatter[key] = [...current, ...added];
+					changed = true;
+					continue;
+				}
+				const keepWatched =
+					key === FILM_STATUS_KEY &&
+					value === "watchlist" &&
+					frontmatter[key] === "watched";
+				if (frontmatter[key] === value || keepWatched) continue;
+				frontmatter[key] = value;
+				changed = true;
+			}
+		}
+	);
+	return changed;
+}
+
+/**
+ * Records a Film note written by this run for the sync journal
+ * Hashed after its properties are set, so undo recognizes the note. A note
+ * already recorded by the run (e.g., created earlier) gets its hash updated.
+ */
+async function recordWrittenFile(
+	plugin: LetterboxdPlugin,
+	file: TFile,
+	created: boolean,
+	written: JournalFile[]
+): Promise<void> {
+	const hash = hashContent(await plugin.app.vault.read(file));
+	mergeJournalFiles(written, [
+		{ path: file.path, change: created ? "created" : "modified", hash },
+	]);
+}
+
+/**
+ * Reads the status of every Film note
+ * @returns Film notes with their TMDB ID and status (null if they have none)
+ */
+async function getFilmNoteStatuses(
+	plugin: LetterboxdPlugin
+): Promise<{ file: TFile; tmdbId: string | null; status: string | null }[]> {
+	const statusRegex = createFrontmatterKeyRegex(FILM_STATUS_KEY);
+	const notes = [];
+
+	for (const note of await getExistingFilmNotes(plugin)) {
+		try {
+			const { frontmatter } = splitFrontmatter(await plugin.app.vault.cachedRead(note.file));
+			const match = frontmatter?.match(statusRegex);
+			notes.push({
+				...note,
+				status: match ? match[1].trim().replace(/^["']|["']$/g, "") : null,
+			});
+		} catch {
+			// Skip unreadable files
+		}
+	}
+
+	return notes;
+}
+
+/**
+ * Records the status of films on their Film notes
+ * Film notes missing from the vault are created when TMDB is enabled.
+ * @param plugin - Plugin instance
+ * @param films - Film statuses from an export
+ * @param username - Account the statuses belong to, recorded in watched_by,
+ *   watchlisted_by and rating_<username> (omit for films without a status,
+ *   e.g., of lists)
+ * @returns Import result with counts and written files
+ */
+export async function importFilmStatuses(
+	plugin: LetterboxdPlugin,
+	films: ExportFilmStatus[],
+	username?: string
+): Promise<FilmStatusResult> {
+	const result: FilmStatusResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		tmdbIds: [],
+		files: new Map(),
+		written: [],
+	};
+	const { tmdbApiKey, tmdbFolderPath, tmdbLanguage, tmdbNoteTemplate, notificationLevel } =
+		plugin.settings;
+	const severalAccounts = hasSeveralAccounts(plugin);
+
+	if (films.length === 0) {
+		return result;
+	}
+
+	try {
+		notify(
+			`Letterboxd: Updating film notes... 0/${films.length}`,
+			notificationLevel,
+			"progress"
+		);
+
+		const filesByTmdbId = new Map<string, TFile>();
+		for (const note of await getExistingFilmNotes(plugin)) {
+			if (note.tmdbId) filesByTmdbId.set(note.tmdbId, note.file);
+		}
+		if (tmdbApiKey) {
+			await ensureFolderExists(plugin, tmdbFolderPath);
+		}
+		const includeCredits = templateNeedsCredits(tmdbNoteTemplate);
+
+		for (const [index, film] of films.entries()) {
+			if ((index + 1) % 25 === 0) {
+				notify(
+					`Letterboxd: Updating film notes... ${index + 1}/${films.length}`,
+					notificationLevel,
+					"progress"
+				);
+			}
+
+			try {
+				const tmdbId = await fetchTmdbIdFromFilmUrl(film.uri);
+				if (tmdbId) result.tmdbIds.push(tmdbId);
+				let file = tmdbId ? filesByTmdbId.get(tmdbId) : undefined;
+				let created = false;
+
+				if (!file) {
+					if (!tmdbId || !tmdbApiKey) {
+						result.skipped++;
+						continue;
+					}
+					const movie = await fetchTMDBMovie(
+						tmdbId,
+						tmdbApiKey,
+						tmdbLanguage,
+						includeCredits
+					);
+					const newFile = await createFilmNote(plugin, movie, createTMDBSyncResult());
+					if (!newFile) continue;
+					file = newFile;
+					await plugin.sourceCache.setFilm(movie);
+					filesByTmdbId.set(tmdbId, file);
+					created = true;
+				}
+
+				result.files.set(film.uri, file);
+				const changed = await applyFilmProperties(
+					plugin,
+					file,
+					toFilmProperties(film, username, severalAccounts)
+				);
+				if (created || changed) {
+					await recordWrittenFile(plugin, file, created, result.written);
+				}
+
+				if (created) result.created++;
+				else if (changed) result.updated++;
+				else result.skipped++;
+			} catch (error) {
+				// Every following film would fail the same way
+				if (error instanceof RequestBudgetError) throw error;
+				console.error(
+					`Letterboxd: Failed to update the film note of "${film.filmTitle}"`,
+					error
+				);
+				result.errors++;
+			}
+		}
+
+		await plugin.sourceCache.save();
+		notify(
+			buildResultMessage(result),
+			notificationLevel,
+			"result",
+			result.created > 0 || result.updated > 0
+		);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: Film notes update failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd film status error:", error);
+	}
+
+	return result;
+}
+
+/**
+ * Takes an account off the watchlisted_by of a Film note whose film left its watchlist
+ * The note is flagged "removed" once no account has the film on its watchlist.
+ * Notes without watchlisted_by (written before it was recorded) are only
+ * taken as the account's while a single account is configured.
+ * @returns Whether the note was flagged, changed otherwise, or left alone
+ */
+async function removeFromWatchlist(
+	plugin: LetterboxdPlugin,
+	file: TFile,
+	username: string
+): Promise<"flagged" | "changed" | null> {
+	const severalAccounts = hasSeveralAccounts(plugin);
+	let outcome: "flagged" | "changed" | null = null;
+	await plugin.app.fileManager.processFrontMatter(
+		file,
+		(frontmatter: Record<string, unknown>) => {
+			const addedBy: unknown[] = Array.isArray(frontmatter[FILM_WATCHLISTED_BY_KEY])
+				? (frontmatter[FILM_WATCHLISTED_BY_KEY] as unknown[])
+				: [];
+			if (addedBy.length === 0 ? severalAccounts : !addedBy.includes(username)) {
+				return;
+			}
+			const remaining = addedBy.filter((account) => account !== username);
+			if (remaining.length > 0) {
+				frontmatter[FILM_WATCHLISTED_BY_KEY] = remaining;
+				outcome = "changed";
+				return;
+			}
+			delete frontmatter[FILM_WATCHLISTED_BY_KEY];
+			frontmatter[FILM_STATUS_KEY] = "removed" satisfies FilmStatus;
+			outcome = "flagged";
+		}
+	);
+	return outcome;
+}
+
+/**
+ * Syncs the watchlist of an account into Film notes
+ * Films on the watchlist get "status: watchlist" (watched films stay watched)
+ * and the account in watchlisted_by. Film notes still on "watchlist" that the
+ * account added but whose film left its watchlist are flagged "removed" (see
+ * removeFromWatchlist), unless some films could not be resolved (they might
+ * be the missing ones).
+ * @param plugin - Plugin instance
+ * @param films - The whole watchlist
+ * @param username - Account the watchlist belongs to
+ * @returns Sync result; flagged notes count as updated
+ */
+export async function syncWatchlist(
+	plugin: LetterboxdPlugin,
+	films: Pick<ExportFilmRow, "filmTitle" | "filmYear" | "uri">[],
+	username: string
+): Promise<FilmStatusResult> {
+	const result = await importFilmStatuses(
+		plugin,
+		films.map((film) => ({
+			filmTitle: film.filmTitle,
+			filmYear: film.filmYear,
+			uri: film.uri,
+			watched: false,
+			watchlist: true,
+			rating: null,
+			liked: false,
+		})),
+		username
+	);
+	const { notificationLevel } = plugin.settings;
+
+	if (result.errors > 0) {
+		notify(
+			"Letterboxd: Some watchlist films could not be resolved, films removed from the watchlist were not flagged",
+			notificationLevel,
+			"error"
+		);
+		return result;
+	}
+
+	const onWatchlist = new Set(result.tmdbIds);
+	let removed = 0;
+	for (const note of await getFilmNoteStatuses(plugin)) {
+		if (note.status !== "watchlist" || !note.tmdbId || onWatchlist.has(note.tmdbId)) {
+			continue;
+		}
+		try {
+			const outcome = await removeFromWatchlist(plugin, note.file, username);
+			if (!outcome) continue;
+			await recordWrittenFile(plugin, note.file, false, result.written);
+			result.updated++;
+			if (outcome === "flagged") removed++;
+		} catch (error) {
+			console.error(`Letterboxd: Failed to flag "${note.file.path}"`, error);
+			result.errors++;
+		}
+	}
+
+	if (removed > 0) {
+		notify(
+			`Letterboxd: ${removed} films left the watchlist without being watched`,
+			notificationLevel,
+			"result",
+			true
+		);
+	}
+
+	return result;
+}
+
+/**
+ * Syncs the watchlist from the Letterboxd watchlist pages into Film notes
+ * An empty watchlist is not synced: it's more likely the pages changed than
+ * every film left the watchlist.
+ * @param plugin - Plugin instance
+ * @param account - Account whose watchlist is synced
+ * @returns Sync result with counts and written files
+ */
+export async function syncWatchlistFromLetterboxd(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<FilmStatusResult> {
+	const { username } = account;
+	const { notificationLevel } = plugin.settings;
+	const empty: FilmStatusResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		tmdbIds: [],
+		files: new Map(),
+		written: [],
+	};
+
+	if (!username) {
+		notify("Letterboxd: Please set your username in settings", notificationLevel, "error");
+		return empty;
+	}
+
+	try {
+		notify("Letterboxd: Fetching watchlist...", notificationLevel, "progress");
+		const films = await fetchWatchlist(username, (page, found) => {
+			if (page > 1) {
+				notify(
+					`Letterboxd: Fetching watchlist page ${page} (${found} films so far)...`,
+					notificationLevel,
+					"progress"
+				);
+			}
+		});
+
+		if (films.length === 0) {
+			notify("Letterboxd: No films found on the watchlist", notificationLevel, "progress");
+			return empty;
+		}
+
+		return await syncWatchlist(plugin, films, username);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: Watchlist sync failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd watchlist sync error:", error);
+		return empty;
+	}
+}
+
+/**
+ * Records the films logged in the diary of an account on their Film notes:
+ * "status: watched", the account in watched_by and its rating in
+ * rating_<username>
+ * @param plugin - Plugin instance
+ * @param username - Account that logged the films
+ * @param tmdbIds - TMDB IDs of the logged films
+ * @param ratings - Ratings of the logged films, by TMDB ID
+ * @param written - Files written by the run so far, updated with the notes changed
+ */
+export async function markFilmsWatched(
+	plugin: LetterboxdPlugin,
+	username: string,
+	tmdbIds: string[],
+	ratings: SyncResult["ratings"],
+	written: JournalFile[]
+): Promise<void> {
+	const logged = new Set(tmdbIds);
+	if (logged.size === 0 && Object.keys(ratings).length === 0) {
+		return;
+	}
+
+	for (const note of await getExistingFilmNotes(plugin)) {
+		if (!note.tmdbId) {
+			continue;
+		}
+		const properties: Record<string, unknown> = {};
+		if (logged.has(note.tmdbId)) {
+			properties[FILM_STATUS_KEY] = "watched" satisfies FilmStatus;
+			properties[FILM_WATCHED_BY_KEY] = [username];
+		}
+		const rated = ratings[note.tmdbId];
+		if (rated) {
+			properties[getAccountRatingKey(username)] = rated.rating;
+		}
+		if (Object.keys(properties).length === 0) {
+			continue;
+		}
+		try {
+			if (await applyFilmProperties(plugin, note.file, properties)) {
+				await recordWrittenFile(plugin, note.file, false, written);
+			}
+		} catch (error) {
+			console.error(`Letterboxd: Failed to mark "${note.file.path}" as watched`, error);
+		}
+	}
+}
+
+/**
+ * Sets "liked: true" on the Film notes of films liked in the diary
+ * @param plugin - Plugin instance
+ * @param tmdbIds - TMDB IDs of the liked films
+ * @param written - Files written by the run so far, updated with the notes changed
+ */
+export async function markFilmsLiked(
+	plugin: LetterboxdPlugin,
+	tmdbIds: string[],
+	written: JournalFile[]
+): Promise<void> {
+	if (tmdbIds.length === 0) {
+		return;
+	}
+
+	const liked = new Set(tmdbIds);
+	for (const note of await getExistingFilmNotes(plugin)) {
+		if (!note.tmdbId || !liked.has(note.tmdbId)) {
+			continue;
+		}
+		try {
+			if (await applyFilmProperties(plugin, note.file, { [FILM_LIKED_KEY]: true })) {
+				await recordWrittenFile(plugin, note.file, false, written);
+			}
+		} catch (error) {
+			console.error(`Letterboxd: Failed to mark "${note.file.path}" as liked`, error);
+		}
+	}
+}
+
+/**
+ * Builds a user-friendly result message
+ */
+function buildResultMessage(result: FilmStatusResult): string {
+	const parts: string[] = [];
+	if (result.created > 0) parts.push(`${result.created} created`);
+	if (result.updated > 0) parts.push(`${result.updated} updated`);
+	if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
+	if (result.errors > 0) parts.push(`${result.errors} errors`);
+	return parts.length ? `Letterboxd films: ${parts.join(", ")}` : "Letterboxd films: No changes";
+}
@@ -0,0 +1,128 @@
+/**
+ * Sync Journal
+ *
+ * Every sync that writes to the vault appends a record to the plugin data
+ * listing the files it created or modified, with a hash of the written
+ * content. "Undo last sync" uses the latest record to trash the notes that
+ * sync created, as long as they haven't been edited since.
+ */
+
+import { TFile } from "obsidian";
+import type LetterboxdPlugin from "../main";
+import type { JournalFile, SyncJournalRecord } from "../types";
+import { hashContent } from "../utils/hash";
+
+/** Number of sync runs kept in the journal */
+const MAX_JOURNAL_RECORDS = 20;
+
+/**
+ * Outcome of undoing a sync run
+ */
+export interface UndoResult {
+	/** Created notes moved to the trash */
+	trashed: number;
+	/** Created notes kept because they changed since the sync */
+	kept: number;
+	/** Created notes that no longer exist */
+	missing: number;
+	/** Modified notes, left as they are (they existed before the sync) */
+	modified: number;
+}
+
+/**
+ * Appends a sync run to the journal and saves the plugin data
+ * Runs that wrote nothing are not recorded.
+ * @param plugin - Plugin instance
+ * @param source - What the run synced from
+ * @param files - Files the run wrote
+ */
+export async function recordSyncRun(
+	plugin: LetterboxdPlugin,
+	source: SyncJournalRecord["source"],
+	files: JournalFile[]
+): Promise<void> {
+	if (files.length === 0) {
+		return;
+	}
+
+	const { syncJournal } = plugin.state;
+	syncJournal.push({
+		runId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+		source,
+		date: new Date().toISOString(),
+		files,
+	});
+	syncJournal.splice(0, Math.max(0, syncJournal.length - MAX_JOURNAL_RECORDS));
+
+	await plugin.saveSettings();
+}
+
+/**
+ * Adds files written later in a run to the files it already wrote
+ * A file already recorded keeps its change (e.g., "created") and gets the new hash.
+ * @param files - Files written so far, updated in place
+ * @param later - Files written since
+ */
+export function mergeJournalFiles(files: JournalFile[], later: JournalFile[]): void {
+	for (const file of later) {
+		const existing = files.find((entry) => entry.path === file.path);
+		if (existing) {
+			existing.hash = file.hash;
+		} else {
+			files.push(file);
+		}
+	}
+}
+
+/**
+ * Returns the most recent sync run, or null if the journal is empty
+ */
+export function getLastSyncRun(plugin: LetterboxdPlugin): SyncJournalRecord | null {
+	const { syncJournal } = plugin.state;
+	return syncJournal.length > 0 ? syncJournal[syncJournal.length - 1] : null;
+}
+
+/**
+ * Undoes a sync run: trashes the notes it created that are unchanged since,
+ * then removes the run from the journal
+ * @param plugin - Plugin instance
+ * @param record - Journal record of the run to undo
+ */
+export async function undoSyncRun(
+	plugin: LetterboxdPlugin,
+	record: SyncJournalRecord
+): Promise<UndoResult> {
+	const { vault, fileManager } = plugin.app;
+	const result: UndoResult = { trashed: 0, kept: 0, missing: 0, modified: 0 };
+
+	for (const entry of record.files) {
+		if (entry.change === "modified") {
+			result.modified++;
+			continue;
+		}
+
+		const file = vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) {
+			result.missing++;
+			continue;
+		}
+
+		try {
+			const content = await vault.read(file);
+			if (hashContent(content) !== entry.hash) {
+				result.kept++;
+				continue;
+			}
+			await fileManager.trashFile(file);
+			result.trashed++;
+		} catch (error) {
+			console.error(`Letterboxd: Failed to undo "${entry.path}"`, error);
+			result.kept++;
+		}
+	}
+
+	plugin.state.syncJournal = plugin.state.syncJournal.filter((r) => r.runId !== record.runId);
+	await plugin.saveSettings();
+
+	return result;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { renderListTemplate, generateListFilename } from "./list-template";
+import type { ListNoteData } from "./list-template";
+import type { LetterboxdList } from "../letterboxd/lists";
+
+const LIST: LetterboxdList = {
+	name: "Heists: the best",
+	url: "https://letterboxd.com/user/list/heists/",
+	description: "<p>The best jobs, <i>ranked</i>.</p>",
+	ranked: true,
+	tags: ["crime", "heist"],
+	films: [
+		{
+			position: 1,
+			filmTitle: "Heat",
+			filmYear: 1995,
+			uri: "https://boxd.it/29qe",
+			note: "",
+		},
+		{
+			position: 2,
+			filmTitle: "Thief",
+			filmYear: 1981,
+			uri: "https://boxd.it/1Lsm",
+			note: "<p>The opener.</p><p>A | B</p>",
+		},
+	],
+	complete: true,
+};
+
+const DATA: ListNoteData = {
+	list: LIST,
+	filmLinks: new Map([["https://boxd.it/29qe", "Films/Heat (1995)"]]),
+};
+
+// ============================================================================
+// renderListTemplate
+// ============================================================================
+
+describe("renderListTemplate", () => {
+	it("renders the list details", () => {
+		const rendered = renderListTemplate(
+			"ranked: {{ranked}}\ntags: {{tags yaml=true}}\n# {{name}} ({{filmCount}})\n{{description}}",
+			DATA
+		);
+
+		expect(rendered).toBe(
+			'ranked: true\ntags: ["crime", "heist"]\n# Heists: the best (2)\nThe best jobs, *ranked*.'
+		);
+	});
+
+	it("leaves the ranked flag empty when it's unknown", () => {
+		const rendered = renderListTemplate("ranked: {{ranked}}", {
+			...DATA,
+			list: { ...LIST, ranked: null },
+		});
+
+		expect(rendered).toBe("ranked: ");
+	});
+
+	it("renders the films as a table linking their Film notes", () => {
+		expect(renderListTemplate("{{entries}}", DATA)).toBe(
+			[
+				"| # | Film | Year | Note |",
+				"| --- | --- | --- | --- |",
+				"| 1 | [[Films/Heat (1995)\\|Heat]] | 1995 |  |",
+				"| 2 | [Thief](https://boxd.it/1Lsm) | 1981 | The opener.<br>A \\| B |",
+			].join("\n")
+		);
+	});
+
+	it("renders no table for an empty list", () => {
+		expect(renderListTemplate("{{entries}}", { ...DATA, list: { ...LIST, films: [] } })).toBe(
+			""
+		);
+	});
+});
+
+// ============================================================================
+// generateListFilename
+// ============================================================================
+
+describe("generateListFilename", () => {
+	it("uses the list name without invalid characters", () => {
+		expect(generateListFilename(DATA)).toBe("Heists the best");
+	});
+});
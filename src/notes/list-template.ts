@@ -0,0 +1,89 @@
+import type { LetterboxdList } from "../letterboxd/lists";
+import { createTemplateEngine } from "../template-engine";
+import type { RawValue } from "../template-engine";
+import { htmlToMarkdown } from "../utils/html";
+
+/**
+ * Data a list note is rendered from
+ */
+export interface ListNoteData {
+	list: LetterboxdList;
+	/** Vault path (without .md) of the Film note of each film, by Letterboxd URI */
+	filmLinks: Map<string, string>;
+}
+
+/**
+ * Map of template variable names to their accessor functions
+ */
+const LIST_ACCESSORS: Record<string, (data: ListNoteData) => RawValue> = {
+	name: (d) => d.list.name,
+	url: (d) => d.list.url,
+	description: (d) => htmlToMarkdown(d.list.description),
+	ranked: (d) => d.list.ranked ?? "",
+	tags: (d) => d.list.tags,
+	filmCount: (d) => d.list.films.length,
+};
+
+/**
+ * Escapes text for a Markdown table cell (pipes, line breaks)
+ */
+function tableCell(text: string): string {
+	return text
+		.replace(/\|/g, "\\|")
+		.replace(/\s*\n+\s*/g, "<br>")
+		.trim();
+}
+
+/**
+ * Special handler for entries - generates the ordered table of the list films
+ * Films link to their Film note, or to their Letterboxd page if they have none.
+ */
+function handleEntries(data: ListNoteData): string {
+	if (data.list.films.length === 0) {
+		return "";
+	}
+
+	const rows = data.list.films.map((film) => {
+		const target = data.filmLinks.get(film.uri);
+		const title = film.filmTitle.replace(/([[\]])/g, "\\$1");
+		let link = title;
+		if (target) {
+			link = `[[${target}|${title}]]`;
+		} else if (film.uri) {
+			link = `[${title}](${film.uri})`;
+		}
+		const year = film.filmYear ? String(film.filmYear) : "";
+		const note = film.note ? htmlToMarkdown(film.note) : "";
+		return `| ${film.position} | ${tableCell(link)} | ${year} | ${tableCell(note)} |`;
+	});
+
+	return ["| # | Film | Year | Note |", "| --- | --- | --- | --- |", ...rows].join("\n");
+}
+
+/**
+ * Create the list template engine
+ */
+const listEngine = createTemplateEngine({
+	accessors: LIST_ACCESSORS,
+	specialHandlers: {
+		entries: handleEntries,
+	},
+});
+
+/**
+ * Renders a template with the given list data
+ * @param template - Template string with {{variables}} and {{#if}}...{{/if}} blocks
+ * @param data - List and the links to its films' Film notes
+ * @returns Rendered template string
+ */
+export function renderListTemplate(template: string, data: ListNoteData): string {
+	return listEngine.render(template, data);
+}
+
+/**
+ * Generates the filename of a list note from the list name
+ * @returns Safe filename (without .md extension)
+ */
+export function generateListFilename(data: ListNoteData): string {
+	return listEngine.generateFilename("{{name}}", data);
+}
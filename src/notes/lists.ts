@@ -0,0 +1,293 @@
+/**
+ * List Notes
+ *
+ * Writes one note per Letterboxd list, rendered from the list note template:
+ * its name, description, ranked flag and the ordered table of its films.
+ * Films link to their Film note, matched by TMDB ID and created for missing
+ * films when TMDB is enabled.
+ *
+ * List notes are matched by their list URL (letterboxd_list_url), then by
+ * filename. Existing notes are rewritten through their managed regions like
+ * diary notes, so the user's own writing around the table survives.
+ */
+
+import { normalizePath, TFile, TFolder } from "obsidian";
+import type LetterboxdPlugin from "../main";
+import type { JournalFile } from "../types";
+import { fetchList } from "../letterboxd/lists";
+import type { LetterboxdList } from "../letterboxd/lists";
+import { importFilmStatuses } from "./film-status";
+import { mergeJournalFiles } from "./journal";
+import { generateListFilename, renderListTemplate } from "./list-template";
+import { planNoteRewrite, applyNoteRewrite } from "./writer";
+import { RequestBudgetError } from "../utils/request-scheduler";
+import { ensureFolderExists } from "../utils/vault";
+import { createFrontmatterKeyRegex } from "../utils/frontmatter";
+import { notify } from "../utils/notify";
+import { hashContent } from "../utils/hash";
+
+/** Frontmatter key holding the URL of the list a note was written from */
+export const LIST_URL_KEY = "letterboxd_list_url";
+
+export interface ListNotesResult {
+	/** List notes created */
+	created: number;
+	/** Existing list notes whose content changed */
+	updated: number;
+	/** Existing list notes left unchanged */
+	skipped: number;
+	errors: number;
+	/** Files written (list notes and Film notes), for the sync journal */
+	written: JournalFile[];
+}
+
+/**
+ * Reads the list URL of every note in the list folder
+ * @returns List notes with their URL (null if they have none)
+ */
+async function getExistingListNotes(
+	plugin: LetterboxdPlugin
+): Promise<{ file: TFile; url: string | null }[]> {
+	const { vault } = plugin.app;
+	const folder = vault.getAbstractFileByPath(plugin.settings.listFolderPath);
+	if (!(folder instanceof TFolder)) {
+		return [];
+	}
+
+	const urlRegex = createFrontmatterKeyRegex(LIST_URL_KEY);
+	const notes = [];
+	for (const file of folder.children) {
+		if (!(file instanceof TFile) || file.extension !== "md") continue;
+		try {
+			const match = (await vault.cachedRead(file)).match(urlRegex);
+			notes.push({
+				file,
+				url: match ? match[1].trim().replace(/^["']|["']$/g, "") : null,
+			});
+		} catch {
+			// Skip unreadable files
+		}
+	}
+
+	return notes;
+}
+
+/**
+ * Fetches the whole list of lists that come with their first films only (RSS)
+ * The partial list is kept if its pages cannot be fetched.
+ */
+async function completeList(list: LetterboxdList): Promise<LetterboxdList> {
+	if (list.complete) {
+		return list;
+	}
+	try {
+		const fetched = await fetchList(list.url);
+		// The RSS description is the one written by the user, without page markup
+		return { ...fetched, description: list.description || fetched.description };
+	} catch (error) {
+		if (error instanceof RequestBudgetError) throw error;
+		console.warn(`Letterboxd: Failed to fetch the whole list "${list.name}"`, error);
+		return list;
+	}
+}
+
+/**
+ * Finds the note of a list
+ * Exports link lists by short URL, so a note written from another source is
+ * found by its filename.
+ * @param handled - Notes already written by this run, never matched again
+ */
+function findListNote(
+	existing: { file: TFile; url: string | null }[],
+	list: LetterboxdList,
+	filePath: string,
+	handled: Set<string>
+): TFile | null {
+	const note =
+		existing.find((n) => n.url === list.url) ??
+		existing.find((n) => n.file.path === filePath && n.url !== null);
+	return note && !handled.has(note.file.path) ? note.file : null;
+}
+
+/**
+ * Returns the vault path a list note is created at (before collisions)
+ */
+function getListNotePath(plugin: LetterboxdPlugin, list: LetterboxdList): string {
+	const filename = generateListFilename({ list, filmLinks: new Map() }) || "Untitled list";
+	return normalizePath(`${plugin.settings.listFolderPath}/${filename}.md`);
+}
+
+/**
+ * Writes lists to list notes
+ * The Film notes of their films are resolved (and created when TMDB is
+ * enabled) first, so the tables can link them.
+ * @param plugin - Plugin instance
+ * @param lists - Lists to write
+ * @param skipExisting - Leave lists that already have a note as they are
+ * @returns Result with counts and written files
+ */
+export async function importLists(
+	plugin: LetterboxdPlugin,
+	lists: LetterboxdList[],
+	skipExisting = false
+): Promise<ListNotesResult> {
+	const result: ListNotesResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		written: [],
+	};
+	const { vault } = plugin.app;
+	const { listFolderPath, listNoteTemplate, notificationLevel } = plugin.settings;
+
+	if (lists.length === 0) {
+		return result;
+	}
+
+	try {
+		await ensureFolderExists(plugin, listFolderPath);
+		const existing = await getExistingListNotes(plugin);
+
+		const pendingLists: LetterboxdList[] = [];
+		for (const list of lists) {
+			if (
+				skipExisting &&
+				findListNote(existing, list, getListNotePath(plugin, list), new Set())
+			) {
+				result.skipped++;
+				continue;
+			}
+			pendingLists.push(await completeList(list));
+		}
+		if (pendingLists.length === 0) {
+			return result;
+		}
+
+		const films = new Map<string, { filmTitle: string; filmYear: number; uri: string }>();
+		for (const film of pendingLists.flatMap((list) => list.films)) {
+			if (film.uri && !films.has(film.uri)) films.set(film.uri, film);
+		}
+		const filmResult = await importFilmStatuses(
+			plugin,
+			[...films.values()].map((film) => ({
+				filmTitle: film.filmTitle,
+				filmYear: film.filmYear,
+				uri: film.uri,
+				watched: false,
+				watchlist: false,
+				rating: null,
+				liked: false,
+			}))
+		);
+		result.written.push(...filmResult.written);
+		const filmLinks = new Map<string, string>();
+		for (const [uri, file] of filmResult.files) {
+			filmLinks.set(uri, file.path.replace(/\.md$/, ""));
+		}
+
+		const handled = new Set<string>();
+
+		for (const list of pendingLists) {
+			try {
+				const content = renderListTemplate(listNoteTemplate, { list, filmLinks });
+				const filePath = getListNotePath(plugin, list);
+				const file = findListNote(existing, list, filePath, handled);
+
+				if (!file) {
+					let path = filePath;
+					for (let n = 2; vault.getAbstractFileByPath(path) !== null; n++) {
+						path = filePath.replace(/\.md$/, ` (${n}).md`);
+					}
+					const created = await vault.create(path, content);
+					handled.add(created.path);
+					result.written.push({
+						path: created.path,
+						change: "created",
+						hash: hashContent(content),
+					});
+					result.created++;
+					continue;
+				}
+
+				handled.add(file.path);
+				const rewrite = await planNoteRewrite(plugin, file, content, listNoteTemplate);
+				if (!rewrite.bodyChanged && !rewrite.frontmatterChanged) {
+					result.skipped++;
+					continue;
+				}
+				await applyNoteRewrite(plugin, rewrite);
+				mergeJournalFiles(result.written, [
+					{
+						path: file.path,
+						change: "modified",
+						hash: hashContent(await vault.read(file)),
+					},
+				]);
+				result.updated++;
+			} catch (error) {
+				console.error(`Letterboxd: Failed to write the note of list "${list.name}"`, error);
+				result.errors++;
+			}
+		}
+
+		notify(
+			buildResultMessage(result),
+			notificationLevel,
+			"result",
+			result.created > 0 || result.updated > 0
+		);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: List import failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd list import error:", error);
+	}
+
+	return result;
+}
+
+/**
+ * Fetches a list from its URL and writes its list note
+ * @param plugin - Plugin instance
+ * @param url - URL of the list on Letterboxd
+ * @returns Result with counts and written files
+ */
+export async function importListFromUrl(
+	plugin: LetterboxdPlugin,
+	url: string
+): Promise<ListNotesResult> {
+	const { notificationLevel } = plugin.settings;
+
+	let list: LetterboxdList;
+	try {
+		notify("Letterboxd: Fetching list...", notificationLevel, "progress");
+		list = await fetchList(url, (page, found) => {
+			if (page > 1) {
+				notify(
+					`Letterboxd: Fetching list page ${page} (${found} films so far)...`,
+					notificationLevel,
+					"progress"
+				);
+			}
+		});
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: List import failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd list fetch error:", error);
+		return { created: 0, updated: 0, skipped: 0, errors: 1, written: [] };
+	}
+
+	return importLists(plugin, [list]);
+}
+
+/**
+ * Builds a user-friendly result message
+ */
+function buildResultMessage(result: ListNotesResult): string {
+	const parts: string[] = [];
+	if (result.created > 0) parts.push(`${result.created} created`);
+	if (result.updated > 0) parts.push(`${result.updated} updated`);
+	if (result.skipped > 0) parts.push(`${result.skipped} unchanged`);
+	if (result.errors > 0) parts.push(`${result.errors} errors`);
+	return parts.length ? `Letterboxd lists: ${parts.join(", ")}` : "Letterboxd lists: No changes";
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { renderProfileTemplate } from "./profile-template";
+import type { ProfileNoteData } from "./profile-template";
+
+const DATA: ProfileNoteData = {
+	profile: {
+		username: "user",
+		url: "https://letterboxd.com/user/",
+		favorites: [
+			{
+				filmSlug: "heat-1995",
+				filmTitle: "Heat",
+				filmYear: 1995,
+				uri: "https://letterboxd.com/film/heat-1995/",
+			},
+			{
+				filmSlug: "thief",
+				filmTitle: "Thief",
+				filmYear: 0,
+				uri: "https://letterboxd.com/film/thief/",
+			},
+		],
+		filmsWatched: 1234,
+		filmsThisYear: 56,
+		listsCount: 3,
+		followers: 2048,
+	},
+	filmLinks: new Map([["https://letterboxd.com/film/heat-1995/", "Films/Heat (1995)"]]),
+};
+
+// ============================================================================
+// renderProfileTemplate
+// ============================================================================
+
+describe("renderProfileTemplate", () => {
+	it("renders the statistics", () => {
+		const rendered = renderProfileTemplate(
+			"{{username}}: {{filmsWatched}} films, {{filmsThisYear}} this year, {{listsCount}} lists, {{followers}} followers",
+			DATA
+		);
+
+		expect(rendered).toBe("user: 1234 films, 56 this year, 3 lists, 2048 followers");
+	});
+
+	it("links favourites to their Film note, or to Letterboxd without one", () => {
+		expect(renderProfileTemplate("{{favorites}}", DATA)).toBe(
+			"1. [[Films/Heat (1995)|Heat]] (1995)\n2. [Thief](https://letterboxd.com/film/thief/)"
+		);
+	});
+
+	it("renders each favourite on its own", () => {
+		const rendered = renderProfileTemplate(
+			"{{favorite1}}|{{favorite2}}|{{favorite3}}|{{favoriteTitles yaml=true}}",
+			DATA
+		);
+
+		expect(rendered).toBe(
+			'[[Films/Heat (1995)|Heat]]|[Thief](https://letterboxd.com/film/thief/)||["Heat", "Thief"]'
+		);
+	});
+});
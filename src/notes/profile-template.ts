@@ -0,0 +1,75 @@
+import type { LetterboxdProfile } from "../letterboxd/profile";
+import { createTemplateEngine } from "../template-engine";
+import type { RawValue } from "../template-engine";
+
+/**
+ * Data the profile note is rendered from
+ */
+export interface ProfileNoteData {
+	profile: LetterboxdProfile;
+	/** Vault path (without .md) of the Film note of each film, by Letterboxd URI */
+	filmLinks: Map<string, string>;
+}
+
+/**
+ * Returns a link to a favourite film: its Film note, or its Letterboxd page
+ * if it has none
+ */
+function favoriteLink(data: ProfileNoteData, index: number): string {
+	const film = data.profile.favorites[index];
+	if (!film) {
+		return "";
+	}
+	const title = film.filmTitle.replace(/([[\]])/g, "\\$1");
+	const target = data.filmLinks.get(film.uri);
+	return target ? `[[${target}|${title}]]` : `[${title}](${film.uri})`;
+}
+
+/**
+ * Map of template variable names to their accessor functions
+ */
+const PROFILE_ACCESSORS: Record<string, (data: ProfileNoteData) => RawValue> = {
+	username: (d) => d.profile.username,
+	url: (d) => d.profile.url,
+	filmsWatched: (d) => d.profile.filmsWatched,
+	filmsThisYear: (d) => d.profile.filmsThisYear,
+	listsCount: (d) => d.profile.listsCount,
+	followers: (d) => d.profile.followers,
+	favoriteTitles: (d) => d.profile.favorites.map((film) => film.filmTitle),
+	favorite1: (d) => favoriteLink(d, 0),
+	favorite2: (d) => favoriteLink(d, 1),
+	favorite3: (d) => favoriteLink(d, 2),
+	favorite4: (d) => favoriteLink(d, 3),
+};
+
+/**
+ * Special handler for favorites - generates the list of the favourite films
+ */
+function handleFavorites(data: ProfileNoteData): string {
+	return data.profile.favorites
+		.map((film, index) => {
+			const year = film.filmYear ? ` (${film.filmYear})` : "";
+			return `${index + 1}. ${favoriteLink(data, index)}${year}`;
+		})
+		.join("\n");
+}
+
+/**
+ * Create the profile template engine
+ */
+const profileEngine = createTemplateEngine({
+	accessors: PROFILE_ACCESSORS,
+	specialHandlers: {
+		favorites: handleFavorites,
+	},
+});
+
+/**
+ * Renders a template with the given profile data
+ * @param template - Template string with {{variables}} and {{#if}}...{{/if}} blocks
+ * @param data - Profile and the links to its favourites' Film notes
+ * @returns Rendered template string
+ */
+export function renderProfileTemplate(template: string, data: ProfileNoteData): string {
+	return profileEngine.render(template, data);
+}
@@ -0,0 +1,99 @@
+/**
+ * Profile Note
+ *
+ * Maintains one note per account with its Letterboxd profile: its four
+ * favourite films and its statistics, rendered from the profile note
+ * template. Favourites link to their Film note, matched by TMDB ID and
+ * created for missing films when TMDB is enabled.
+ *
+ * An existing note is rewritten through its managed regions like diary
+ * notes, so a profile note kept by hand only changes between the markers.
+ */
+
+import { normalizePath, TFile } from "obsidian";
+import type LetterboxdPlugin from "../main";
+import type { JournalFile, LetterboxdAccount } from "../types";
+import { fetchProfile } from "../letterboxd/profile";
+import { importFilmStatuses } from "./film-status";
+import { mergeJournalFiles } from "./journal";
+import { renderProfileTemplate } from "./profile-template";
+import { planNoteRewrite, applyNoteRewrite } from "./writer";
+import { ensureFolderExists } from "../utils/vault";
+import { notify } from "../utils/notify";
+import { hashContent } from "../utils/hash";
+
+/**
+ * Fetches the profile of an account and writes its profile note
+ * @param plugin - Plugin instance
+ * @param account - Account whose profile is synced
+ * @returns Files written (the profile note and Film notes), for the sync journal
+ */
+export async function syncProfile(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<JournalFile[]> {
+	const { vault } = plugin.app;
+	const { username, profileNotePath } = account;
+	const { profileNoteTemplate, notificationLevel } = plugin.settings;
+	const written: JournalFile[] = [];
+
+	if (!username) {
+		notify("Letterboxd: Please set your username in settings", notificationLevel, "error");
+		return written;
+	}
+
+	try {
+		notify("Letterboxd: Fetching profile...", notificationLevel, "progress");
+		const profile = await fetchProfile(username);
+
+		const filmResult = await importFilmStatuses(
+			plugin,
+			profile.favorites.map((film) => ({
+				filmTitle: film.filmTitle,
+				filmYear: film.filmYear,
+				uri: film.uri,
+				watched: false,
+				watchlist: false,
+				rating: null,
+				liked: false,
+			}))
+		);
+		written.push(...filmResult.written);
+		const filmLinks = new Map<string, string>();
+		for (const [uri, file] of filmResult.files) {
+			filmLinks.set(uri, file.path.replace(/\.md$/, ""));
+		}
+
+		const content = renderProfileTemplate(profileNoteTemplate, { profile, filmLinks });
+		const path = normalizePath(profileNotePath);
+		const file = vault.getAbstractFileByPath(path);
+
+		if (!(file instanceof TFile)) {
+			const folderPath = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+			if (folderPath) {
+				await ensureFolderExists(plugin, folderPath);
+			}
+			const created = await vault.create(path, content);
+			written.push({ path: created.path, change: "created", hash: hashContent(content) });
+			notify("Letterboxd profile: Note created", notificationLevel, "result", true);
+			return written;
+		}
+
+		const rewrite = await planNoteRewrite(plugin, file, content, profileNoteTemplate);
+		if (!rewrite.bodyChanged && !rewrite.frontmatterChanged) {
+			notify("Letterboxd profile: No changes", notificationLevel, "result");
+			return written;
+		}
+		await applyNoteRewrite(plugin, rewrite);
+		mergeJournalFiles(written, [
+			{ path: file.path, change: "modified", hash: hashContent(await vault.read(file)) },
+		]);
+		notify("Letterboxd profile: Note updated", notificationLevel, "result", true);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: Profile sync failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd profile sync error:", error);
+	}
+
+	return written;
+}
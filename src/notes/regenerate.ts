@@ -0,0 +1,224 @@
+/**
+ * Regenerating notes from the current template
+ *
+ * Re-renders existing diary or Film notes after the template changed. Data
+ * comes from the source cache (what the note was last rendered from) and, for
+ * diary notes, from the note's own frontmatter. Nothing is written until the
+ * planned changes have been reviewed (see RegenerateNotesModal).
+ */
+
+import type LetterboxdPlugin from "../main";
+import type { LetterboxdEntry } from "../types";
+import type { TMDBMovie } from "../tmdb/types";
+import { getGuidIndex, renderDiaryNote } from "./sync";
+import { entryFromFrontmatter, completeMissingFields } from "./template";
+import { planNoteRewrite, applyNoteRewrite } from "./writer";
+import type { NoteRewrite } from "./writer";
+import { getExistingFilmNotes } from "../tmdb/sync";
+import { fetchTMDBMovie, templateNeedsCredits } from "../tmdb/api";
+import { renderTMDBTemplate } from "../tmdb/template";
+import { notify } from "../utils/notify";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Which notes to regenerate */
+export type RegenerationTarget = "diary" | "film";
+
+/**
+ * Planned regeneration of a single note
+ */
+export interface RegenerationPlan extends NoteRewrite {
+	/** Why the change deserves a closer look; such notes are not selected by default */
+	warning: string | null;
+}
+
+/** Entry with every field empty, completed from frontmatter and cache */
+const EMPTY_ENTRY: LetterboxdEntry = {
+	filmTitle: "",
+	filmYear: 0,
+	userRatingNo: null,
+	userRatingStars: "",
+	watchedDate: "",
+	rewatch: false,
+	link: "",
+	tmdbId: "",
+	posterUrl: "",
+	guid: "",
+	review: "",
+	reviewText: "",
+	pubDate: "",
+	containsSpoilers: false,
+	liked: false,
+	tags: [],
+};
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Builds the warning shown for a planned regeneration, if any
+ */
+function describeRisk(rewrite: NoteRewrite, fromCache: boolean): string | null {
+	const warnings: string[] = [];
+	if (!fromCache) {
+		warnings.push("No cached source data, rebuilt from frontmatter only");
+	}
+	if (rewrite.unmanagedBodyReplaced) {
+		warnings.push("The whole note body is replaced");
+	}
+	return warnings.length > 0 ? warnings.join(". ") : null;
+}
+
+/**
+ * Plans the regeneration of all diary notes, each with the template of its account
+ */
+async function planDiaryRegeneration(plugin: LetterboxdPlugin): Promise<RegenerationPlan[]> {
+	const { metadataCache } = plugin.app;
+	const plans: RegenerationPlan[] = [];
+	// Notes without letterboxd_user are indexed by every account sharing their
+	// folder: each note is planned once
+	const planned = new Set<string>();
+
+	for (const account of plugin.settings.accounts) {
+		const { noteTemplate } = account;
+		const guidIndex = await getGuidIndex(plugin, account);
+		for (const [guid, file] of guidIndex) {
+			if (planned.has(file.path)) continue;
+			planned.add(file.path);
+
+			try {
+				const frontmatter = metadataCache.getFileCache(file)?.frontmatter ?? {};
+				const cached = await plugin.sourceCache.getEntry(guid);
+
+				// Cached data wins: frontmatter was rendered with an older template,
+				// so its keys may not mean what the current template says. Fields
+				// the cached source lacked are still read from the note.
+				const entry: LetterboxdEntry = completeMissingFields(
+					{
+						...EMPTY_ENTRY,
+						...entryFromFrontmatter(noteTemplate, frontmatter),
+						...cached,
+						guid,
+					},
+					noteTemplate,
+					frontmatter
+				);
+
+				const rendered = renderDiaryNote(account, entry);
+				const rewrite = await planNoteRewrite(plugin, file, rendered, noteTemplate, true);
+				if (rewrite.newContent !== rewrite.oldContent) {
+					plans.push({ ...rewrite, warning: describeRisk(rewrite, cached !== null) });
+				}
+			} catch (error) {
+				console.error(`Letterboxd: Failed to regenerate "${file.path}"`, error);
+			}
+		}
+	}
+
+	return plans;
+}
+
+/**
+ * Plans the regeneration of all Film notes
+ * Films missing from the cache are fetched from TMDB when an API key is set.
+ */
+async function planFilmRegeneration(plugin: LetterboxdPlugin): Promise<RegenerationPlan[]> {
+	const { tmdbApiKey, tmdbLanguage, tmdbNoteTemplate, notificationLevel } = plugin.settings;
+	const includeCredits = templateNeedsCredits(tmdbNoteTemplate);
+	const plans: RegenerationPlan[] = [];
+
+	const notes = (await getExistingFilmNotes(plugin)).filter((n) => n.tmdbId);
+	for (const [index, { file, tmdbId }] of notes.entries()) {
+		if (!tmdbId) continue;
+
+		try {
+			let movie: TMDBMovie | null = await plugin.sourceCache.getFilm(tmdbId);
+
+			// Cached without credits but the template now uses them: refetch
+			const lacksCredits = movie !== null && includeCredits && movie.cast.length === 0;
+			if ((movie === null || lacksCredits) && tmdbApiKey) {
+				notify(
+					`TMDB: Fetching film ${index + 1}/${notes.length}...`,
+					notificationLevel,
+					"progress"
+				);
+				movie = await fetchTMDBMovie(tmdbId, tmdbApiKey, tmdbLanguage, includeCredits);
+				await plugin.sourceCache.setFilm(movie);
+			}
+
+			if (!movie) {
+				continue; // Film data can't be rebuilt from frontmatter alone
+			}
+
+			const rendered = renderTMDBTemplate(tmdbNoteTemplate, movie);
+			const rewrite = await planNoteRewrite(plugin, file, rendered, tmdbNoteTemplate, true);
+			if (rewrite.newContent !== rewrite.oldContent) {
+				plans.push({ ...rewrite, warning: describeRisk(rewrite, true) });
+			}
+		} catch (error) {
+			console.error(`TMDB: Failed to regenerate "${file.path}"`, error);
+		}
+	}
+
+	await plugin.sourceCache.save();
+	return plans;
+}
+
+/**
+ * Plans the regeneration of diary or Film notes from the current template
+ * @param plugin - Plugin instance
+ * @param target - Which notes to regenerate
+ * @returns Planned changes for notes that would change
+ */
+export async function planRegeneration(
+	plugin: LetterboxdPlugin,
+	target: RegenerationTarget
+): Promise<RegenerationPlan[]> {
+	notify(
+		"Letterboxd: Comparing notes with the template...",
+		plugin.settings.notificationLevel,
+		"progress"
+	);
+	return target === "diary" ? planDiaryRegeneration(plugin) : planFilmRegeneration(plugin);
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/**
+ * Writes the selected regeneration plans to the vault
+ * @param plugin - Plugin instance
+ * @param plans - Plans confirmed by the user
+ */
+export async function applyRegeneration(
+	plugin: LetterboxdPlugin,
+	plans: RegenerationPlan[]
+): Promise<void> {
+	const { notificationLevel } = plugin.settings;
+	let updated = 0;
+	let errors = 0;
+
+	for (const plan of plans) {
+		try {
+			await applyNoteRewrite(plugin, plan);
+			updated++;
+		} catch (error) {
+			console.error(`Letterboxd: Failed to regenerate "${plan.file.path}"`, error);
+			errors++;
+		}
+	}
+
+	const parts: string[] = [];
+	if (updated > 0) parts.push(`${updated} regenerated`);
+	if (errors > 0) parts.push(`${errors} errors`);
+	notify(
+		parts.length ? `Letterboxd: ${parts.join(", ")}` : "Letterboxd: No changes",
+		notificationLevel,
+		"result",
+		updated > 0
+	);
+}
@@ -0,0 +1,97 @@
+/**
+ * Source Data Cache
+ *
+ * Keeps the data each note was last rendered from (Letterboxd entries by GUID,
+ * TMDB movies by TMDB ID) in a JSON file in the plugin folder. Notes can then be
+ * re-rendered from a new template without refetching, and without losing fields
+ * that only live in the note body (e.g., the review).
+ */
+
+import type { DataAdapter } from "obsidian";
+import type { LetterboxdEntry } from "../types";
+import type { TMDBMovie } from "../tmdb/types";
+
+/** Name of the cache file inside the plugin folder */
+export const SOURCE_CACHE_FILENAME = "source-cache.json";
+
+interface SourceCacheData {
+	/** Letterboxd entries by GUID */
+	entries: Record<string, LetterboxdEntry>;
+	/** TMDB movies by TMDB ID */
+	films: Record<string, TMDBMovie>;
+}
+
+/**
+ * Lazily loaded cache of note source data
+ * Writes are kept in memory until save() is called (once per sync).
+ */
+export class SourceCache {
+	private data: SourceCacheData | null = null;
+	private dirty = false;
+
+	constructor(
+		private adapter: DataAdapter,
+		private path: string
+	) {}
+
+	private async load(): Promise<SourceCacheData> {
+		if (this.data) {
+			return this.data;
+		}
+
+		this.data = { entries: {}, films: {} };
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const parsed = JSON.parse(
+					await this.adapter.read(this.path)
+				) as Partial<SourceCacheData> | null;
+				this.data.entries = parsed?.entries ?? {};
+				this.data.films = parsed?.films ?? {};
+			}
+		} catch (error) {
+			// A corrupt cache only costs re-rendering from frontmatter, start over
+			console.warn("Letterboxd: Could not read source cache, starting empty", error);
+		}
+		return this.data;
+	}
+
+	async getEntry(guid: string): Promise<LetterboxdEntry | null> {
+		const data = await this.load();
+		return data.entries[guid] ?? null;
+	}
+
+	async setEntry(entry: LetterboxdEntry): Promise<void> {
+		const data = await this.load();
+		data.entries[entry.guid] = entry;
+		this.dirty = true;
+	}
+
+	async getFilm(tmdbId: string): Promise<TMDBMovie | null> {
+		const data = await this.load();
+		return data.films[tmdbId] ?? null;
+	}
+
+	async setFilm(movie: TMDBMovie): Promise<void> {
+		const data = await this.load();
+		data.films[String(movie.tmdbId)] = movie;
+		this.dirty = true;
+	}
+
+	/**
+	 * Writes pending changes to disk
+	 * Failures are logged, not thrown: the cache is an optimization and must
+	 * never make a sync fail.
+	 */
+	async save(): Promise<void> {
+		if (!this.data || !this.dirty) {
+			return;
+		}
+
+		try {
+			await this.adapter.write(this.path, JSON.stringify(this.data));
+			this.dirty = false;
+		} catch (error) {
+			console.error("Letterboxd: Failed to save source cache", error);
+		}
+	}
+}
@@ -0,0 +1,413 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import { backfillDiary, importFromCSV, renderDiaryNote, resumeCSVImport, syncDiary } from "./sync";
+import { fetchLetterboxdPageData } from "../letterboxd/fetcher";
+import { fetchLetterboxdRSS } from "../letterboxd/parser";
+import { fetchDiaryHistory } from "../letterboxd/diary-pages";
+import { RequestBudgetError } from "../utils/request-scheduler";
+import type LetterboxdPlugin from "../main";
+import type { LetterboxdAccount, LetterboxdEntry, PluginState } from "../types";
+
+vi.mock("../letterboxd/fetcher", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../letterboxd/fetcher")>()),
+	fetchLetterboxdPageData: vi.fn(),
+}));
+
+vi.mock("../letterboxd/parser", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../letterboxd/parser")>()),
+	fetchLetterboxdRSS: vi.fn(),
+	fetchEntryTags: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock("../letterboxd/diary-pages", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../letterboxd/diary-pages")>()),
+	fetchDiaryHistory: vi.fn(),
+}));
+
+// The mocked classes take their path (the real ones have no public constructor)
+const MockTFile = TFile as unknown as new (path: string) => TFile;
+const MockTFolder = TFolder as unknown as new (path: string) => TFolder;
+
+const ACCOUNT: LetterboxdAccount = {
+	username: "e2e_test_acc",
+	folderPath: "Letterboxd",
+	filenameTemplate: "{{watchedDate}} - {{filmTitle}}",
+	noteTemplate: `---
+film: "{{filmTitle}}"
+letterboxd_guid: {{guid}}
+---
+
+# {{filmTitle}}
+
+TMDB: {{tmdbId}}
+
+{{review}}
+`,
+	syncOnStartup: true,
+	syncReviewsOnly: false,
+	syncListsFromRss: false,
+	profileNotePath: "Letterboxd/My film profile.md",
+};
+
+const ENTRY: LetterboxdEntry = {
+	filmTitle: "Die Hard",
+	filmYear: 1988,
+	userRatingNo: 4.5,
+	userRatingStars: "★★★★½",
+	watchedDate: "2025-12-25",
+	rewatch: false,
+	link: "https://letterboxd.com/e2e_test_acc/film/die-hard/1/",
+	tmdbId: "562",
+	posterUrl: "",
+	guid: "letterboxd-watch-1119837402",
+	review: "",
+	reviewText: "",
+	pubDate: "",
+	containsSpoilers: false,
+	liked: false,
+	tags: [],
+};
+
+// ============================================================================
+// renderDiaryNote
+// ============================================================================
+
+describe("renderDiaryNote", () => {
+	it("adds the username of the account to the frontmatter", () => {
+		const content = renderDiaryNote(ACCOUNT, ENTRY);
+
+		expect(content).toContain("letterboxd_guid: letterboxd-watch-1119837402\n");
+		expect(content).toContain("letterboxd_user: e2e_test_acc\n");
+		expect(content).toContain("\n# Die Hard\n");
+	});
+
+	it("keeps the username written by the template", () => {
+		const noteTemplate = ACCOUNT.noteTemplate.replace(
+			"letterboxd_guid:",
+			"letterboxd_user: family\nletterboxd_guid:"
+		);
+
+		const content = renderDiaryNote({ ...ACCOUNT, noteTemplate }, ENTRY);
+
+		expect(content).toContain("letterboxd_user: family\n");
+		expect(content).not.toContain("letterboxd_user: e2e_test_acc");
+	});
+});
+
+// ============================================================================
+// importFromCSV
+// ============================================================================
+
+const DIARY_CSV = [
+	"Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date",
+	"2024-01-02,Heat,1995,https://boxd.it/abc1,4.5,,,2024-01-01",
+].join("\n");
+
+const PAGE_DATA = {
+	viewingId: "1119837402",
+	tmdbId: "949",
+	containsSpoilers: false,
+	posterUrl: "",
+	liked: false,
+	reviewHtml: "",
+	tags: [],
+};
+
+/**
+ * Builds a plugin with an empty vault, keeping the notes it writes in memory
+ */
+function createPlugin(): LetterboxdPlugin & { state: PluginState } {
+	const contents = new Map<string, string>();
+	const sources = new Map<string, LetterboxdEntry>();
+	const folder = new MockTFolder(ACCOUNT.folderPath);
+	const read = (file: TFile) => Promise.resolve(contents.get(file.path) ?? "");
+
+	return {
+		app: {
+			vault: {
+				getAbstractFileByPath: (path: string) =>
+					path === folder.path
+						? folder
+						: (folder.children.find((file) => file.path === path) ?? null),
+				createFolder: vi.fn(() => Promise.resolve()),
+				create: vi.fn((path: string, content: string) => {
+					const file = new MockTFile(path);
+					contents.set(path, content);
+					folder.children.push(file);
+					return Promise.resolve(file);
+				}),
+				read,
+				cachedRead: read,
+				modify: (file: TFile, content: string) => {
+					contents.set(file.path, content);
+					return Promise.resolve();
+				},
+				adapter: {
+					read: (path: string) => Promise.resolve(contents.get(path) ?? ""),
+					write: (path: string, content: string) => {
+						contents.set(path, content);
+						return Promise.resolve();
+					},
+					remove: (path: string) => {
+						contents.delete(path);
+						return Promise.resolve();
+					},
+				},
+			},
+			metadataCache: { getFileCache: () => null },
+			fileManager: { processFrontMatter: vi.fn(() => Promise.resolve()) },
+		},
+		manifest: { dir: "plugins/letterboxd-mirror" },
+		settings: {
+			accounts: [ACCOUNT],
+			guidFrontmatterKey: "letterboxd_guid",
+			notificationLevel: "silent",
+			updateExistingNotes: false,
+			tmdbFolderPath: "Films",
+			tmdbIdFrontmatterKey: "tmdb_id",
+		},
+		state: {
+			syncJournal: [],
+			csvImportCheckpoint: null,
+			failedEnrichments: [],
+			importedExports: [],
+		},
+		sourceCache: {
+			getEntry: (guid: string) => Promise.resolve(sources.get(guid) ?? null),
+			setEntry: (entry: LetterboxdEntry) => {
+				sources.set(entry.guid, entry);
+				return Promise.resolve();
+			},
+			save: () => Promise.resolve(),
+		},
+		saveSettings: vi.fn(() => Promise.resolve()),
+	} as unknown as LetterboxdPlugin;
+}
+
+describe("importFromCSV", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	it("reports an import with every row written as complete", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue(PAGE_DATA);
+		const plugin = createPlugin();
+
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.created).toBe(1);
+		expect(result.interrupted).toBe(false);
+	});
+
+	it("leaves out the notes of another account sharing the diary folder", async () => {
+		vi.mocked(fetchLetterboxdPageData)
+			.mockResolvedValueOnce({ ...PAGE_DATA, viewingId: "1" })
+			.mockResolvedValueOnce({ ...PAGE_DATA, viewingId: "2" });
+		const plugin = createPlugin();
+		const other = { ...ACCOUNT, username: "family" };
+		plugin.settings.accounts.push(other);
+
+		await importFromCSV(plugin, other, DIARY_CSV, null);
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.created).toBe(1);
+		expect(result.skipped).toBe(0);
+	});
+
+	it("keeps the checkpoint of an import with rows written without their data", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(new Error("HTTP 500"));
+		const plugin = createPlugin();
+
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.created).toBe(1);
+		expect(result.interrupted).toBe(true);
+		expect(plugin.state.csvImportCheckpoint?.processed).toEqual([]);
+	});
+
+	it("completes the rows written without their data when resumed", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(new Error("HTTP 500"));
+		const plugin = createPlugin();
+		await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+		vi.mocked(fetchLetterboxdPageData).mockClear().mockResolvedValue(PAGE_DATA);
+
+		const result = await resumeCSVImport(plugin);
+
+		expect(fetchLetterboxdPageData).toHaveBeenCalledWith("https://boxd.it/abc1");
+		expect(result.created).toBe(0);
+		expect(result.updated).toBe(1);
+		expect(result.interrupted).toBe(false);
+		expect(plugin.state.failedEnrichments).toEqual([]);
+	});
+
+	it("imports the rows left out by the request budget when resumed", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(
+			new RequestBudgetError("letterboxd.com")
+		);
+		const plugin = createPlugin();
+
+		const interrupted = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue(PAGE_DATA);
+		const resumed = await resumeCSVImport(plugin);
+
+		expect(interrupted.created).toBe(0);
+		expect(interrupted.interrupted).toBe(true);
+		expect(plugin.state.failedEnrichments).toEqual([]);
+		expect(resumed.created).toBe(1);
+		expect(resumed.interrupted).toBe(false);
+	});
+
+	it("keeps the checkpoint of an import with rows not written", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue(PAGE_DATA);
+		const plugin = createPlugin();
+		vi.mocked(plugin.app.vault.create).mockRejectedValue(new Error("Disk full"));
+
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.errors).toBe(1);
+		expect(result.interrupted).toBe(true);
+		expect(plugin.state.csvImportCheckpoint).not.toBeNull();
+	});
+
+	it("keeps the checkpoint of an import that failed", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue(PAGE_DATA);
+		const plugin = createPlugin();
+		plugin.sourceCache.save = () => Promise.reject(new Error("Read-only vault"));
+
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.interrupted).toBe(true);
+		expect(plugin.state.csvImportCheckpoint?.processed).toEqual(["heat|1995|2024-01-01"]);
+	});
+
+	it("leaves out the rows written before the interruption when resumed", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockImplementation((uri) =>
+			uri.endsWith("/abc1")
+				? Promise.resolve(PAGE_DATA)
+				: Promise.reject(new RequestBudgetError("letterboxd.com"))
+		);
+		const plugin = createPlugin();
+		plugin.settings.updateExistingNotes = true;
+		const csv = `${DIARY_CSV}\n2024-01-03,Ran,1985,https://boxd.it/abc2,5,Yes,,2024-01-02`;
+
+		await importFromCSV(plugin, ACCOUNT, csv, null);
+		vi.mocked(fetchLetterboxdPageData)
+			.mockReset()
+			.mockResolvedValue({ ...PAGE_DATA, viewingId: "1119837403", tmdbId: "11645" });
+		const result = await resumeCSVImport(plugin);
+
+		expect(fetchLetterboxdPageData).toHaveBeenCalledTimes(1);
+		expect(fetchLetterboxdPageData).toHaveBeenCalledWith("https://boxd.it/abc2");
+		expect(result.created).toBe(1);
+		expect(result.skipped).toBe(0);
+	});
+
+	it("goes on importing when the checkpoint can't be saved", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockResolvedValue(PAGE_DATA);
+		const plugin = createPlugin();
+		// The checkpoint is saved when the import starts and after each batch of notes
+		vi.mocked(plugin.saveSettings)
+			.mockRejectedValueOnce(new Error("data.json is read-only"))
+			.mockRejectedValueOnce(new Error("data.json is read-only"));
+
+		const result = await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+
+		expect(result.created).toBe(1);
+		expect(result.interrupted).toBe(false);
+		expect(plugin.state.failedEnrichments).toEqual([]);
+	});
+});
+
+// ============================================================================
+// syncDiary
+// ============================================================================
+
+describe("syncDiary", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	it("completes the note of an entry imported without its Letterboxd data", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(new Error("HTTP 500"));
+		const plugin = createPlugin();
+		await importFromCSV(plugin, ACCOUNT, DIARY_CSV, null);
+		const note = await vi.mocked(plugin.app.vault.create).mock.results[0].value;
+		expect(plugin.state.failedEnrichments).toHaveLength(1);
+		vi.mocked(fetchLetterboxdRSS).mockResolvedValue({
+			entries: [{ ...ENTRY, filmTitle: "Heat", filmYear: 1995, watchedDate: "2024-01-01" }],
+			lists: [],
+		});
+
+		const result = await syncDiary(plugin, ACCOUNT);
+
+		expect(result.created).toBe(0);
+		expect(result.updated).toBe(1);
+		expect(plugin.app.fileManager.processFrontMatter).toHaveBeenCalledWith(
+			note,
+			expect.any(Function)
+		);
+		expect(plugin.state.failedEnrichments).toEqual([]);
+	});
+});
+
+// ============================================================================
+// backfillDiary
+// ============================================================================
+
+describe("backfillDiary", () => {
+	beforeEach(() => {
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	it("keeps the imported review when completing a note from the diary pages", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(new Error("HTTP 500"));
+		const plugin = createPlugin();
+		const reviewsCSV = [
+			"Date,Name,Year,Letterboxd URI,Rating,Rewatch,Review,Tags,Watched Date",
+			"2024-01-02,Heat,1995,https://boxd.it/abc1,4.5,,The diner scene.,,2024-01-01",
+		].join("\n");
+		await importFromCSV(plugin, ACCOUNT, DIARY_CSV, reviewsCSV);
+		const note = await vi.mocked(plugin.app.vault.create).mock.results[0].value;
+		vi.mocked(fetchDiaryHistory).mockResolvedValue([
+			{
+				...ENTRY,
+				filmTitle: "Heat",
+				filmYear: 1995,
+				watchedDate: "2024-01-01",
+				tmdbId: "949",
+				missingFields: ["posterUrl", "review", "reviewText", "containsSpoilers"],
+			},
+		]);
+
+		const result = await backfillDiary(plugin, ACCOUNT);
+
+		expect(result.updated).toBe(1);
+		const content = await plugin.app.vault.read(note);
+		expect(content).toContain("TMDB: 949");
+		expect(content).toContain("The diner scene.");
+	});
+
+	it("counts notes the upgrade leaves unchanged as skipped", async () => {
+		vi.mocked(fetchLetterboxdPageData).mockRejectedValue(new Error("HTTP 500"));
+		const plugin = createPlugin();
+		await importFromCSV(
+			plugin,
+			{ ...ACCOUNT, noteTemplate: "---\nletterboxd_guid: {{guid}}\n---\n" },
+			DIARY_CSV,
+			null
+		);
+		vi.mocked(fetchDiaryHistory).mockResolvedValue([
+			{ ...ENTRY, filmTitle: "Heat", filmYear: 1995, watchedDate: "2024-01-01" },
+		]);
+
+		const result = await backfillDiary(plugin, {
+			...ACCOUNT,
+			noteTemplate: "---\nletterboxd_guid: {{guid}}\n---\n",
+		});
+
+		expect(result.updated).toBe(0);
+		expect(result.skipped).toBe(1);
+		expect(plugin.state.failedEnrichments).toEqual([]);
+	});
+});
@@ -1,13 +1,45 @@
 import { normalizePath, TFile, TFolder } from "obsidian";
 import type LetterboxdPlugin from "../main";
-import type { LetterboxdEntry } from "../types";
-import { fetchLetterboxdRSS } from "../letterboxd/parser";
-import { parseLetterboxdExport } from "../letterboxd/csv-parser";
+import type {
+	LetterboxdAccount,
+	LetterboxdEntry,
+	PlannedAction,
+	JournalFile,
+	CSVImportCheckpoint,
+	FailedEnrichment,
+} from "../types";
+import { fetchEntryTags, fetchLetterboxdRSS } from "../letterboxd/parser";
+import {
+	parseLetterboxdExport,
+	parseLetterboxdExportOffline,
+	applyPageData,
+	markLikedEntries,
+	createFallbackGuid,
+	isFallbackGuid,
+	createMergeKey,
+} from "../letterboxd/csv-parser";
+import { fetchLetterboxdPageData } from "../letterboxd/fetcher";
+import type { CSVRowIdentity } from "../letterboxd/csv-parser";
+import { fetchDiaryHistory } from "../letterboxd/diary-pages";
 import { getExistingTmdbIds } from "../tmdb/sync";
-import { renderTemplate, generateFilename } from "./template";
-import { ensureFolderExists } from "../utils/vault";
-import { createFrontmatterKeyRegex } from "../utils/frontmatter";
+import {
+	renderTemplate,
+	generateFilename,
+	entryFromFrontmatter,
+	completeMissingFields,
+} from "./template";
+import { planNoteRewrite, applyNoteRewrite } from "./writer";
+import { importLists } from "./lists";
+import { mergeJournalFiles } from "./journal";
+import { ensureFolderExists, isPathTaken } from "../utils/vault";
+import {
+	createFrontmatterKeyRegex,
+	appendFrontmatterLine,
+	splitFrontmatter,
+} from "../utils/frontmatter";
+import { getFrontmatterVariables } from "../template-engine";
 import { notify } from "../utils/notify";
+import { hashContent } from "../utils/hash";
 
 // ============================================================================
 // Types
@@ -15,10 +47,27 @@ import { notify } from "../utils/notify";
 
 export interface SyncResult {
 	created: number;
+	/** Existing notes rewritten because the entry changed on Letterboxd */
+	updated: number;
 	skipped: number;
 	errors: number;
 	/** TMDB IDs of newly created entries (for triggering TMDB sync) */
 	createdTmdbIds: string[];
+	/** TMDB IDs of the entries created or completed, for their Film notes' watched status */
+	loggedTmdbIds: string[];
+	/** TMDB IDs of the liked entries written, for their Film notes' liked property */
+	likedTmdbIds: string[];
+	/** Rating (1-10 scale) of the latest rated entry written of each film, by TMDB ID */
+	ratings: Record<string, { rating: number; watchedDate: string }>;
+	/** Vault changes collected instead of written (dry run only) */
+	planned: PlannedAction[];
+	/** Files written, for the sync journal */
+	written: JournalFile[];
+	/**
+	 * Whether entries were left unwritten or written without their Letterboxd
+	 * data (CSV imports keep their checkpoint to be resumed)
+	 */
+	interrupted: boolean;
 }
 
 // ============================================================================
@@ -26,19 +75,71 @@ export interface SyncResult {
 // ============================================================================
 
 /**
- * Gets all existing GUIDs from markdown files in the Letterboxd folder
+ * A diary note in the vault and the viewing it was written from
  */
-async function getExistingGuids(plugin: LetterboxdPlugin): Promise<Set<string>> {
+export interface DiaryNoteRef {
+	file: TFile;
+	/** Letterboxd URI of the viewing (boxd.it link for CSV imports), empty if unknown */
+	link: string;
+	/** Date watched (YYYY-MM-DD), empty if unknown */
+	watchedDate: string;
+	/** Film title and year, empty/0 if unknown */
+	filmTitle: string;
+	filmYear: number;
+	/** Whether the note has the pending enrichment marker */
+	pending: boolean;
+}
+
+/**
+ * Frontmatter key marking notes created without their Letterboxd data
+ * (viewing ID, TMDB ID, poster), see enrichPendingNotes
+ */
+const PENDING_ENRICHMENT_KEY = "letterboxd_pending_enrichment";
+
+/** Frontmatter key recording the account a diary note belongs to */
+export const ACCOUNT_KEY = "letterboxd_user";
+
+/** Template variables read back from diary note frontmatter for the index */
+const INDEXED_VARIABLES = new Set([
+	"link",
+	"watchedDate",
+	"watchedDatetime",
+	"filmTitle",
+	"filmYear",
+]);
+
+/**
+ * Builds an index of existing diary notes by GUID from the diary folder of an account
+ * Besides the file, each note's Letterboxd URI, watched date and film are
+ * recorded, from the source cache or else from the note's frontmatter.
+ * Notes whose letterboxd_user is another configured account are left out, in
+ * case accounts share a folder; notes without it are kept.
+ */
+export async function getDiaryIndex(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<Map<string, DiaryNoteRef>> {
 	const { vault } = plugin.app;
-	const { folderPath, guidFrontmatterKey } = plugin.settings;
-	const guids = new Set<string>();
+	const { guidFrontmatterKey } = plugin.settings;
+	const { folderPath, noteTemplate } = account;
+	const notes = new Map<string, DiaryNoteRef>();
 
 	const folder = vault.getAbstractFileByPath(folderPath);
 	if (!(folder instanceof TFolder)) {
-		return guids;
+		return notes;
 	}
 
 	const guidRegex = createFrontmatterKeyRegex(guidFrontmatterKey);
+	const pendingRegex = createFrontmatterKeyRegex(PENDING_ENRICHMENT_KEY);
+	const accountRegex = createFrontmatterKeyRegex(ACCOUNT_KEY);
+	const otherUsernames = new Set(
+		plugin.settings.accounts
+			.map((other) => other.username)
+			.filter((username) => username !== account.username)
+	);
+	const indexedKeys = Object.entries(getFrontmatterVariables(noteTemplate))
+		.filter(([, variable]) => INDEXED_VARIABLES.has(variable))
+		.map(([key]) => ({ key, regex: createFrontmatterKeyRegex(key) }));
 	const files = folder.children.filter(
 		(f): f is TFile => f instanceof TFile && f.extension === "md"
 	);
@@ -47,35 +148,408 @@ async function getExistingGuids(plugin: LetterboxdPlugin): Promise<Set<string>>
 		try {
 			const content = await vault.cachedRead(file);
 			const guidMatch = content.match(guidRegex);
-			if (guidMatch) {
-				guids.add(guidMatch[1].trim());
+			if (!guidMatch) continue;
+
+			const owner = content
+				.match(accountRegex)?.[1]
+				.trim()
+				.replace(/^(["'])(.*)\1$/, "$2");
+			if (owner && otherUsernames.has(owner)) continue;
+
+			const guid = guidMatch[1].trim();
+			const frontmatter: Record<string, unknown> = {};
+			for (const { key, regex } of indexedKeys) {
+				const match = content.match(regex);
+				if (match) {
+					frontmatter[key] = match[1].trim().replace(/^(["'])(.*)\1$/, "$2");
+				}
 			}
+			const entry = {
+				...entryFromFrontmatter(noteTemplate, frontmatter),
+				...(await plugin.sourceCache.getEntry(guid)),
+			};
+
+			notes.set(guid, {
+				file,
+				link: entry.link ?? "",
+				watchedDate: entry.watchedDate ?? "",
+				filmTitle: entry.filmTitle ?? "",
+				filmYear: entry.filmYear ?? 0,
+				pending: content.match(pendingRegex)?.[1].trim() === "true",
+			});
 		} catch {
 			// Skip unreadable files
 		}
 	}
 
-	return guids;
+	return notes;
+}
+
+/**
+ * Builds an index of existing diary notes by GUID from the diary folder of an account
+ */
+export async function getGuidIndex(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<Map<string, TFile>> {
+	return toGuidIndex(await getDiaryIndex(plugin, account));
+}
+
+/**
+ * Returns the account with a username, or the first account if none has it
+ * (e.g., for a checkpoint saved before multiple accounts)
+ */
+export function findAccount(
+	plugin: LetterboxdPlugin,
+	username: string | undefined
+): LetterboxdAccount {
+	const { accounts } = plugin.settings;
+	return (
+		accounts.find((account) => account.username.toLowerCase() === username?.toLowerCase()) ??
+		accounts[0]
+	);
+}
+
+/**
+ * Reduces a diary index to the files by GUID
+ */
+function toGuidIndex(notes: Map<string, DiaryNoteRef>): Map<string, TFile> {
+	return new Map([...notes].map(([guid, note]) => [guid, note.file]));
+}
+
+/**
+ * Creates a matcher telling whether a CSV row is already in the vault, without
+ * fetching its pages: by Letterboxd URI and watched date, or by film and
+ * watched date for notes synced from RSS (whose link is not the boxd.it URI)
+ * Notes still pending enrichment don't count, so their rows are fetched again.
+ */
+function createKnownRowMatcher(notes: Map<string, DiaryNoteRef>): (row: CSVRowIdentity) => boolean {
+	const uriKeys = new Set<string>();
+	const filmKeys = new Set<string>();
+	for (const note of notes.values()) {
+		if (!note.watchedDate || note.pending) continue;
+		if (note.link) {
+			uriKeys.add(toUriKey(note.link, note.watchedDate));
+		}
+		if (note.filmTitle && note.filmYear) {
+			filmKeys.add(toFilmKey(note.filmTitle, note.filmYear, note.watchedDate));
+		}
+	}
+
+	return (row) =>
+		uriKeys.has(toUriKey(row.uri, row.watchedDate)) ||
+		filmKeys.has(toFilmKey(row.filmTitle, row.filmYear, row.watchedDate));
+}
+
+/**
+ * Creates a finder for the note an entry was imported to under a fallback GUID:
+ * by Letterboxd URI and watched date, or by film and watched date for entries
+ * synced from RSS or the diary pages (whose link is not the boxd.it URI)
+ * The finder only returns notes still in the index under their fallback GUID.
+ * @returns The fallback GUID of the note, if any
+ */
+function createFallbackNoteFinder(
+	notes: Map<string, DiaryNoteRef>
+): (entry: LetterboxdEntry) => string | undefined {
+	const guidsByKey = new Map<string, string[]>();
+	const add = (key: string, guid: string): void => {
+		guidsByKey.set(key, [...(guidsByKey.get(key) ?? []), guid]);
+	};
+	for (const [guid, note] of notes) {
+		if (!isFallbackGuid(guid) || !note.watchedDate) continue;
+		if (note.link) {
+			add(toUriKey(note.link, note.watchedDate), guid);
+		}
+		if (note.filmTitle && note.filmYear) {
+			add(toFilmKey(note.filmTitle, note.filmYear, note.watchedDate), guid);
+		}
+	}
+
+	return (entry) =>
+		[
+			...(guidsByKey.get(toUriKey(entry.link, entry.watchedDate)) ?? []),
+			...(guidsByKey.get(toFilmKey(entry.filmTitle, entry.filmYear, entry.watchedDate)) ??
+				[]),
+		].find((guid) => notes.has(guid));
+}
+
+/**
+ * Key of a viewing by Letterboxd URI and watched date
+ */
+function toUriKey(link: string, watchedDate: string): string {
+	return `${link}|${watchedDate}`;
+}
+
+/**
+ * Key of a viewing by film and watched date
+ */
+function toFilmKey(filmTitle: string, filmYear: number, watchedDate: string): string {
+	return `${filmTitle.toLowerCase()}|${filmYear}|${watchedDate}`;
+}
+
+/**
+ * Describes the note written for an entry, for the diary index
+ */
+function toDiaryNoteRef(file: TFile, entry: LetterboxdEntry): DiaryNoteRef {
+	return {
+		file,
+		link: entry.link,
+		watchedDate: entry.watchedDate,
+		filmTitle: entry.filmTitle,
+		filmYear: entry.filmYear,
+		pending: isFallbackGuid(entry.guid),
+	};
+}
+
+/**
+ * Renders the diary note of an entry with the template of its account
+ * The note gets the account's username (letterboxd_user) unless the template
+ * already writes that key.
+ */
+export function renderDiaryNote(account: LetterboxdAccount, entry: LetterboxdEntry): string {
+	const content = renderTemplate(account.noteTemplate, entry);
+	if (createFrontmatterKeyRegex(ACCOUNT_KEY).test(splitFrontmatter(content).frontmatter ?? "")) {
+		return content;
+	}
+	return appendFrontmatterLine(content, ACCOUNT_KEY, account.username);
 }
 
 /**
  * Creates a note for a Letterboxd entry
+ * Entries under a fallback GUID get the pending enrichment marker.
+ * In a dry run the note is added to result.planned instead of written
+ * @returns The created file, or null in a dry run
  */
-async function createNote(plugin: LetterboxdPlugin, entry: LetterboxdEntry): Promise<void> {
+async function createNote(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	entry: LetterboxdEntry,
+	result: SyncResult,
+	dryRun: boolean
+): Promise<TFile | null> {
 	const { vault } = plugin.app;
-	const { folderPath, filenameTemplate, noteTemplate } = plugin.settings;
+	const { folderPath, filenameTemplate } = account;
 
 	const filename = generateFilename(filenameTemplate, entry);
-	const content = renderTemplate(noteTemplate, entry);
-	const filePath = normalizePath(`${folderPath}/${filename}.md`);
+	let content = renderDiaryNote(account, entry);
+	if (isFallbackGuid(entry.guid)) {
+		content = appendFrontmatterLine(content, PENDING_ENRICHMENT_KEY, "true");
+	}
+	let filePath = normalizePath(`${folderPath}/${filename}.md`);
 
-	const existingFile = vault.getAbstractFileByPath(filePath);
-	if (existingFile) {
+	if (isPathTaken(plugin, filePath, result.planned)) {
 		// Add timestamp suffix to avoid collision
 		const timestamp = Date.now();
-		await vault.create(normalizePath(`${folderPath}/${filename} (${timestamp}).md`), content);
+		filePath = normalizePath(`${folderPath}/${filename} (${timestamp}).md`);
+	}
+
+	if (dryRun) {
+		result.planned.push({ action: "create", path: filePath, content });
+		return null;
+	}
+	const file = await vault.create(filePath, content);
+	result.written.push({ path: file.path, change: "created", hash: hashContent(content) });
+	return file;
+}
+
+/**
+ * Updates an existing note with fresh entry data
+ * Only the plugin-generated parts of the note are rewritten; in a dry run
+ * the rewrite is added to result.planned instead of written
+ * @returns true if the note content changed
+ */
+async function updateNote(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	file: TFile,
+	entry: LetterboxdEntry,
+	result: SyncResult,
+	dryRun: boolean
+): Promise<boolean> {
+	const rendered = renderDiaryNote(account, entry);
+	const rewrite = await planNoteRewrite(plugin, file, rendered, account.noteTemplate);
+	if (!rewrite.bodyChanged && !rewrite.frontmatterChanged) {
+		return false;
+	}
+
+	if (dryRun) {
+		result.planned.push({ action: "update", path: file.path, content: rewrite.newContent });
 	} else {
-		await vault.create(filePath, content);
+		await applyNoteRewrite(plugin, rewrite);
+		const content = await plugin.app.vault.read(file);
+		result.written.push({ path: file.path, change: "modified", hash: hashContent(content) });
+	}
+	return true;
+}
+
+/**
+ * Completes the fields an entry's source could not provide from its existing
+ * note: from the data the note was last rendered from (e.g., the review of a
+ * CSV import, which only lives in the note body), else from its frontmatter
+ * @param sourceGuid - GUID the note's source data is cached under
+ */
+async function completeFromNote(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	file: TFile,
+	sourceGuid: string,
+	entry: LetterboxdEntry
+): Promise<LetterboxdEntry> {
+	if (!entry.missingFields?.length) {
+		return entry;
+	}
+
+	const cached = await plugin.sourceCache.getEntry(sourceGuid);
+	if (cached) {
+		// The cached entry may lack some of the fields itself
+		const cachedMissing = new Set(cached.missingFields ?? []);
+		const completed: LetterboxdEntry = { ...entry };
+		for (const field of entry.missingFields) {
+			if (!cachedMissing.has(field)) {
+				Object.assign(completed, { [field]: cached[field] });
+			}
+		}
+		completed.missingFields = entry.missingFields.filter((field) => cachedMissing.has(field));
+		entry = completed;
+	}
+
+	const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	return completeMissingFields(entry, account.noteTemplate, frontmatter);
+}
+
+/**
+ * Records the rating of a written entry for its Film note, unless an entry of
+ * the same film watched later was recorded
+ */
+function recordRating(result: SyncResult, entry: LetterboxdEntry): void {
+	if (entry.userRatingNo === null) {
+		return;
+	}
+	const recorded = result.ratings[entry.tmdbId];
+	if (!recorded || recorded.watchedDate <= entry.watchedDate) {
+		result.ratings[entry.tmdbId] = {
+			rating: entry.userRatingNo * 2,
+			watchedDate: entry.watchedDate,
+		};
+	}
+}
+
+/**
+ * Writes entries to the vault: creates notes for new GUIDs and, if update mode
+ * is enabled, rewrites existing notes whose entry changed.
+ * Notes imported under a fallback GUID are always rewritten once their entry
+ * comes with its viewing ID, whichever source it comes from (see
+ * createFallbackNoteFinder): they lose the pending enrichment marker and leave
+ * the failed enrichments list.
+ * Shared by RSS sync and diary backfill so both apply the same deduplication.
+ * In a dry run nothing is written and the planned changes are collected in result.planned.
+ */
+async function writeEntries(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	entries: LetterboxdEntry[],
+	diaryIndex: Map<string, DiaryNoteRef>,
+	result: SyncResult,
+	dryRun = false
+): Promise<void> {
+	const { updateExistingNotes } = plugin.settings;
+	const findFallbackNote = createFallbackNoteFinder(diaryIndex);
+	// GUIDs planned for creation in a dry run (no file to add to the index)
+	const plannedGuids = new Set<string>();
+
+	for (let entry of entries) {
+		if (plannedGuids.has(entry.guid)) {
+			result.skipped++;
+			continue;
+		}
+
+		const existingFile = diaryIndex.get(entry.guid)?.file;
+		let fallbackGuid: string | undefined;
+		if (!isFallbackGuid(entry.guid)) {
+			const derivedGuid = createFallbackGuid(entry.link, entry.filmTitle, entry.filmYear);
+			fallbackGuid = diaryIndex.has(derivedGuid) ? derivedGuid : findFallbackNote(entry);
+		}
+		const fallbackFile = fallbackGuid ? diaryIndex.get(fallbackGuid)?.file : undefined;
+		if (!existingFile && fallbackGuid && fallbackFile) {
+			entry = await completeFromNote(plugin, account, fallbackFile, fallbackGuid, entry);
+			try {
+				if (await updateNote(plugin, account, fallbackFile, entry, result, dryRun)) {
+					result.updated++;
+				} else {
+					result.skipped++;
+				}
+				if (!dryRun) {
+					await plugin.app.fileManager.processFrontMatter(
+						fallbackFile,
+						(frontmatter: Record<string, unknown>) => {
+							delete frontmatter[PENDING_ENRICHMENT_KEY];
+						}
+					);
+					diaryIndex.delete(fallbackGuid);
+					diaryIndex.set(entry.guid, toDiaryNoteRef(fallbackFile, entry));
+					await plugin.sourceCache.setEntry(entry);
+					resolveFailedEnrichment(plugin, fallbackGuid);
+				}
+				// The note had no TMDB ID until now, so it has no Film note yet
+				if (entry.tmdbId) {
+					result.createdTmdbIds.push(entry.tmdbId);
+					result.loggedTmdbIds.push(entry.tmdbId);
+					if (entry.liked) result.likedTmdbIds.push(entry.tmdbId);
+					recordRating(result, entry);
+				}
+			} catch (error) {
+				console.error(`Letterboxd: Failed to update "${entry.filmTitle}"`, error);
+				result.errors++;
+			}
+			continue;
+		}
+
+		if (existingFile) {
+			if (!updateExistingNotes) {
+				result.skipped++;
+				continue;
+			}
+
+			entry = await completeFromNote(plugin, account, existingFile, entry.guid, entry);
+			try {
+				if (await updateNote(plugin, account, existingFile, entry, result, dryRun)) {
+					result.updated++;
+				} else {
+					result.skipped++;
+				}
+				if (!dryRun) {
+					await plugin.sourceCache.setEntry(entry);
+				}
+				if (entry.tmdbId) {
+					if (entry.liked) result.likedTmdbIds.push(entry.tmdbId);
+					recordRating(result, entry);
+				}
+			} catch (error) {
+				console.error(`Letterboxd: Failed to update "${entry.filmTitle}"`, error);
+				result.errors++;
+			}
+			continue;
+		}
+
+		try {
+			const file = await createNote(plugin, account, entry, result, dryRun);
+			result.created++;
+			if (file) {
+				diaryIndex.set(entry.guid, toDiaryNoteRef(file, entry));
+				await plugin.sourceCache.setEntry(entry);
+			} else {
+				plannedGuids.add(entry.guid);
+			}
+			if (entry.tmdbId) {
+				result.createdTmdbIds.push(entry.tmdbId);
+				result.loggedTmdbIds.push(entry.tmdbId);
+				if (entry.liked) result.likedTmdbIds.push(entry.tmdbId);
+				recordRating(result, entry);
+			}
+		} catch (error) {
+			console.error(`Letterboxd: Failed to create "${entry.filmTitle}"`, error);
+			result.errors++;
+		}
 	}
 }
 
@@ -84,12 +558,32 @@ async function createNote(plugin: LetterboxdPlugin, entry: LetterboxdEntry): Pro
 // ============================================================================
 
 /**
- * Syncs Letterboxd diary entries via RSS
+ * Syncs the Letterboxd diary entries of an account via RSS
+ * @param plugin - Plugin instance
+ * @param account - Account to sync
+ * @param dryRun - Collect planned changes in result.planned instead of writing them
  */
-export async function syncDiary(plugin: LetterboxdPlugin): Promise<SyncResult> {
-	const { username, folderPath, syncReviewsOnly, notificationLevel } = plugin.settings;
+export async function syncDiary(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	dryRun = false
+): Promise<SyncResult> {
+	const { username, folderPath, syncReviewsOnly, syncListsFromRss } = account;
+	const { notificationLevel } = plugin.settings;
 
-	const result: SyncResult = { created: 0, skipped: 0, errors: 0, createdTmdbIds: [] };
+	const result: SyncResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		createdTmdbIds: [],
+		loggedTmdbIds: [],
+		likedTmdbIds: [],
+		ratings: {},
+		planned: [],
+		written: [],
+		interrupted: false,
+	};
 
 	if (!username) {
 		notify("Letterboxd: Please set your username in settings", notificationLevel, "error");
@@ -99,7 +593,38 @@ export async function syncDiary(plugin: LetterboxdPlugin): Promise<SyncResult> {
 	try {
 		notify("Letterboxd: Fetching diary...", notificationLevel, "progress");
 
-		const allEntries = await fetchLetterboxdRSS(username, (current, total) => {
+		const feed = await fetchLetterboxdRSS(username);
+		const entries = syncReviewsOnly
+			? feed.entries.filter((e) => e.review.length > 0)
+			: feed.entries;
+
+		// List notes have no preview, so a dry run leaves lists out
+		if (!dryRun && syncListsFromRss) {
+			const listResult = await importLists(
+				plugin,
+				feed.lists,
+				!plugin.settings.updateExistingNotes
+			);
+			mergeJournalFiles(result.written, listResult.written);
+		}
+
+		if (entries.length === 0) {
+			notify("Letterboxd: No entries found", notificationLevel, "progress");
+			return result;
+		}
+
+		if (!dryRun) {
+			await ensureFolderExists(plugin, folderPath);
+		}
+
+		const diaryIndex = await getDiaryIndex(plugin, account);
+
+		// Tags need a viewing page request each: only fetch them for entries
+		// that writeEntries will create or may update
+		const pendingEntries = plugin.settings.updateExistingNotes
+			? entries
+			: entries.filter((e) => !diaryIndex.has(e.guid));
+		await fetchEntryTags(pendingEntries, (current, total) => {
 			// Update notice periodically to show progress
 			if (current % 5 === 0 || current === total) {
 				notify(
@@ -109,50 +634,117 @@ export async function syncDiary(plugin: LetterboxdPlugin): Promise<SyncResult> {
 				);
 			}
 		});
-		const entries = syncReviewsOnly
-			? allEntries.filter((e) => e.review.length > 0)
-			: allEntries;
 
-		if (entries.length === 0) {
-			notify("Letterboxd: No entries found", notificationLevel, "progress");
-			return result;
+		await writeEntries(plugin, account, entries, diaryIndex, result, dryRun);
+		await plugin.sourceCache.save();
+
+		// A dry run reports through its preview instead
+		if (!dryRun) {
+			notify(
+				buildResultMessage("RSS", result),
+				notificationLevel,
+				"result",
+				hasChanges(result)
+			);
 		}
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: Sync failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd sync error:", error);
+	}
 
-		await ensureFolderExists(plugin, folderPath);
+	return result;
+}
 
-		const existingGuids = await getExistingGuids(plugin);
+// ============================================================================
+// Diary Backfill
+// ============================================================================
 
-		for (const entry of entries) {
-			if (existingGuids.has(entry.guid)) {
-				result.skipped++;
-				continue;
-			}
+/**
+ * Backfills diary entries older than the RSS window by walking the diary pages
+ * Stops at the first page whose entries are all in the vault already
+ * @param plugin - Plugin instance
+ * @param account - Account to backfill
+ */
+export async function backfillDiary(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<SyncResult> {
+	const { username, folderPath, syncReviewsOnly } = account;
+	const { notificationLevel } = plugin.settings;
 
-			try {
-				await createNote(plugin, entry);
-				result.created++;
-				if (entry.tmdbId) {
-					result.createdTmdbIds.push(entry.tmdbId);
-				}
-			} catch (error) {
-				console.error(`Letterboxd: Failed to create "${entry.filmTitle}"`, error);
-				result.errors++;
+	const result: SyncResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		createdTmdbIds: [],
+		loggedTmdbIds: [],
+		likedTmdbIds: [],
+		ratings: {},
+		planned: [],
+		written: [],
+		interrupted: false,
+	};
+
+	if (!username) {
+		notify("Letterboxd: Please set your username in settings", notificationLevel, "error");
+		return result;
+	}
+
+	try {
+		notify("Letterboxd: Backfilling diary...", notificationLevel, "progress");
+
+		const diaryIndex = await getDiaryIndex(plugin, account);
+
+		const entries = await fetchDiaryHistory(
+			username,
+			(viewingId) => diaryIndex.has(viewingId),
+			syncReviewsOnly,
+			(page, found) => {
+				notify(
+					`Letterboxd: Reading diary page ${page} (${found} new)...`,
+					notificationLevel,
+					"progress"
+				);
 			}
+		);
+
+		if (entries.length === 0) {
+			notify("Letterboxd: No older entries found", notificationLevel, "progress");
+			return result;
 		}
 
-		notify(buildResultMessage("RSS", result), notificationLevel, "result", result.created > 0);
+		await ensureFolderExists(plugin, folderPath);
+		await writeEntries(plugin, account, entries, diaryIndex, result);
+		await plugin.sourceCache.save();
+
+		notify(
+			buildResultMessage("backfill", result),
+			notificationLevel,
+			"result",
+			hasChanges(result)
+		);
 	} catch (error) {
 		const msg = error instanceof Error ? error.message : "Unknown error";
-		notify(`Letterboxd: Sync failed - ${msg}`, notificationLevel, "error");
-		console.error("Letterboxd sync error:", error);
+		notify(`Letterboxd: Backfill failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd backfill error:", error);
 	}
 
 	return result;
 }
 
+/**
+ * Whether a sync wrote anything to the vault (for "new files only" notifications)
+ */
+function hasChanges(result: SyncResult): boolean {
+	return result.created > 0 || result.updated > 0;
+}
+
 function buildResultMessage(source: string, result: SyncResult): string {
 	const parts: string[] = [];
 	if (result.created > 0) parts.push(`${result.created} created`);
+	if (result.updated > 0) parts.push(`${result.updated} updated`);
 	if (result.skipped > 0) parts.push(`${result.skipped} skipped`);
 	if (result.errors > 0) parts.push(`${result.errors} errors`);
 	return parts.length
@@ -164,78 +756,542 @@ function buildResultMessage(source: string, result: SyncResult): string {
 // CSV Import
 // ============================================================================
 
+/** Number of written notes between two checkpoint saves */
+const CHECKPOINT_INTERVAL = 10;
+
+/** Name of the file of the plugin folder keeping the CSV files of an interrupted import */
+const CSV_IMPORT_FILENAME = "csv-import.json";
+
+/** CSV files of an import, kept for resuming it */
+interface CSVImportFiles {
+	diaryCSV: string | null;
+	reviewsCSV: string | null;
+}
+
+/**
+ * Path of the file keeping the CSV files of an interrupted import
+ */
+function getCSVImportPath(plugin: LetterboxdPlugin): string {
+	return normalizePath(`${plugin.manifest.dir}/${CSV_IMPORT_FILENAME}`);
+}
+
 /**
  * Imports diary entries from Letterboxd CSV export
  * Creates new notes for entries not already in the vault (matched by GUID)
+ * Progress is checkpointed in the plugin data so an interrupted import can be
+ * resumed with resumeCSVImport (except in a dry run or offline): the CSV files
+ * are written once to the plugin folder, the checkpoint only records the rows
+ * written. Rows fetched but not written yet come from the HTTP cache on resume.
+ * @param account - Account the export belongs to
+ * @param dryRun - Collect planned changes in result.planned instead of writing them
+ * @param offline - Create notes from the CSV alone, marked for enrichPendingNotes
+ * @param likedFilms - Films of likes/films.csv, whose entries are imported as liked
  */
 export async function importFromCSV(
 	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	diaryCSV: string | null,
+	reviewsCSV: string | null,
+	dryRun = false,
+	offline = false,
+	likedFilms: { filmTitle: string; filmYear: number }[] = []
+): Promise<SyncResult> {
+	let checkpoint: CSVImportCheckpoint | null = null;
+	if (!dryRun && !offline) {
+		const files: CSVImportFiles = { diaryCSV, reviewsCSV };
+		try {
+			await plugin.app.vault.adapter.write(getCSVImportPath(plugin), JSON.stringify(files));
+			checkpoint = {
+				startedAt: new Date().toISOString(),
+				account: account.username,
+				processed: [],
+				written: [],
+				createdTmdbIds: [],
+				likedFilms: likedFilms.map(({ filmTitle, filmYear }) => ({ filmTitle, filmYear })),
+			};
+			plugin.state.csvImportCheckpoint = checkpoint;
+			await plugin.saveSettings();
+		} catch (error) {
+			// The import still runs, it just can't be resumed
+			console.error("Letterboxd: Failed to save the CSV import checkpoint", error);
+		}
+	}
+
+	return runCSVImport(
+		plugin,
+		account,
+		diaryCSV,
+		reviewsCSV,
+		likedFilms,
+		checkpoint,
+		dryRun,
+		offline
+	);
+}
+
+/**
+ * Resumes an interrupted CSV import from its checkpoint
+ * Rows written before the interruption are left out, the others are fetched
+ * again (from the HTTP cache if they were fetched already).
+ * @returns Result of the whole import, including notes written before the interruption
+ * @throws Error if there is no interrupted import or its CSV files can't be read
+ */
+export async function resumeCSVImport(plugin: LetterboxdPlugin): Promise<SyncResult> {
+	const checkpoint = plugin.state.csvImportCheckpoint;
+	if (!checkpoint) {
+		throw new Error("No interrupted import to resume");
+	}
+	const { diaryCSV, reviewsCSV } = JSON.parse(
+		await plugin.app.vault.adapter.read(getCSVImportPath(plugin))
+	) as CSVImportFiles;
+
+	return runCSVImport(
+		plugin,
+		findAccount(plugin, checkpoint.account),
+		diaryCSV,
+		reviewsCSV,
+		checkpoint.likedFilms ?? [],
+		checkpoint,
+		false,
+		false
+	);
+}
+
+/**
+ * Clears the CSV import checkpoint once the import (and its TMDB sync) finished
+ * Callers keep it when the import was interrupted (see SyncResult.interrupted).
+ */
+export async function clearCSVImportCheckpoint(plugin: LetterboxdPlugin): Promise<void> {
+	if (plugin.state.csvImportCheckpoint) {
+		plugin.state.csvImportCheckpoint = null;
+		await plugin.saveSettings();
+		try {
+			await plugin.app.vault.adapter.remove(getCSVImportPath(plugin));
+		} catch (error) {
+			console.warn("Letterboxd: Failed to remove the CSV files of the import", error);
+		}
+	}
+}
+
+/**
+ * Saves the progress of a CSV import
+ * Failures are logged, not thrown: the import goes on, only resuming it would
+ * write some of its notes again.
+ */
+async function saveCSVImportCheckpoint(plugin: LetterboxdPlugin): Promise<void> {
+	try {
+		await plugin.saveSettings();
+	} catch (error) {
+		console.error("Letterboxd: Failed to save the CSV import checkpoint", error);
+	}
+}
+
+/**
+ * Runs a CSV import, updating the checkpoint (if any) as it progresses
+ */
+async function runCSVImport(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
 	diaryCSV: string | null,
-	reviewsCSV: string | null
+	reviewsCSV: string | null,
+	likedFilms: { filmTitle: string; filmYear: number }[],
+	checkpoint: CSVImportCheckpoint | null,
+	dryRun: boolean,
+	offline: boolean
 ): Promise<SyncResult> {
-	const result: SyncResult = { created: 0, skipped: 0, errors: 0, createdTmdbIds: [] };
+	const result: SyncResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		createdTmdbIds: checkpoint ? [...checkpoint.createdTmdbIds] : [],
+		loggedTmdbIds: checkpoint ? [...checkpoint.createdTmdbIds] : [],
+		likedTmdbIds: [],
+		ratings: {},
+		planned: [],
+		written: checkpoint ? [...checkpoint.written] : [],
+		interrupted: false,
+	};
 
-	const { folderPath, notificationLevel } = plugin.settings;
+	const { folderPath } = account;
+	const { notificationLevel, updateExistingNotes } = plugin.settings;
 
 	try {
 		notify(
-			"Letterboxd: Processing CSV and fetching data from Letterboxd...",
+			offline
+				? "Letterboxd: Processing CSV..."
+				: "Letterboxd: Processing CSV and fetching data from Letterboxd...",
 			notificationLevel,
 			"progress"
 		);
 
-		// Parse and enrich CSV files (fetches viewing ID and TMDB ID from Letterboxd)
-		const entries = await parseLetterboxdExport(
-			diaryCSV,
-			reviewsCSV,
-			(current, total) => {
-				if (current % 10 === 0 || current === total) {
-					notify(
-						`Letterboxd: Fetching data... ${current}/${total}`,
-						notificationLevel,
-						"progress"
-					);
-				}
-			}
-		);
+		// Rows already in the vault would only be skipped after enrichment, so they
+		// are skipped before fetching anything (unless notes are updated)
+		const diaryIndex = await getDiaryIndex(plugin, account);
+		const isKnownRow = createKnownRowMatcher(diaryIndex);
+		const skipKnownRow = (row: CSVRowIdentity): boolean => {
+			if (!isKnownRow(row)) return false;
+			result.skipped++;
+			return true;
+		};
+		// Rows written before an interruption are left out without being counted
+		const processed = new Set(checkpoint?.processed);
+		const isLeftOut = (row: CSVRowIdentity): boolean =>
+			processed.has(createMergeKey(row.filmTitle, row.filmYear, row.watchedDate)) ||
+			(!updateExistingNotes && skipKnownRow(row));
 
-		if (entries.length === 0) {
+		// Parse and enrich CSV files (fetches viewing ID and TMDB ID from Letterboxd).
+		// Offline, known rows are always skipped: without their viewing ID they
+		// couldn't be matched to their notes.
+		const failures: FailedEnrichment[] = [];
+		let deferred = 0;
+		const entries = offline
+			? parseLetterboxdExportOffline(diaryCSV, reviewsCSV, skipKnownRow)
+			: await parseLetterboxdExport(
+					diaryCSV,
+					reviewsCSV,
+					(current, total) => {
+						if (current % 10 === 0 || current === total) {
+							notify(
+								`Letterboxd: Fetching data... ${current}/${total}`,
+								notificationLevel,
+								"progress"
+							);
+						}
+					},
+					isLeftOut,
+					(entry, reason) => {
+						failures.push({
+							entry,
+							reason,
+							failedAt: new Date().toISOString(),
+							account: account.username,
+						});
+					},
+					() => deferred++
+				);
+
+		markLikedEntries(entries, likedFilms);
+
+		if (entries.length === 0 && result.skipped === 0 && deferred === 0) {
 			notify("Letterboxd: No entries found in CSV", notificationLevel, "progress");
 			return result;
 		}
 
-		await ensureFolderExists(plugin, folderPath);
+		if (!dryRun) {
+			await ensureFolderExists(plugin, folderPath);
+		}
 
-		const existingGuids = await getExistingGuids(plugin);
 		const existingTmdbIds = await getExistingTmdbIds(plugin);
 
-		for (const entry of entries) {
-			if (existingGuids.has(entry.guid)) {
+		// Write in batches so the checkpoint knows which notes this import created
+		const batchSize = checkpoint ? CHECKPOINT_INTERVAL : entries.length;
+		for (let i = 0; i < entries.length; i += batchSize) {
+			const batch = entries.slice(i, i + batchSize);
+			await writeEntries(plugin, account, batch, diaryIndex, result, dryRun);
+			if (checkpoint) {
+				// Rows under a fallback GUID are fetched again when the import is resumed
+				for (const entry of batch) {
+					if (!isFallbackGuid(entry.guid) && diaryIndex.has(entry.guid)) {
+						checkpoint.processed.push(
+							createMergeKey(entry.filmTitle, entry.filmYear, entry.watchedDate)
+						);
+					}
+				}
+				checkpoint.written = [...result.written];
+				checkpoint.createdTmdbIds = [...result.createdTmdbIds];
+				await saveCSVImportCheckpoint(plugin);
+			}
+		}
+		await plugin.sourceCache.save();
+
+		// Only track TMDB IDs without a Film note (and without duplicates from rewatches)
+		result.createdTmdbIds = result.createdTmdbIds.filter((tmdbId) => {
+			if (existingTmdbIds.has(tmdbId)) return false;
+			existingTmdbIds.add(tmdbId);
+			return true;
+		});
+
+		result.interrupted = failures.length > 0 || deferred > 0 || result.errors > 0;
+
+		if (!dryRun) {
+			await recordFailedEnrichments(plugin, failures);
+			notify(
+				buildResultMessage("CSV", result),
+				notificationLevel,
+				"result",
+				hasChanges(result)
+			);
+			if (failures.length > 0) {
+				notify(
+					`Letterboxd CSV: ${failures.length} entries imported without their Letterboxd data. Run "Retry failed enrichments" to complete them.`,
+					notificationLevel,
+					"error"
+				);
+			}
+			if (deferred > 0) {
+				notify(
+					`Letterboxd CSV: ${deferred} entries left for later, the hourly request limit was reached. Run "Resume interrupted import" to import them.`,
+					notificationLevel,
+					"error"
+				);
+			}
+		}
+	} catch (error) {
+		result.interrupted = true;
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		const resume = checkpoint ? ` Run "Resume interrupted import" to continue.` : "";
+		notify(`Letterboxd CSV: Import failed - ${msg}.${resume}`, notificationLevel, "error");
+		console.error("Letterboxd CSV import error:", error);
+	}
+
+	return result;
+}
+
+// ============================================================================
+// Failed Enrichments
+// ============================================================================
+
+/**
+ * Adds CSV rows imported without their Letterboxd data to the failed enrichments
+ * list, replacing earlier failures of the same rows, and saves it
+ */
+async function recordFailedEnrichments(
+	plugin: LetterboxdPlugin,
+	failures: FailedEnrichment[]
+): Promise<void> {
+	const guids = new Set(failures.map((f) => f.entry.guid));
+	plugin.state.failedEnrichments = [
+		...plugin.state.failedEnrichments.filter((f) => !guids.has(f.entry.guid)),
+		...failures,
+	];
+	await plugin.saveSettings();
+}
+
+/**
+ * Removes a failure from the failed enrichments list once its note was completed
+ * The caller saves the plugin state.
+ */
+function resolveFailedEnrichment(plugin: LetterboxdPlugin, fallbackGuid: string): void {
+	plugin.state.failedEnrichments = plugin.state.failedEnrichments.filter(
+		(f) => f.entry.guid !== fallbackGuid
+	);
+}
+
+/**
+ * Fetches the Letterboxd data of entries under a fallback GUID and rewrites
+ * their notes under the viewing ID (notes deleted since are created again)
+ * @returns Why each entry that could not be completed failed, by fallback GUID
+ */
+async function completeFallbackEntries(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount,
+	entries: LetterboxdEntry[],
+	result: SyncResult
+): Promise<Map<string, string>> {
+	const { folderPath } = account;
+	const { notificationLevel } = plugin.settings;
+	const diaryIndex = await getDiaryIndex(plugin, account);
+	const reasons = new Map<string, string>();
+	const completed: LetterboxdEntry[] = [];
+
+	for (const [index, entry] of entries.entries()) {
+		notify(
+			`Letterboxd: Fetching entry ${index + 1}/${entries.length}...`,
+			notificationLevel,
+			"progress"
+		);
+
+		try {
+			const completedEntry = applyPageData(entry, await fetchLetterboxdPageData(entry.link));
+
+			// Already in the vault under its viewing ID (e.g., synced from RSS meanwhile)
+			const existingFile = diaryIndex.get(completedEntry.guid)?.file;
+			if (existingFile) {
+				const fallbackFile = diaryIndex.get(entry.guid)?.file;
+				if (fallbackFile) {
+					reasons.set(
+						entry.guid,
+						`Already in the vault as "${existingFile.path}", "${fallbackFile.path}" is a duplicate`
+					);
+				}
 				result.skipped++;
 				continue;
 			}
 
-			try {
-				await createNote(plugin, entry);
-				result.created++;
+			completed.push(completedEntry);
+		} catch (error) {
+			reasons.set(entry.guid, error instanceof Error ? error.message : "Unknown error");
+			result.errors++;
+		}
+	}
 
-				// Track new TMDB IDs for Film note creation
-				if (entry.tmdbId && !existingTmdbIds.has(entry.tmdbId)) {
-					result.createdTmdbIds.push(entry.tmdbId);
-					existingTmdbIds.add(entry.tmdbId);
-				}
-			} catch (error) {
-				const msg = error instanceof Error ? error.message : "Unknown error";
-				console.error(`Letterboxd: Failed to create "${entry.filmTitle}": ${msg}`);
+	if (completed.length > 0) {
+		await ensureFolderExists(plugin, folderPath);
+		await writeEntries(plugin, account, completed, diaryIndex, result);
+		await plugin.sourceCache.save();
+
+		for (const entry of completed) {
+			if (!diaryIndex.has(entry.guid)) {
+				const fallbackGuid = createFallbackGuid(
+					entry.link,
+					entry.filmTitle,
+					entry.filmYear
+				);
+				reasons.set(
+					fallbackGuid,
+					"The note could not be written, see the developer console"
+				);
+			}
+		}
+	}
+
+	return reasons;
+}
+
+/**
+ * Fetches the Letterboxd data of CSV rows that failed enrichment again, and
+ * rewrites their notes under the viewing ID
+ * Rows that fail again stay in the list with the new reason. A row whose viewing
+ * is already in the vault under its viewing ID (e.g., synced from RSS meanwhile)
+ * stays in the list as a duplicate until its fallback note is deleted.
+ * @param plugin - Plugin instance
+ * @param account - Account whose failed rows are retried
+ */
+export async function retryFailedEnrichments(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<SyncResult> {
+	const { notificationLevel } = plugin.settings;
+	const isOwn = (failure: FailedEnrichment): boolean =>
+		findAccount(plugin, failure.account) === account;
+	const failures = plugin.state.failedEnrichments.filter(isOwn);
+
+	const result: SyncResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		createdTmdbIds: [],
+		loggedTmdbIds: [],
+		likedTmdbIds: [],
+		ratings: {},
+		planned: [],
+		written: [],
+		interrupted: false,
+	};
+
+	try {
+		const reasons = await completeFallbackEntries(
+			plugin,
+			account,
+			failures.map((f) => f.entry),
+			result
+		);
+
+		const failedAt = new Date().toISOString();
+		plugin.state.failedEnrichments = [
+			...plugin.state.failedEnrichments.filter((failure) => !isOwn(failure)),
+			...failures.flatMap((failure) => {
+				const reason = reasons.get(failure.entry.guid);
+				return reason ? [{ ...failure, reason, failedAt }] : [];
+			}),
+		];
+		await plugin.saveSettings();
+
+		const remaining = plugin.state.failedEnrichments.filter(isOwn).length;
+		notify(
+			buildResultMessage("retry", result) +
+				(remaining > 0 ? ` (${remaining} still need attention)` : ""),
+			notificationLevel,
+			remaining > 0 ? "error" : "result",
+			hasChanges(result)
+		);
+	} catch (error) {
+		const msg = error instanceof Error ? error.message : "Unknown error";
+		notify(`Letterboxd: Retry failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd retry error:", error);
+	}
+
+	return result;
+}
+
+// ============================================================================
+// Pending Enrichment
+// ============================================================================
+
+/**
+ * Completes the notes created without their Letterboxd data (offline import),
+ * found by their pending enrichment marker
+ * Fetches the viewing ID, TMDB ID, poster and tags of each entry and rewrites
+ * the note under its viewing ID. Entries that can't be fetched are added to the
+ * failed enrichments list.
+ * @param plugin - Plugin instance
+ * @param account - Account whose diary folder is searched for pending notes
+ */
+export async function enrichPendingNotes(
+	plugin: LetterboxdPlugin,
+	account: LetterboxdAccount
+): Promise<SyncResult> {
+	const { notificationLevel } = plugin.settings;
+
+	const result: SyncResult = {
+		created: 0,
+		updated: 0,
+		skipped: 0,
+		errors: 0,
+		createdTmdbIds: [],
+		loggedTmdbIds: [],
+		likedTmdbIds: [],
+		ratings: {},
+		planned: [],
+		written: [],
+		interrupted: false,
+	};
+
+	try {
+		const pendingNotes = [...(await getDiaryIndex(plugin, account))].filter(
+			([guid, note]) => note.pending && isFallbackGuid(guid)
+		);
+		if (pendingNotes.length === 0) {
+			notify("Letterboxd: No pending notes", notificationLevel, "progress");
+			return result;
+		}
+
+		// The whole entry is needed to re-render the note (e.g., the review)
+		const entries: LetterboxdEntry[] = [];
+		for (const [guid, note] of pendingNotes) {
+			const entry = await plugin.sourceCache.getEntry(guid);
+			if (entry) {
+				entries.push(entry);
+			} else {
+				console.warn(
+					`Letterboxd: No source data for "${note.file.path}", import the CSV again to enrich it`
+				);
 				result.errors++;
 			}
 		}
 
-		notify(buildResultMessage("CSV", result), notificationLevel, "result", result.created > 0);
+		const reasons = await completeFallbackEntries(plugin, account, entries, result);
+		const failedAt = new Date().toISOString();
+		await recordFailedEnrichments(
+			plugin,
+			entries.flatMap((entry) => {
+				const reason = reasons.get(entry.guid);
+				return reason ? [{ entry, reason, failedAt, account: account.username }] : [];
+			})
+		);
+
+		notify(
+			buildResultMessage("enrichment", result),
+			notificationLevel,
+			"result",
+			hasChanges(result)
+		);
 	} catch (error) {
 		const msg = error instanceof Error ? error.message : "Unknown error";
-		notify(`Letterboxd CSV: Import failed - ${msg}`, notificationLevel, "error");
-		console.error("Letterboxd CSV import error:", error);
+		notify(`Letterboxd: Enrichment failed - ${msg}`, notificationLevel, "error");
+		console.error("Letterboxd enrichment error:", error);
 	}
 
 	return result;
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { entryFromFrontmatter, completeMissingFields } from "./template";
+import type { LetterboxdEntry } from "../types";
+
+const TEMPLATE = `---
+film: "[[{{filmTitle}} ({{filmYear}})]]"
+rating: {{userRatingNoOver10}}
+watched_date: {{watchedDate}}
+letterboxd_url: {{link yaml=true}}
+tmdb_id: {{tmdbId}}
+letterboxd_guid: {{guid}}
+letterboxd_tags: {{tags yaml=true}}
+---
+
+# [[{{filmTitle}} ({{filmYear}})]]
+`;
+
+// ============================================================================
+// entryFromFrontmatter
+// ============================================================================
+
+describe("entryFromFrontmatter", () => {
+	it("reads back values of single-variable keys", () => {
+		const entry = entryFromFrontmatter(TEMPLATE, {
+			film: "[[Die Hard (1988)]]",
+			rating: 9,
+			watched_date: "2025-12-25",
+			letterboxd_url: "https://letterboxd.com/e2e_test_acc/film/die-hard/1/",
+			tmdb_id: 562,
+			letterboxd_guid: "1119837402",
+			letterboxd_tags: ["christmas", "action"],
+		});
+
+		expect(entry).toEqual({
+			userRatingNo: 4.5,
+			userRatingStars: "★★★★½",
+			watchedDate: "2025-12-25",
+			link: "https://letterboxd.com/e2e_test_acc/film/die-hard/1/",
+			tmdbId: "562",
+			guid: "1119837402",
+			tags: ["christmas", "action"],
+		});
+	});
+
+	it("reads an empty rating as unrated", () => {
+		const entry = entryFromFrontmatter(TEMPLATE, { rating: null });
+		expect(entry).toEqual({ userRatingNo: null, userRatingStars: "" });
+	});
+
+	it("formats dates parsed by YAML as YYYY-MM-DD", () => {
+		const entry = entryFromFrontmatter(TEMPLATE, {
+			watched_date: new Date("2025-12-25T00:00:00Z"),
+		});
+		expect(entry.watchedDate).toBe("2025-12-25");
+	});
+
+	it("reads back the liked heart", () => {
+		const template = TEMPLATE.replace("watched_date:", "liked: {{liked}}\nwatched_date:");
+		expect(entryFromFrontmatter(template, { liked: true })).toEqual({ liked: true });
+		expect(entryFromFrontmatter(template, { liked: false })).toEqual({ liked: false });
+	});
+
+	it("ignores keys missing from the note", () => {
+		expect(entryFromFrontmatter(TEMPLATE, {})).toEqual({});
+	});
+});
+
+// ============================================================================
+// completeMissingFields
+// ============================================================================
+
+describe("completeMissingFields", () => {
+	const entry: LetterboxdEntry = {
+		filmTitle: "Die Hard",
+		filmYear: 1988,
+		userRatingNo: null,
+		userRatingStars: "",
+		watchedDate: "2025-12-25",
+		rewatch: false,
+		link: "https://letterboxd.com/e2e_test_acc/film/die-hard/1/",
+		tmdbId: "562",
+		posterUrl: "",
+		guid: "1119837402",
+		review: "",
+		reviewText: "",
+		pubDate: "2025-12-25",
+		containsSpoilers: false,
+		liked: false,
+		tags: [],
+	};
+	const frontmatter = { rating: 9, letterboxd_tags: ["christmas", "action"] };
+
+	it("keeps the note values of fields the source could not provide", () => {
+		const completed = completeMissingFields(
+			{ ...entry, missingFields: ["tags"] },
+			TEMPLATE,
+			frontmatter
+		);
+
+		expect(completed.tags).toEqual(["christmas", "action"]);
+		expect(completed).not.toHaveProperty("missingFields");
+	});
+
+	it("leaves fields the source emptied empty", () => {
+		const completed = completeMissingFields(
+			{ ...entry, missingFields: ["tags"] },
+			TEMPLATE,
+			frontmatter
+		);
+
+		expect(completed.userRatingNo).toBeNull();
+		expect(completeMissingFields(entry, TEMPLATE, frontmatter)).toEqual(entry);
+	});
+});
@@ -1,6 +1,7 @@
 import type { LetterboxdEntry } from "../types";
-import { createTemplateEngine } from "../template-engine";
+import { createTemplateEngine, getFrontmatterVariables, spoilerCallout } from "../template-engine";
 import type { RawValue } from "../template-engine";
+import { ratingToStars } from "../letterboxd/parser";
 
 /**
  * Map of template variable names to their accessor functions
@@ -19,8 +20,11 @@ const LETTERBOXD_ACCESSORS: Record<string, (entry: LetterboxdEntry) => RawValue>
 	posterUrl: (e) => e.posterUrl,
 	guid: (e) => e.guid,
 	review: (e) => e.review,
+	reviewText: (e) => e.reviewText,
+	reviewSpoilerSafe: (e) => (e.containsSpoilers ? spoilerCallout(e.review) : e.review),
 	pubDate: (e) => e.pubDate,
 	containsSpoilers: (e) => e.containsSpoilers,
+	liked: (e) => e.liked,
 	tags: (e) => e.tags,
 };
 
@@ -29,6 +33,7 @@ const LETTERBOXD_ACCESSORS: Record<string, (entry: LetterboxdEntry) => RawValue>
  */
 const letterboxdEngine = createTemplateEngine({
 	accessors: LETTERBOXD_ACCESSORS,
+	hasSpoilers: (entry) => entry.containsSpoilers,
 });
 
 /**
@@ -50,3 +55,103 @@ export function renderTemplate(template: string, entry: LetterboxdEntry): string
 export function generateFilename(filenameTemplate: string, entry: LetterboxdEntry): string {
 	return letterboxdEngine.generateFilename(filenameTemplate, entry);
 }
+
+/**
+ * Converts a frontmatter value to text (YAML may parse dates into Date objects)
+ */
+function frontmatterText(value: unknown): string {
+	if (value instanceof Date) {
+		return value.toISOString().slice(0, 10);
+	}
+	return value === null || value === undefined ? "" : String(value);
+}
+
+/**
+ * Converts a frontmatter value to a number, null if empty or not numeric
+ */
+function frontmatterNumber(value: unknown): number | null {
+	if (value === null || value === undefined || value === "") return null;
+	const num = Number(value);
+	return isNaN(num) ? null : num;
+}
+
+/**
+ * Readers turning a frontmatter value back into entry fields, by template variable
+ * Variables that can't be read back unambiguously (e.g., userRatingStars) are omitted.
+ */
+const FRONTMATTER_READERS: Record<string, (value: unknown) => Partial<LetterboxdEntry>> = {
+	filmTitle: (v) => ({ filmTitle: frontmatterText(v) }),
+	filmYear: (v) => ({ filmYear: frontmatterNumber(v) ?? 0 }),
+	userRatingNoOver5: (v) => {
+		const rating = frontmatterNumber(v);
+		return { userRatingNo: rating, userRatingStars: ratingToStars(rating) };
+	},
+	userRatingNoOver10: (v) => {
+		const rating10 = frontmatterNumber(v);
+		const rating = rating10 !== null ? rating10 / 2 : null;
+		return { userRatingNo: rating, userRatingStars: ratingToStars(rating) };
+	},
+	watchedDate: (v) => ({ watchedDate: frontmatterText(v) }),
+	watchedDatetime: (v) => ({ watchedDate: frontmatterText(v).slice(0, 10) }),
+	rewatch: (v) => ({ rewatch: v === true || v === "true" }),
+	link: (v) => ({ link: frontmatterText(v) }),
+	tmdbId: (v) => ({ tmdbId: frontmatterText(v) }),
+	posterUrl: (v) => ({ posterUrl: frontmatterText(v) }),
+	guid: (v) => ({ guid: frontmatterText(v) }),
+	review: (v) => ({ review: frontmatterText(v) }),
+	reviewText: (v) => ({ reviewText: frontmatterText(v) }),
+	pubDate: (v) => ({ pubDate: frontmatterText(v) }),
+	containsSpoilers: (v) => ({ containsSpoilers: v === true || v === "true" }),
+	liked: (v) => ({ liked: v === true || v === "true" }),
+	tags: (v) => ({ tags: Array.isArray(v) ? v.map(frontmatterText) : [] }),
+};
+
+/**
+ * Reads entry data back from the frontmatter of a note rendered with the template
+ * Only keys whose value is a single variable in the template can be read.
+ * @param template - Note template the frontmatter was rendered with
+ * @param frontmatter - Parsed frontmatter of the note
+ * @returns Entry fields found in the frontmatter
+ */
+export function entryFromFrontmatter(
+	template: string,
+	frontmatter: Record<string, unknown>
+): Partial<LetterboxdEntry> {
+	const entry: Partial<LetterboxdEntry> = {};
+
+	for (const [key, variable] of Object.entries(getFrontmatterVariables(template))) {
+		const reader = FRONTMATTER_READERS[variable];
+		if (reader && key in frontmatter) {
+			Object.assign(entry, reader(frontmatter[key]));
+		}
+	}
+
+	return entry;
+}
+
+/**
+ * Completes the fields an entry's source could not provide with the values
+ * already in its note, so an update doesn't erase them
+ * @param entry - Entry about to be rendered over the note
+ * @param template - Note template the frontmatter was rendered with
+ * @param frontmatter - Parsed frontmatter of the note
+ * @returns The entry with its missing fields read back from the note where possible
+ */
+export function completeMissingFields(
+	entry: LetterboxdEntry,
+	template: string,
+	frontmatter: Record<string, unknown>
+): LetterboxdEntry {
+	const { missingFields, ...completed } = entry;
+	if (!missingFields?.length) {
+		return completed;
+	}
+
+	const known = entryFromFrontmatter(template, frontmatter);
+	for (const field of missingFields) {
+		if (known[field] !== undefined) {
+			Object.assign(completed, { [field]: known[field] });
+		}
+	}
+	return completed;
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import { mergeGeneratedBody, mergeFrontmatterValues, extractManagedRegions } from "./update";
+
+const TEMPLATE_BODY = `
+# {{filmTitle}}
+
+**Rating**: {{userRatingStars}}
+
+---
+[View on Letterboxd]({{link}})
+`;
+
+const EXISTING_BODY = `
+# Die Hard
+
+**Rating**: ★★★★
+
+---
+[View on Letterboxd](https://boxd.it/cdReDP)
+`;
+
+const MANAGED_TEMPLATE_BODY = `
+%% letterboxd:start %%
+**Rating**: {{userRatingStars}}
+%% letterboxd:end %%
+`;
+
+// ============================================================================
+// extractManagedRegions
+// ============================================================================
+
+describe("extractManagedRegions", () => {
+	it("returns regions with their markers, in order", () => {
+		const content =
+			"a\n%% letterboxd:start %%\none\n%% letterboxd:end %%\nb\n%% letterboxd:start %%two%% letterboxd:end %%";
+		expect(extractManagedRegions(content)).toEqual([
+			"%% letterboxd:start %%\none\n%% letterboxd:end %%",
+			"%% letterboxd:start %%two%% letterboxd:end %%",
+		]);
+	});
+
+	it("tolerates extra spaces inside markers", () => {
+		expect(extractManagedRegions("%%letterboxd:start%% x %%  letterboxd:end  %%")).toHaveLength(
+			1
+		);
+	});
+
+	it("returns empty array when there are no markers", () => {
+		expect(extractManagedRegions("# Just a note")).toEqual([]);
+	});
+});
+
+// ============================================================================
+// mergeGeneratedBody
+// ============================================================================
+
+describe("mergeGeneratedBody", () => {
+	it("replaces managed regions and keeps text outside them", () => {
+		const existing = `
+My intro
+%% letterboxd:start %%
+**Rating**: ★★★★
+%% letterboxd:end %%
+
+## My notes
+Best Christmas movie.
+`;
+		const rendered = "\n%% letterboxd:start %%\n**Rating**: ★★★★½\n%% letterboxd:end %%\n";
+
+		expect(mergeGeneratedBody(existing, rendered, MANAGED_TEMPLATE_BODY)).toBe(
+			existing.replace("★★★★\n", "★★★★½\n")
+		);
+	});
+
+	it("replaces multiple managed regions by position", () => {
+		const existing =
+			"%% letterboxd:start %%A%% letterboxd:end %% mine %% letterboxd:start %%B%% letterboxd:end %%";
+		const rendered =
+			"%% letterboxd:start %%1%% letterboxd:end %%%% letterboxd:start %%2%% letterboxd:end %%";
+
+		expect(mergeGeneratedBody(existing, rendered, rendered)).toBe(
+			"%% letterboxd:start %%1%% letterboxd:end %% mine %% letterboxd:start %%2%% letterboxd:end %%"
+		);
+	});
+
+	it("keeps the body when the region count differs from the template", () => {
+		const existing = "# Old note without markers\n";
+		const rendered = "%% letterboxd:start %%new%% letterboxd:end %%";
+
+		expect(mergeGeneratedBody(existing, rendered, MANAGED_TEMPLATE_BODY)).toBe(existing);
+	});
+
+	it("replaces an unedited body when the template has no managed regions", () => {
+		const rendered = EXISTING_BODY.replace("★★★★", "★★★★½");
+		expect(mergeGeneratedBody(EXISTING_BODY, rendered, TEMPLATE_BODY)).toBe(rendered);
+	});
+
+	it("keeps a hand-edited body when the template has no managed regions", () => {
+		const existing = EXISTING_BODY + "\n## My notes\nBest Christmas movie.\n";
+		const rendered = EXISTING_BODY.replace("★★★★", "★★★★½");
+		expect(mergeGeneratedBody(existing, rendered, TEMPLATE_BODY)).toBe(existing);
+	});
+
+	it("replaces bodies that can't be merged when replaceUnmanaged is set", () => {
+		const existing = "# Old note without markers\n";
+		const rendered = "%% letterboxd:start %%new%% letterboxd:end %%";
+
+		expect(mergeGeneratedBody(existing, rendered, MANAGED_TEMPLATE_BODY, true)).toBe(rendered);
+		expect(mergeGeneratedBody(existing, EXISTING_BODY, TEMPLATE_BODY, true)).toBe(
+			EXISTING_BODY
+		);
+	});
+});
+
+// ============================================================================
+// mergeFrontmatterValues
+// ============================================================================
+
+describe("mergeFrontmatterValues", () => {
+	it("updates changed keys and reports them", () => {
+		const frontmatter: Record<string, unknown> = { rating: 8, tags: ["at home"] };
+		const changed = mergeFrontmatterValues(frontmatter, { rating: 9, tags: ["at home"] });
+
+		expect(changed).toEqual(["rating"]);
+		expect(frontmatter).toEqual({ rating: 9, tags: ["at home"] });
+	});
+
+	it("keeps keys added by the user", () => {
+		const frontmatter: Record<string, unknown> = { rating: 8, mood: "happy" };
+		mergeFrontmatterValues(frontmatter, { rating: 9 });
+
+		expect(frontmatter).toEqual({ rating: 9, mood: "happy" });
+	});
+
+	it("adds keys the existing note is missing", () => {
+		const frontmatter: Record<string, unknown> = { rating: 8 };
+		const changed = mergeFrontmatterValues(frontmatter, { rating: 8, tags: ["cinema"] });
+
+		expect(changed).toEqual(["tags"]);
+		expect(frontmatter.tags).toEqual(["cinema"]);
+	});
+
+	it("clears values emptied at the source", () => {
+		const frontmatter: Record<string, unknown> = { rating: 8, tags: ["at home"] };
+		const changed = mergeFrontmatterValues(frontmatter, { rating: null, tags: [] });
+
+		expect(changed).toEqual(["rating", "tags"]);
+		expect(frontmatter).toEqual({ rating: null, tags: [] });
+	});
+
+	it("compares arrays by value", () => {
+		const frontmatter: Record<string, unknown> = { tags: ["a", "b"] };
+		expect(mergeFrontmatterValues(frontmatter, { tags: ["a", "b"] })).toEqual([]);
+		expect(mergeFrontmatterValues(frontmatter, { tags: ["b", "a"] })).toEqual(["tags"]);
+	});
+});
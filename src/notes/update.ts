@@ -0,0 +1,91 @@
+/**
+ * Updating existing notes
+ *
+ * When an entry changes, its note is re-rendered from the template and merged
+ * into the existing note so that only plugin-generated parts change:
+ * - Frontmatter values produced by the template are merged key by key; other keys are kept
+ * - Managed regions (%% letterboxd:start %% … %% letterboxd:end %%) are replaced,
+ *   everything outside them is kept as written by the user
+ * - Templates without managed regions: the body is replaced only if it still has
+ *   the shape of the template (not edited by hand)
+ */
+
+import { matchesTemplateShape } from "../template-engine";
+
+/** Marker opening a plugin-owned region of a note */
+export const MANAGED_REGION_START = "%% letterboxd:start %%";
+
+/** Marker closing a plugin-owned region of a note */
+export const MANAGED_REGION_END = "%% letterboxd:end %%";
+
+/** Regex matching a full managed region, markers included (tolerates extra spaces) */
+const MANAGED_REGION_PATTERN = /%%\s*letterboxd:start\s*%%[\s\S]*?%%\s*letterboxd:end\s*%%/g;
+
+/**
+ * Extracts all managed regions (markers included) from note content, in order
+ */
+export function extractManagedRegions(content: string): string[] {
+	return content.match(MANAGED_REGION_PATTERN) ?? [];
+}
+
+/**
+ * Merges a freshly rendered body into an existing note body
+ * @param existingBody - Current body of the note (without frontmatter)
+ * @param renderedBody - Body rendered from the template with the new data
+ * @param templateBody - Template body used to render (to detect hand-edited bodies)
+ * @param replaceUnmanaged - Return the rendered body when it can't be safely merged
+ *   (used when the user explicitly regenerates notes after reviewing a diff)
+ * @returns Merged body (identical to existingBody if nothing can be safely updated)
+ */
+export function mergeGeneratedBody(
+	existingBody: string,
+	renderedBody: string,
+	templateBody: string,
+	replaceUnmanaged = false
+): string {
+	const renderedRegions = extractManagedRegions(renderedBody);
+
+	if (renderedRegions.length > 0) {
+		// Regions are matched by position; if the note has a different number of
+		// regions than the template we can't tell which is which, so leave it alone
+		const existingRegions = extractManagedRegions(existingBody);
+		if (existingRegions.length !== renderedRegions.length) {
+			return replaceUnmanaged ? renderedBody : existingBody;
+		}
+
+		let index = 0;
+		return existingBody.replace(MANAGED_REGION_PATTERN, () => renderedRegions[index++]);
+	}
+
+	return replaceUnmanaged || matchesTemplateShape(existingBody, templateBody)
+		? renderedBody
+		: existingBody;
+}
+
+/**
+ * Merges rendered frontmatter values into existing frontmatter, key by key
+ * Keys not produced by the template are kept. Rendered empty values replace
+ * existing ones (a rating removed on Letterboxd is removed from the note):
+ * fields a source could not provide are completed from the note before
+ * rendering (see completeMissingFields).
+ *
+ * @param frontmatter - Existing frontmatter object (mutated in place)
+ * @param rendered - Frontmatter values rendered from the template
+ * @returns Keys whose value changed
+ */
+export function mergeFrontmatterValues(
+	frontmatter: Record<string, unknown>,
+	rendered: Record<string, unknown>
+): string[] {
+	const changedKeys: string[] = [];
+
+	for (const [key, value] of Object.entries(rendered)) {
+		const current = frontmatter[key];
+		if (JSON.stringify(current) === JSON.stringify(value)) continue;
+
+		frontmatter[key] = value;
+		changedKeys.push(key);
+	}
+
+	return changedKeys;
+}
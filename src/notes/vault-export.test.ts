@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { TFile, TFolder } from "obsidian";
+import type { TAbstractFile, Vault } from "obsidian";
+import { findVaultExports, readVaultExport } from "./vault-export";
+
+// The mocked classes take their path (the real ones have no public constructor)
+const MockTFile = TFile as unknown as new (path: string) => TFile;
+const MockTFolder = TFolder as unknown as new (path: string) => TFolder;
+
+/**
+ * Builds a vault with the given files (content by path); folders are derived from the paths
+ */
+function createVault(contents: Record<string, string>): Vault {
+	const folders = new Map<string, TFolder>();
+	const files: TAbstractFile[] = [];
+
+	const getFolder = (path: string): TFolder | null => {
+		if (!path) return null;
+		let folder = folders.get(path);
+		if (!folder) {
+			folder = new MockTFolder(path);
+			folders.set(path, folder);
+			files.push(folder);
+			getFolder(path.split("/").slice(0, -1).join("/"))?.children.push(folder);
+		}
+		return folder;
+	};
+
+	for (const path of Object.keys(contents)) {
+		const file = new MockTFile(path);
+		files.push(file);
+		getFolder(path.split("/").slice(0, -1).join("/"))?.children.push(file);
+	}
+
+	return {
+		getAllLoadedFiles: () => files,
+		readBinary: (file: TFile) =>
+			Promise.resolve(new TextEncoder().encode(contents[file.path]).buffer),
+	} as unknown as Vault;
+}
+
+// ============================================================================
+// findVaultExports
+// ============================================================================
+
+describe("findVaultExports", () => {
+	const vault = createVault({
+		"Inbox/letterboxd-user-2024.zip": "",
+		"Inbox/notes.md": "",
+		"Exports/2024-03/diary.csv": "",
+		"Exports/2024-03/lists/heists.csv": "",
+		"Exports/watched-only/watched.csv": "",
+		"Films/Heat (1995).md": "",
+	});
+
+	it("finds .zip files and extracted export folders", () => {
+		expect(findVaultExports(vault).map((source) => source.path)).toEqual([
+			"Exports/2024-03",
+			"Exports/watched-only",
+			"Inbox/letterboxd-user-2024.zip",
+		]);
+	});
+
+	it("leaves out the folders inside an extracted export", () => {
+		const nested = createVault({
+			"Exports/2024-03/diary.csv": "",
+			"Exports/2024-03/deleted/diary.csv": "",
+			"Exports/2024-03/orphaned/diary.csv": "",
+		});
+
+		expect(findVaultExports(nested).map((source) => source.path)).toEqual(["Exports/2024-03"]);
+	});
+
+	it("only searches the given folder", () => {
+		expect(findVaultExports(vault, "Inbox").map((source) => source.path)).toEqual([
+			"Inbox/letterboxd-user-2024.zip",
+		]);
+	});
+});
+
+// ============================================================================
+// readVaultExport
+// ============================================================================
+
+describe("readVaultExport", () => {
+	it("reads the CSV files of an export folder relative to the folder", async () => {
+		const vault = createVault({
+			"Exports/2024-03/diary.csv": "Date,Name\n",
+			"Exports/2024-03/lists/heists.csv": "Letterboxd list export v7\n",
+			"Exports/2024-03/README.md": "",
+		});
+		const [folder] = findVaultExports(vault);
+
+		const files = await readVaultExport(vault, folder);
+
+		expect([...files.keys()].sort()).toEqual(["diary.csv", "lists/heists.csv"]);
+		expect(new TextDecoder().decode(files.get("diary.csv"))).toBe("Date,Name\n");
+	});
+});
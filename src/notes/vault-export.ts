@@ -0,0 +1,89 @@
+/**
+ * Letterboxd Exports in the Vault
+ *
+ * Finds and reads Letterboxd exports stored in the vault, either as the
+ * downloaded .zip or as its extracted folder. Unlike the file pickers, this
+ * works on mobile and lets new exports be imported automatically.
+ */
+
+import { TFile, TFolder } from "obsidian";
+import type { TAbstractFile, Vault } from "obsidian";
+import { unzip } from "../utils/zip";
+
+/** Files that identify the folder of an extracted export */
+const EXPORT_MARKER_FILES = ["diary.csv", "watched.csv"];
+
+/**
+ * A Letterboxd export in the vault: a .zip file or an extracted export folder
+ */
+export type VaultExport = TFile | TFolder;
+
+/**
+ * Returns true for a .zip file or a folder with the files of an export
+ */
+function isVaultExport(file: TAbstractFile): file is VaultExport {
+	if (file instanceof TFile) {
+		return file.extension.toLowerCase() === "zip";
+	}
+	if (file instanceof TFolder) {
+		return file.children.some(
+			(child) =>
+				child instanceof TFile && EXPORT_MARKER_FILES.includes(child.name.toLowerCase())
+		);
+	}
+	return false;
+}
+
+/**
+ * Lists the Letterboxd exports of the vault
+ * Folders inside an extracted export (e.g. its deleted/ and orphaned/ entries,
+ * which hold their own diary.csv) are part of that export, not exports of their own.
+ * @param vault - Vault to search
+ * @param folderPath - Only list exports inside this folder (whole vault if omitted)
+ * @returns Exports sorted by path
+ */
+export function findVaultExports(vault: Vault, folderPath?: string): VaultExport[] {
+	const prefix = folderPath ? `${folderPath}/` : "";
+	const exports = vault
+		.getAllLoadedFiles()
+		.filter((file) => file.path.startsWith(prefix))
+		.filter(isVaultExport);
+	const exportFolders = exports.filter((source) => source instanceof TFolder);
+
+	return exports
+		.filter(
+			(source) => !exportFolders.some((folder) => source.path.startsWith(`${folder.path}/`))
+		)
+		.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Reads the files of a Letterboxd export in the vault
+ * @param vault - Vault the export is in
+ * @param source - The .zip file or the extracted export folder
+ * @returns CSV files by path inside the export, as returned by unzip
+ * @throws Error if a file cannot be read or the .zip is invalid
+ */
+export async function readVaultExport(
+	vault: Vault,
+	source: VaultExport
+): Promise<Map<string, Uint8Array>> {
+	if (source instanceof TFile) {
+		return unzip(await vault.readBinary(source));
+	}
+
+	const files = new Map<string, Uint8Array>();
+	const walk = async (folder: TFolder): Promise<void> => {
+		for (const child of folder.children) {
+			if (child instanceof TFolder) {
+				await walk(child);
+			} else if (child instanceof TFile && child.extension.toLowerCase() === "csv") {
+				const relativePath = child.path.slice(source.path.length + 1);
+				files.set(relativePath, new Uint8Array(await vault.readBinary(child)));
+			}
+		}
+	};
+	await walk(source);
+
+	return files;
+}
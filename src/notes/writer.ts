@@ -0,0 +1,133 @@
+/**
+ * Rewrites generated notes in place
+ *
+ * Shared by diary and Film notes: re-rendered content is merged into the
+ * existing note through the rules in ./update, so the user's own writing
+ * outside managed regions and their own frontmatter keys survive.
+ *
+ * A rewrite is planned first and applied second, so callers can preview the
+ * resulting note (see the regenerate command) before anything is written.
+ */
+
+import { parseYaml, stringifyYaml, TFile } from "obsidian";
+import type LetterboxdPlugin from "../main";
+import { splitFrontmatter } from "../utils/frontmatter";
+import { mergeGeneratedBody, mergeFrontmatterValues } from "./update";
+
+/**
+ * Planned rewrite of a single note
+ */
+export interface NoteRewrite {
+	file: TFile;
+	/** Note content the plan was computed from */
+	oldContent: string;
+	/** Note content after the rewrite (frontmatter as Obsidian would serialize it) */
+	newContent: string;
+	/** Merged body, frontmatter excluded */
+	body: string;
+	/** Frontmatter values rendered from the template */
+	frontmatterValues: Record<string, unknown>;
+	bodyChanged: boolean;
+	frontmatterChanged: boolean;
+	/** Body replaced although it couldn't be merged safely (only with replaceUnmanagedBody) */
+	unmanagedBodyReplaced: boolean;
+}
+
+/**
+ * Parses a frontmatter block into an object (empty object if there is none)
+ */
+function parseFrontmatterValues(frontmatter: string | null): Record<string, unknown> {
+	if (!frontmatter) {
+		return {};
+	}
+	return (parseYaml(frontmatter) as Record<string, unknown> | null) ?? {};
+}
+
+/**
+ * Computes the rewrite of the plugin-generated parts of an existing note
+ *
+ * - Body: managed regions are replaced (or the whole body if unedited, see mergeGeneratedBody)
+ * - Frontmatter: merged key by key
+ *
+ * @param plugin - Plugin instance for vault access
+ * @param file - Existing note to rewrite
+ * @param renderedContent - Note content rendered from the template with fresh data
+ * @param template - Template used to render the content
+ * @param replaceUnmanagedBody - Replace bodies that can't be merged safely instead of keeping them
+ * @throws Error if the rendered frontmatter is not valid YAML
+ */
+export async function planNoteRewrite(
+	plugin: LetterboxdPlugin,
+	file: TFile,
+	renderedContent: string,
+	template: string,
+	replaceUnmanagedBody = false
+): Promise<NoteRewrite> {
+	const rendered = splitFrontmatter(renderedContent);
+	const templateBody = splitFrontmatter(template).body;
+	const frontmatterValues = parseFrontmatterValues(rendered.frontmatter);
+
+	const oldContent = await plugin.app.vault.read(file);
+	const existing = splitFrontmatter(oldContent);
+
+	const safeBody = mergeGeneratedBody(existing.body, rendered.body, templateBody);
+	const body = replaceUnmanagedBody
+		? mergeGeneratedBody(existing.body, rendered.body, templateBody, true)
+		: safeBody;
+	const bodyChanged = body !== existing.body;
+
+	// Dry-run the frontmatter merge on a copy to avoid rewriting unchanged notes
+	const mergedValues = parseFrontmatterValues(existing.frontmatter);
+	const frontmatterChanged = mergeFrontmatterValues(mergedValues, frontmatterValues).length > 0;
+
+	let newContent: string;
+	if (frontmatterChanged) {
+		newContent = `---\n${stringifyYaml(mergedValues)}---\n${body}`;
+	} else {
+		newContent = oldContent.slice(0, oldContent.length - existing.body.length) + body;
+	}
+
+	return {
+		file,
+		oldContent,
+		newContent,
+		body,
+		frontmatterValues,
+		bodyChanged,
+		frontmatterChanged,
+		unmanagedBodyReplaced: body !== safeBody,
+	};
+}
+
+/**
+ * Applies a planned rewrite
+ * The body is written first, keeping the existing frontmatter text byte for
+ * byte; frontmatter changes then go through Obsidian's processFrontMatter.
+ *
+ * @throws Error if the note changed since the rewrite was planned
+ */
+export async function applyNoteRewrite(
+	plugin: LetterboxdPlugin,
+	rewrite: NoteRewrite
+): Promise<void> {
+	const { vault, fileManager } = plugin.app;
+	const { file } = rewrite;
+
+	if (rewrite.bodyChanged) {
+		const content = await vault.read(file);
+		if (content !== rewrite.oldContent) {
+			throw new Error(`"${file.path}" was modified since the preview`);
+		}
+		const existing = splitFrontmatter(content);
+		await vault.modify(
+			file,
+			content.slice(0, content.length - existing.body.length) + rewrite.body
+		);
+	}
+
+	if (rewrite.frontmatterChanged) {
+		await fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			mergeFrontmatterValues(frontmatter, rewrite.frontmatterValues);
+		});
+	}
+}
@@ -1,7 +1,16 @@
-import { App, normalizePath, PluginSettingTab, Setting, debounce } from "obsidian";
+import { App, normalizePath, Notice, PluginSettingTab, Setting, debounce } from "obsidian";
+import type { TextComponent } from "obsidian";
 import type LetterboxdPlugin from "./main";
-import type { LetterboxdSettings, NotificationLevel } from "./types";
+import type { LetterboxdAccount, LetterboxdSettings, NotificationLevel } from "./types";
 import { TemplateEditorModal } from "./ui/template-editor-modal";
+import { ConfirmModal } from "./ui/confirm-modal";
+import { httpCache } from "./utils/http-cache";
+
+/** Settings holding the cache time to live of a resource type */
+type CacheTtlSettingKey =
+	| "cacheTtlFilmPageDays"
+	| "cacheTtlViewingPageDays"
+	| "cacheTtlTmdbMovieDays";
 
 /** Debounce delay for saving settings (ms) */
 const SETTINGS_SAVE_DEBOUNCE_MS = 500;
@@ -10,6 +19,7 @@ const SETTINGS_SAVE_DEBOUNCE_MS = 500;
 const DEFAULT_NOTE_TEMPLATE = `---
 film: "[[{{filmTitle}} ({{filmYear}})]]"
 rating: {{userRatingNoOver10}}
+liked: {{liked}}
 watched_date: {{watchedDate}}
 letterboxd_url: {{link yaml=true}}
 tmdb_id: {{tmdbId}}
@@ -18,17 +28,19 @@ letterboxd_guid: {{guid}}
 letterboxd_tags: {{tags yaml=true}}
 ---
 
+%% letterboxd:start %%
 # [[{{filmTitle}} ({{filmYear}})]]
 
 {{posterUrl skipEmpty=true prefix="![Poster](" suffix=")"}}
 
-**Rating**: {{userRatingStars}}
+**Rating**: {{userRatingStars}}{{#if liked}} ♥{{/if}}
 **Watched**: {{watchedDate}}{{#if rewatch}} (rewatch){{/if}}
 
 {{review skipEmpty=true quote=true}}
 
 ---
 [View on Letterboxd]({{link}})
+%% letterboxd:end %%
 `;
 
 /** Default filename template */
@@ -134,6 +146,7 @@ cast: {{cast yaml=true link=true}}
 poster: "{{posterUrlL}}"
 ---
 
+%% letterboxd:start %%
 # {{title}} ({{year}})
 
 {{posterUrlL skipEmpty=true prefix="![Poster](" suffix=")"}}
@@ -150,18 +163,162 @@ poster: "{{posterUrlL}}"
 
 ---
 [TMDB]({{tmdbUrl}}){{#if imdbId}} | [IMDb](https://imdb.com/title/{{imdbId}}){{/if}}
+%% letterboxd:end %%
 `;
 
+// ============================================================================
+// List Defaults
+// ============================================================================
+
+/** Default folder for list notes */
+const DEFAULT_LIST_FOLDER_PATH = "Letterboxd/Lists";
+
+/** Default note template for list notes */
+const DEFAULT_LIST_NOTE_TEMPLATE = `---
+letterboxd_list_url: {{url yaml=true}}
+ranked: {{ranked}}
+letterboxd_tags: {{tags yaml=true}}
+---
+
+%% letterboxd:start %%
+# {{name}}
+
+{{description}}
+
+{{entries}}
+
+---
+[View on Letterboxd]({{url}})
+%% letterboxd:end %%
+`;
+
+/** Default vault path of the profile note */
+const DEFAULT_PROFILE_NOTE_PATH = "Letterboxd/My film profile.md";
+
+/** Default note template for the profile note */
+const DEFAULT_PROFILE_NOTE_TEMPLATE = `---
+letterboxd_profile: {{url yaml=true}}
+films_watched: {{filmsWatched}}
+films_this_year: {{filmsThisYear}}
+lists: {{listsCount}}
+followers: {{followers}}
+favorites: {{favoriteTitles yaml=true}}
+---
+
+%% letterboxd:start %%
+# {{username}}
+
+## Favourite films
+
+{{favorites}}
+
+## Stats
+
+- **Films**: {{filmsWatched}}
+- **This year**: {{filmsThisYear}}
+- **Lists**: {{listsCount}}
+- **Followers**: {{followers}}
+
+---
+[View on Letterboxd]({{url}})
+%% letterboxd:end %%
+`;
+
+// ============================================================================
+// Cache Defaults
+// ============================================================================
+
+/** Film page → TMDB ID mappings practically never change */
+const DEFAULT_CACHE_TTL_FILM_PAGE_DAYS = 365;
+
+/** Diary entry pages only change when the entry is edited */
+const DEFAULT_CACHE_TTL_VIEWING_PAGE_DAYS = 30;
+
+/** TMDB vote counts and popularity go stale quickly */
+const DEFAULT_CACHE_TTL_TMDB_MOVIE_DAYS = 1;
+
+/**
+ * Returns the default diary folder and profile note path of an account
+ * Each username gets its own paths under the default folder, so accounts
+ * don't write their notes over each other's.
+ * @param username - Username of the account (the shared defaults if empty)
+ */
+export function getDefaultAccountPaths(
+	username: string
+): Pick<LetterboxdAccount, "folderPath" | "profileNotePath"> {
+	if (!username) {
+		return { folderPath: DEFAULT_FOLDER_PATH, profileNotePath: DEFAULT_PROFILE_NOTE_PATH };
+	}
+	return {
+		folderPath: `${DEFAULT_FOLDER_PATH}/${username}`,
+		profileNotePath: `${DEFAULT_FOLDER_PATH}/${username}/My film profile.md`,
+	};
+}
+
+/**
+ * Returns the settings of a new account
+ * @param account - Settings to keep (e.g., of an account loaded from data.json)
+ */
+export function createAccount(account: Partial<LetterboxdAccount> = {}): LetterboxdAccount {
+	return {
+		username: "",
+		...getDefaultAccountPaths(account.username ?? ""),
+		filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
+		noteTemplate: DEFAULT_NOTE_TEMPLATE,
+		syncOnStartup: true,
+		syncReviewsOnly: false,
+		syncListsFromRss: false,
+		...account,
+	};
+}
+
+/** Account settings that were top-level settings before multiple accounts */
+const LEGACY_ACCOUNT_KEYS: (keyof LetterboxdAccount)[] = [
+	"username",
+	"folderPath",
+	"filenameTemplate",
+	"noteTemplate",
+	"syncOnStartup",
+	"syncReviewsOnly",
+	"syncListsFromRss",
+	"profileNotePath",
+];
+
+/**
+ * Moves the top-level account settings of data saved with a single account
+ * into the first account, and completes the accounts with default settings
+ * @param data - Settings loaded from data.json, updated in place
+ */
+export function migrateAccountSettings(data: Record<string, unknown>): void {
+	const legacy: Record<string, unknown> = {};
+	for (const key of LEGACY_ACCOUNT_KEYS) {
+		if (key in data) {
+			legacy[key] = data[key];
+			delete data[key];
+		}
+	}
+
+	const accounts = Array.isArray(data.accounts)
+		? (data.accounts as Partial<LetterboxdAccount>[])
+		: [];
+	// The single account keeps the shared default paths its notes were written to
+	data.accounts =
+		accounts.length > 0
+			? accounts.map((account) => createAccount(account))
+			: [createAccount({ ...getDefaultAccountPaths(""), ...legacy })];
+}
+
 export const DEFAULT_SETTINGS: LetterboxdSettings = {
 	// Letterboxd settings
-	username: "",
-	folderPath: DEFAULT_FOLDER_PATH,
-	filenameTemplate: DEFAULT_FILENAME_TEMPLATE,
-	noteTemplate: DEFAULT_NOTE_TEMPLATE,
-	syncOnStartup: true,
-	syncReviewsOnly: false,
+	accounts: [],
+	updateExistingNotes: false,
 	notificationLevel: DEFAULT_NOTIFICATION_LEVEL,
 	guidFrontmatterKey: DEFAULT_GUID_KEY,
+	exportWatchFolder: "",
+	// List settings
+	listFolderPath: DEFAULT_LIST_FOLDER_PATH,
+	listNoteTemplate: DEFAULT_LIST_NOTE_TEMPLATE,
+	profileNoteTemplate: DEFAULT_PROFILE_NOTE_TEMPLATE,
 	// TMDB settings
 	tmdbApiKey: "",
 	tmdbFolderPath: DEFAULT_TMDB_FOLDER_PATH,
@@ -169,6 +326,10 @@ export const DEFAULT_SETTINGS: LetterboxdSettings = {
 	tmdbNoteTemplate: DEFAULT_TMDB_NOTE_TEMPLATE,
 	tmdbLanguage: DEFAULT_TMDB_LANGUAGE,
 	tmdbIdFrontmatterKey: DEFAULT_TMDB_ID_KEY,
+	// Cache settings
+	cacheTtlFilmPageDays: DEFAULT_CACHE_TTL_FILM_PAGE_DAYS,
+	cacheTtlViewingPageDays: DEFAULT_CACHE_TTL_VIEWING_PAGE_DAYS,
+	cacheTtlTmdbMovieDays: DEFAULT_CACHE_TTL_TMDB_MOVIE_DAYS,
 };
 
 export class LetterboxdSettingTab extends PluginSettingTab {
@@ -203,49 +364,13 @@ export class LetterboxdSettingTab extends PluginSettingTab {
 		// ============================================================================
 
 		new Setting(containerEl)
-			.setName("Letterboxd username")
-			.setDesc("Your Letterboxd username")
-			.addText((text) =>
-				text
-					.setPlaceholder("Username")
-					.setValue(this.plugin.settings.username)
-					.onChange((value) => {
-						this.plugin.settings.username = value.trim();
-						this.debouncedSave();
-					})
-			);
-
-		new Setting(containerEl)
-			.setName("Diary folder")
-			.setDesc("Folder where diary notes will be created")
-			.addText((text) =>
-				text
-					.setPlaceholder(DEFAULT_FOLDER_PATH)
-					.setValue(this.plugin.settings.folderPath)
-					.onChange((value) => {
-						this.plugin.settings.folderPath = normalizePath(
-							value.trim() || DEFAULT_FOLDER_PATH
-						);
-						this.debouncedSave();
-					})
-			);
-
-		new Setting(containerEl)
-			.setName("Sync on startup")
-			.setDesc("Automatically sync diary entries when Obsidian starts")
-			.addToggle((toggle) =>
-				toggle.setValue(this.plugin.settings.syncOnStartup).onChange((value) => {
-					this.plugin.settings.syncOnStartup = value;
-					this.debouncedSave();
-				})
-			);
-
-		new Setting(containerEl)
-			.setName("Reviews only")
-			.setDesc("Only sync entries that have a review (skip watch-only logs)")
+			.setName("Update existing notes")
+			.setDesc(
+				"Rewrite the generated parts of existing notes when an entry changes on Letterboxd"
+			)
 			.addToggle((toggle) =>
-				toggle.setValue(this.plugin.settings.syncReviewsOnly).onChange((value) => {
-					this.plugin.settings.syncReviewsOnly = value;
+				toggle.setValue(this.plugin.settings.updateExistingNotes).onChange((value) => {
+					this.plugin.settings.updateExistingNotes = value;
 					this.debouncedSave();
 				})
 			);
@@ -265,45 +390,128 @@ export class LetterboxdSettingTab extends PluginSettingTab {
 					});
 			});
 
+		new Setting(containerEl)
+			.setName("Export watch folder")
+			.setDesc(
+				"Vault folder where Letterboxd exports (.zip or extracted folder) are imported automatically when added. Every dataset is imported, and each export only once. Leave empty to disable."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Letterboxd/exports")
+					.setValue(this.plugin.settings.exportWatchFolder)
+					.onChange((value) => {
+						this.plugin.settings.exportWatchFolder = value.trim()
+							? normalizePath(value.trim())
+							: "";
+						this.debouncedSave();
+					})
+			);
+
 		// ============================================================================
-		// Diary templates section
+		// Accounts section
 		// ============================================================================
 
-		new Setting(containerEl).setName("Diary templates").setHeading();
+		this.plugin.settings.accounts.forEach((account, index) =>
+			this.displayAccount(containerEl, account, index)
+		);
 
 		new Setting(containerEl)
-			.setName("Filename template")
 			.setDesc(
-				createDescWithVariables("Available: ", [
-					"{{filmTitle}}",
-					"{{filmYear}}",
-					"{{watchedDate}}",
-					"{{tmdbId}}",
-				])
+				"Sync another Letterboxd account to this vault. Each account has its own diary folder; film notes are shared."
 			)
-			.addText((text) => {
-				text.setPlaceholder(DEFAULT_FILENAME_TEMPLATE)
-					.setValue(this.plugin.settings.filenameTemplate)
+			.addButton((button) =>
+				button.setButtonText("Add account").onClick(async () => {
+					this.plugin.settings.accounts.push(createAccount());
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+
+		// ============================================================================
+		// Lists section
+		// ============================================================================
+
+		new Setting(containerEl).setName("Lists").setHeading();
+
+		new Setting(containerEl)
+			.setName("List folder")
+			.setDesc("Folder where list notes will be created")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_LIST_FOLDER_PATH)
+					.setValue(this.plugin.settings.listFolderPath)
 					.onChange((value) => {
-						this.plugin.settings.filenameTemplate =
-							value.trim() || DEFAULT_FILENAME_TEMPLATE;
+						this.plugin.settings.listFolderPath = normalizePath(
+							value.trim() || DEFAULT_LIST_FOLDER_PATH
+						);
 						this.debouncedSave();
-					});
-				text.inputEl.addClass("letterboxd-monospace-input");
-			});
+					})
+			);
 
-		// Diary note template - button to open modal
+		// List note template - button to open modal
 		new Setting(containerEl)
-			.setName("Note template")
-			.setDesc("Template for diary note content")
+			.setName("List note template")
+			.setDesc(
+				createDescWithVariables(
+					"Template for list note content. Keep letterboxd_list_url so notes are updated instead of duplicated. Available: ",
+					[
+						"{{name}}",
+						"{{url}}",
+						"{{description}}",
+						"{{ranked}}",
+						"{{tags}}",
+						"{{filmCount}}",
+						"{{entries}}",
+					]
+				)
+			)
 			.addButton((button) =>
 				button.setButtonText("Edit template").onClick(() => {
 					new TemplateEditorModal(this.app, {
-						title: "Edit diary note template",
-						template: this.plugin.settings.noteTemplate,
-						defaultTemplate: DEFAULT_NOTE_TEMPLATE,
+						title: "Edit list note template",
+						template: this.plugin.settings.listNoteTemplate,
+						defaultTemplate: DEFAULT_LIST_NOTE_TEMPLATE,
 						onSave: (template) => {
-							this.plugin.settings.noteTemplate = template;
+							this.plugin.settings.listNoteTemplate = template;
+							void this.plugin.saveSettings();
+						},
+					}).open();
+				})
+			);
+
+		// ============================================================================
+		// Profile section
+		// ============================================================================
+
+		new Setting(containerEl).setName("Profile").setHeading();
+
+		// Profile note template - button to open modal
+		new Setting(containerEl)
+			.setName("Profile note template")
+			.setDesc(
+				createDescWithVariables("Template for profile note content. Available: ", [
+					"{{username}}",
+					"{{url}}",
+					"{{favorites}}",
+					"{{favorite1}}",
+					"{{favorite2}}",
+					"{{favorite3}}",
+					"{{favorite4}}",
+					"{{favoriteTitles}}",
+					"{{filmsWatched}}",
+					"{{filmsThisYear}}",
+					"{{listsCount}}",
+					"{{followers}}",
+				])
+			)
+			.addButton((button) =>
+				button.setButtonText("Edit template").onClick(() => {
+					new TemplateEditorModal(this.app, {
+						title: "Edit profile note template",
+						template: this.plugin.settings.profileNoteTemplate,
+						defaultTemplate: DEFAULT_PROFILE_NOTE_TEMPLATE,
+						onSave: (template) => {
+							this.plugin.settings.profileNoteTemplate = template;
 							void this.plugin.saveSettings();
 						},
 					}).open();
@@ -415,6 +623,88 @@ export class LetterboxdSettingTab extends PluginSettingTab {
 				})
 			);
 
+		// ============================================================================
+		// Needs attention section (only shown when entries failed enrichment)
+		// ============================================================================
+
+		const { failedEnrichments } = this.plugin.state;
+		if (failedEnrichments.length > 0) {
+			new Setting(containerEl).setName("Needs attention").setHeading();
+
+			new Setting(containerEl)
+				.setDesc(
+					"These entries were imported from the CSV without their Letterboxd data (viewing ID, TMDB ID, poster). Retrying fetches it again and completes their notes."
+				)
+				.addButton((btn) =>
+					btn.setButtonText("Retry").onClick(async () => {
+						btn.setDisabled(true);
+						await this.plugin.retryFailedEnrichments();
+						this.display();
+					})
+				);
+
+			for (const { entry, reason } of failedEnrichments) {
+				new Setting(containerEl)
+					.setName(`${entry.filmTitle} (${entry.filmYear}), watched ${entry.watchedDate}`)
+					.setDesc(reason);
+			}
+		}
+
+		// ============================================================================
+		// Cache section
+		// ============================================================================
+
+		new Setting(containerEl).setName("Cache").setHeading();
+
+		new Setting(containerEl).setDesc(
+			"Data fetched from Letterboxd and TMDB is cached, so imports and film syncs don't fetch the same pages again. Set a duration to 0 to disable caching for that data."
+		);
+
+		const cacheTtls: { name: string; desc: string; key: CacheTtlSettingKey }[] = [
+			{
+				name: "Film pages (days)",
+				desc: "How long the TMDB ID of a Letterboxd film is kept",
+				key: "cacheTtlFilmPageDays",
+			},
+			{
+				name: "Diary entry pages (days)",
+				desc: "How long the data of a Letterboxd diary entry page is kept",
+				key: "cacheTtlViewingPageDays",
+			},
+			{
+				name: "TMDB movie data (days)",
+				desc: "How long TMDB movie details (including vote counts) are kept",
+				key: "cacheTtlTmdbMovieDays",
+			},
+		];
+
+		for (const { name, desc, key } of cacheTtls) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text.inputEl.min = "0";
+					text.setValue(String(this.plugin.settings[key])).onChange((value) => {
+						const days = parseFloat(value);
+						if (!isNaN(days) && days >= 0) {
+							this.plugin.settings[key] = days;
+							this.debouncedSave();
+						}
+					});
+				});
+		}
+
+		new Setting(containerEl)
+			.setName("Clear cache")
+			.setDesc("Remove all cached Letterboxd and TMDB data")
+			.addButton((btn) =>
+				btn.setButtonText("Clear cache").onClick(async () => {
+					await httpCache.clear();
+					new Notice("Letterboxd: cache cleared.");
+				})
+			);
+
 		// ============================================================================
 		// Advanced section
 		// ============================================================================
@@ -456,6 +746,170 @@ export class LetterboxdSettingTab extends PluginSettingTab {
 				text.inputEl.addClass("letterboxd-monospace-input");
 			});
 	}
+
+	/**
+	 * Shows the settings of one account under its own heading
+	 */
+	private displayAccount(
+		containerEl: HTMLElement,
+		account: LetterboxdAccount,
+		index: number
+	): void {
+		const { accounts } = this.plugin.settings;
+		// Set once their settings are shown, to follow a username change
+		let folderText: TextComponent | null = null;
+		let profileText: TextComponent | null = null;
+
+		const heading = new Setting(containerEl)
+			.setName(account.username ? `Account: ${account.username}` : `Account ${index + 1}`)
+			.setHeading();
+		if (accounts.length > 1) {
+			heading.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Remove account")
+					.onClick(() => {
+						new ConfirmModal(this.app, {
+							title: "Remove account",
+							message: `Stop syncing ${account.username || `account ${index + 1}`}? Its notes stay in the vault.`,
+							confirmText: "Remove",
+							onConfirm: async () => {
+								accounts.splice(accounts.indexOf(account), 1);
+								await this.plugin.saveSettings();
+								this.display();
+							},
+						}).open();
+					})
+			);
+		}
+
+		new Setting(containerEl)
+			.setName("Letterboxd username")
+			.setDesc("Your Letterboxd username")
+			.addText((text) =>
+				text
+					.setPlaceholder("Username")
+					.setValue(account.username)
+					.onChange((value) => {
+						const previous = getDefaultAccountPaths(account.username);
+						account.username = value.trim();
+						// Paths left at their default follow the username, so that
+						// accounts don't share a diary folder or profile note
+						if (accounts.length > 1) {
+							const next = getDefaultAccountPaths(account.username);
+							if (account.folderPath === previous.folderPath) {
+								account.folderPath = next.folderPath;
+								folderText?.setValue(next.folderPath);
+							}
+							if (account.profileNotePath === previous.profileNotePath) {
+								account.profileNotePath = next.profileNotePath;
+								profileText?.setValue(next.profileNotePath);
+							}
+						}
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Diary folder")
+			.setDesc(
+				"Folder where diary notes will be created. Use a different folder for each account."
+			)
+			.addText((text) =>
+				(folderText = text)
+					.setPlaceholder(DEFAULT_FOLDER_PATH)
+					.setValue(account.folderPath)
+					.onChange((value) => {
+						account.folderPath = normalizePath(value.trim() || DEFAULT_FOLDER_PATH);
+						this.debouncedSave();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Sync on startup")
+			.setDesc("Automatically sync diary entries when Obsidian starts")
+			.addToggle((toggle) =>
+				toggle.setValue(account.syncOnStartup).onChange((value) => {
+					account.syncOnStartup = value;
+					this.debouncedSave();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Reviews only")
+			.setDesc("Only sync entries that have a review (skip watch-only logs)")
+			.addToggle((toggle) =>
+				toggle.setValue(account.syncReviewsOnly).onChange((value) => {
+					account.syncReviewsOnly = value;
+					this.debouncedSave();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Sync lists")
+			.setDesc(
+				"Create list notes for the lists you publish when syncing the diary. Existing list notes are only rewritten if update existing notes is on."
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(account.syncListsFromRss).onChange((value) => {
+					account.syncListsFromRss = value;
+					this.debouncedSave();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Filename template")
+			.setDesc(
+				createDescWithVariables("Available: ", [
+					"{{filmTitle}}",
+					"{{filmYear}}",
+					"{{watchedDate}}",
+					"{{tmdbId}}",
+				])
+			)
+			.addText((text) => {
+				text.setPlaceholder(DEFAULT_FILENAME_TEMPLATE)
+					.setValue(account.filenameTemplate)
+					.onChange((value) => {
+						account.filenameTemplate = value.trim() || DEFAULT_FILENAME_TEMPLATE;
+						this.debouncedSave();
+					});
+				text.inputEl.addClass("letterboxd-monospace-input");
+			});
+
+		// Diary note template - button to open modal
+		new Setting(containerEl)
+			.setName("Note template")
+			.setDesc("Template for diary note content")
+			.addButton((button) =>
+				button.setButtonText("Edit template").onClick(() => {
+					new TemplateEditorModal(this.app, {
+						title: "Edit diary note template",
+						template: account.noteTemplate,
+						defaultTemplate: DEFAULT_NOTE_TEMPLATE,
+						onSave: (template) => {
+							account.noteTemplate = template;
+							void this.plugin.saveSettings();
+						},
+					}).open();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Profile note")
+			.setDesc("Note kept up to date with the favourite films and stats of the account")
+			.addText((text) =>
+				(profileText = text)
+					.setPlaceholder(DEFAULT_PROFILE_NOTE_PATH)
+					.setValue(account.profileNotePath)
+					.onChange((value) => {
+						let path = value.trim() || DEFAULT_PROFILE_NOTE_PATH;
+						if (!path.endsWith(".md")) path += ".md";
+						account.profileNotePath = normalizePath(path);
+						this.debouncedSave();
+					})
+			);
+	}
 }
 
 /**
@@ -5,6 +5,9 @@ import {
 	formatArray,
 	wikiLink,
 	createTemplateEngine,
+	matchesTemplateShape,
+	getFrontmatterVariables,
+	spoilerCallout,
 } from "./template-engine";
 
 // ============================================================================
@@ -12,6 +15,10 @@ import {
 // ============================================================================
 
 describe("parseParams", () => {
+	it("parses spoilerSafe", () => {
+		expect(parseParams(" spoilerSafe=true")).toEqual({ spoilerSafe: true });
+	});
+
 	it("returns empty object for undefined input", () => {
 		expect(parseParams(undefined)).toEqual({});
 	});
@@ -386,6 +393,64 @@ describe("createTemplateEngine", () => {
 			).toBe("Cast: Leonardo DiCaprio as Hugh Glass, Tom Hardy as John Fitzgerald.");
 		});
 	});
+
+	describe("spoilerSafe", () => {
+		interface ReviewData {
+			review: string;
+			spoilers: boolean;
+		}
+
+		const reviewEngine = createTemplateEngine<ReviewData>({
+			accessors: { review: (d) => d.review },
+			hasSpoilers: (d) => d.spoilers,
+		});
+
+		it("folds the value in a spoiler callout when the data has spoilers", () => {
+			expect(
+				reviewEngine.render("{{review spoilerSafe=true}}", {
+					review: "He dies.\n\nThe end.",
+					spoilers: true,
+				})
+			).toBe("> [!warning]- Spoilers\n> He dies.\n>\n> The end.");
+		});
+
+		it("renders the value as usual without spoilers", () => {
+			expect(
+				reviewEngine.render("{{review spoilerSafe=true}}", {
+					review: "Great.",
+					spoilers: false,
+				})
+			).toBe("Great.");
+		});
+
+		it("applies other modifiers inside the callout and prefix/suffix outside", () => {
+			expect(
+				reviewEngine.render('{{review spoilerSafe=true quote=true prefix="## Review\n"}}', {
+					review: "He dies.",
+					spoilers: true,
+				})
+			).toBe("## Review\n> [!warning]- Spoilers\n> > He dies.");
+		});
+
+		it("renders nothing for empty values with skipEmpty", () => {
+			expect(
+				reviewEngine.render("{{review spoilerSafe=true skipEmpty=true}}", {
+					review: "",
+					spoilers: true,
+				})
+			).toBe("");
+		});
+	});
+});
+
+// ============================================================================
+// spoilerCallout
+// ============================================================================
+
+describe("spoilerCallout", () => {
+	it("returns empty string for empty text", () => {
+		expect(spoilerCallout("")).toBe("");
+	});
 });
 
 // ============================================================================
@@ -405,3 +470,85 @@ describe("yaml with bold/italic (incompatible options)", () => {
 		expect(result).toBe('"hello"'); // No bold applied, just quoted
 	});
 });
+
+// ============================================================================
+// matchesTemplateShape
+// ============================================================================
+
+describe("matchesTemplateShape", () => {
+	const template =
+		"# {{filmTitle}}\n\n**Rating**: {{userRatingStars}}{{#if rewatch}} (rewatch){{/if}}\n";
+
+	it("matches content rendered from the template", () => {
+		expect(matchesTemplateShape("# Die Hard\n\n**Rating**: ★★★★ (rewatch)\n", template)).toBe(
+			true
+		);
+	});
+
+	it("matches when variables render empty", () => {
+		expect(matchesTemplateShape("# \n\n**Rating**: \n", template)).toBe(true);
+	});
+
+	it("ignores trailing newline differences", () => {
+		expect(matchesTemplateShape("# Die Hard\n\n**Rating**: ★★★★\n\n", template)).toBe(true);
+	});
+
+	it("matches when a trailing variable renders empty", () => {
+		const reviewTemplate = "# {{filmTitle}}\n\n{{review}}\n";
+		expect(matchesTemplateShape("# Die Hard\n\n\n", reviewTemplate)).toBe(true);
+	});
+
+	it("does not match when static text was edited", () => {
+		expect(matchesTemplateShape("# Die Hard\n\n**My rating**: ★★★★\n", template)).toBe(false);
+	});
+
+	it("does not match when text was appended after the template", () => {
+		const linkTemplate = "# {{filmTitle}}\n\n[View on Letterboxd]({{link}})\n";
+		expect(
+			matchesTemplateShape(
+				"# Die Hard\n\n[View on Letterboxd](https://boxd.it/x)\n\n## My notes\nLoved it",
+				linkTemplate
+			)
+		).toBe(false);
+	});
+
+	it("escapes regex characters in static text", () => {
+		expect(matchesTemplateShape("[View](https://x.com)", "[View]({{link}})")).toBe(true);
+		expect(matchesTemplateShape("[View]https://x.com", "[View]({{link}})")).toBe(false);
+	});
+});
+
+// ============================================================================
+// getFrontmatterVariables
+// ============================================================================
+
+describe("getFrontmatterVariables", () => {
+	it("maps keys whose value is a single variable", () => {
+		const template = `---
+rating: {{userRatingNoOver10}}
+letterboxd_url: {{link yaml=true}}
+title: "{{filmTitle}}"
+---
+
+# {{filmTitle}}
+`;
+		expect(getFrontmatterVariables(template)).toEqual({
+			rating: "userRatingNoOver10",
+			letterboxd_url: "link",
+			title: "filmTitle",
+		});
+	});
+
+	it("ignores keys mixing variables with other text", () => {
+		const template = `---
+film: "[[{{filmTitle}} ({{filmYear}})]]"
+source: letterboxd
+---
+`;
+		expect(getFrontmatterVariables(template)).toEqual({});
+	});
+
+	it("returns empty object for templates without frontmatter", () => {
+		expect(getFrontmatterVariables("# {{filmTitle}}")).toEqual({});
+	});
+});
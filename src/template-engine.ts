@@ -20,6 +20,7 @@ export interface TemplateParams {
 	link?: boolean;
 	linkActors?: boolean;
 	linkCharacters?: boolean;
+	spoilerSafe?: boolean;
 }
 
 /** Raw value type - can be string, number, boolean, or string array */
@@ -37,6 +38,8 @@ export interface TemplateEngineConfig<T> {
 	accessors: Record<string, ValueAccessor<T>>;
 	/** Optional special handlers for complex variables */
 	specialHandlers?: Record<string, SpecialHandler<T>>;
+	/** Whether the data contains spoilers (enables the spoilerSafe parameter) */
+	hasSpoilers?: (data: T) => boolean;
 }
 
 // ============================================================================
@@ -109,6 +112,9 @@ function parseParams(paramString: string | undefined): TemplateParams {
 			case "linkCharacters":
 				params.linkCharacters = value === "true";
 				break;
+			case "spoilerSafe":
+				params.spoilerSafe = value === "true";
+				break;
 		}
 	}
 
@@ -230,6 +236,18 @@ function formatString(str: string, params: TemplateParams): string {
 	return result;
 }
 
+/**
+ * Wraps text in a folded Obsidian callout that hides spoilers until expanded
+ * @param text - Text to hide (may span several lines)
+ * @returns Callout Markdown, or empty string for empty text
+ */
+function spoilerCallout(text: string): string {
+	if (text === "") return "";
+
+	const lines = text.split("\n").map((line) => (line ? `> ${line}` : ">"));
+	return ["> [!warning]- Spoilers", ...lines].join("\n");
+}
+
 /**
  * Formats a raw value according to the given parameters
  * @param value - Raw value (string, number, boolean, or array)
@@ -287,7 +305,7 @@ function isTruthy(value: RawValue): boolean {
  * @returns Object with render and generateFilename functions
  */
 export function createTemplateEngine<T>(config: TemplateEngineConfig<T>) {
-	const { accessors, specialHandlers = {} } = config;
+	const { accessors, specialHandlers = {}, hasSpoilers } = config;
 
 	/**
 	 * Processes conditional blocks in the template
@@ -341,6 +359,17 @@ export function createTemplateEngine<T>(config: TemplateEngineConfig<T>) {
 				}
 
 				const value = accessor(data);
+
+				// spoilerSafe=true hides the formatted value in a spoiler callout
+				if (params.spoilerSafe && hasSpoilers?.(data) && !isEmpty(value)) {
+					const { prefix, suffix, ...valueParams } = params;
+					return (
+						(prefix ?? "") +
+						spoilerCallout(formatValue(value, valueParams)) +
+						(suffix ?? "")
+					);
+				}
+
 				return formatValue(value, params);
 			}
 		);
@@ -374,8 +403,78 @@ export function createTemplateEngine<T>(config: TemplateEngineConfig<T>) {
 	return { render, generateFilename };
 }
 
+// ============================================================================
+// Template Shape Matching
+// ============================================================================
+
+/** Regex matching any dynamic part of a template (conditional block or variable) */
+const DYNAMIC_PART_PATTERN = /\{\{#if\s+\w+\}\}[\s\S]*?\{\{\/if\}\}|\{\{\w+(?:\s+[^}]+)?\}\}/g;
+
+/**
+ * Checks whether content could have been produced by rendering the template
+ * Static template text must appear verbatim; variables and conditional blocks match anything.
+ * Trailing newlines are ignored.
+ * Used to detect whether a generated note has been edited by hand.
+ * @param content - Rendered content to check
+ * @param template - Template the content was rendered from
+ * @returns true if the content has the same shape as the template
+ */
+function matchesTemplateShape(content: string, template: string): boolean {
+	const escapeRegex = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const trimTrailingNewlines = (s: string) => s.replace(/[\r\n]+$/, "");
+	const pattern = trimTrailingNewlines(template)
+		.split(DYNAMIC_PART_PATTERN)
+		.map(escapeRegex)
+		.join("[\\s\\S]*?");
+	// Only the template's trailing newlines are trimmed: when a trailing variable
+	// renders empty, the newlines before it are the end of the content
+	return new RegExp(`^${pattern}[\\r\\n]*$`).test(content);
+}
+
+// ============================================================================
+// Frontmatter Variables
+// ============================================================================
+
+/** Regex matching the frontmatter block of a template */
+const TEMPLATE_FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+/**
+ * Regex matching a frontmatter line whose whole value is a single variable:
+ * key: {{variable}} or key: "{{variable param=value}}"
+ */
+const FRONTMATTER_VARIABLE_LINE_PATTERN = /^([^\s:#][^:]*):\s*("?)\{\{(\w+)(?:\s+[^}]+)?\}\}\2\s*$/;
+
+/**
+ * Maps frontmatter keys of a template to the variable each one holds
+ * Only keys whose value is exactly one variable are returned (e.g., `rating: {{userRatingNoOver10}}`),
+ * so the value can be read back from a rendered note.
+ * @param template - Note template
+ * @returns Map of frontmatter key → variable name
+ */
+function getFrontmatterVariables(template: string): Record<string, string> {
+	const variables: Record<string, string> = {};
+	const frontmatterMatch = template.match(TEMPLATE_FRONTMATTER_PATTERN);
+	if (!frontmatterMatch) return variables;
+
+	for (const line of frontmatterMatch[1].split(/\r?\n/)) {
+		const match = line.match(FRONTMATTER_VARIABLE_LINE_PATTERN);
+		if (match) {
+			variables[match[1].trim()] = match[3];
+		}
+	}
+	return variables;
+}
+
 // ============================================================================
 // Utility Exports
 // ============================================================================
 
-export { formatArray, formatValue, parseParams, wikiLink };
+export {
+	formatArray,
+	formatValue,
+	parseParams,
+	wikiLink,
+	matchesTemplateShape,
+	getFrontmatterVariables,
+	spoilerCallout,
+};
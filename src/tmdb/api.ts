@@ -1,4 +1,5 @@
-import { requestUrl } from "obsidian";
+import { scheduledRequest } from "../utils/request-scheduler";
+import { httpCache } from "../utils/http-cache";
 import type { TMDBMovie, TMDBMovieResponse } from "./types";
 import { TMDB_IMAGE_BASE_URL, TMDB_WEB_BASE_URL, POSTER_SIZES, BACKDROP_SIZES } from "./types";
 
@@ -142,6 +143,7 @@ export function templateNeedsCredits(template: string): boolean {
  * @param apiKey - TMDB API Read Access Token (Bearer token)
  * @param language - Language code (e.g., "en-US")
  * @param includeCredits - Whether to fetch credits (cast/crew) data
+ * @param useCache - Whether to consult the HTTP cache first
  * @returns Processed movie data
  * @throws Error if fetch fails or movie not found
  */
@@ -149,7 +151,8 @@ export async function fetchTMDBMovie(
 	tmdbId: string | number,
 	apiKey: string,
 	language = "en-US",
-	includeCredits = false
+	includeCredits = false,
+	useCache = true
 ): Promise<TMDBMovie> {
 	if (!tmdbId) {
 		throw new Error("TMDB ID is required");
@@ -163,7 +166,14 @@ export async function fetchTMDBMovie(
 		url += "&append_to_response=credits";
 	}
 
-	const response = await requestUrl({
+	if (useCache) {
+		const cached = await httpCache.get<TMDBMovieResponse>("tmdbMovie", url, language);
+		if (cached) {
+			return transformResponse(cached);
+		}
+	}
+
+	const response = await scheduledRequest({
 		url,
 		method: "GET",
 		headers: {
@@ -185,6 +195,7 @@ export async function fetchTMDBMovie(
 	}
 
 	const data = response.json as TMDBMovieResponse;
+	await httpCache.set("tmdbMovie", url, data, language);
 	return transformResponse(data);
 }
 
@@ -201,7 +212,7 @@ export async function validateTMDBApiKey(apiKey: string): Promise<boolean> {
 	try {
 		// Use a known movie ID (Fight Club) to test the API key
 		const testMovieId = 550;
-		await fetchTMDBMovie(testMovieId, apiKey);
+		await fetchTMDBMovie(testMovieId, apiKey, undefined, false, false);
 		return true;
 	} catch {
 		return false;
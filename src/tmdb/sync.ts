@@ -1,11 +1,13 @@
 import { normalizePath, TFile, TFolder } from "obsidian";
 import type LetterboxdPlugin from "../main";
+import type { PlannedAction, JournalFile } from "../types";
 import type { TMDBMovie } from "./types";
 import { fetchTMDBMovie, templateNeedsCredits } from "./api";
 import { renderTMDBTemplate, generateTMDBFilename } from "./template";
-import { ensureFolderExists } from "../utils/vault";
+import { ensureFolderExists, isPathTaken } from "../utils/vault";
 import { createFrontmatterKeyRegex } from "../utils/frontmatter";
 import { notify } from "../utils/notify";
+import { hashContent } from "../utils/hash";
 
 // ============================================================================
 // Types
@@ -15,9 +17,13 @@ export interface TMDBSyncResult {
 	created: number;
 	skipped: number;
 	errors: number;
+	/** Vault changes collected instead of written (dry run only) */
+	planned: PlannedAction[];
+	/** Files written, for the sync journal */
+	written: JournalFile[];
 }
 
-interface ExistingFilmNote {
+export interface ExistingFilmNote {
 	file: TFile;
 	tmdbId: string | null;
 }
@@ -26,10 +32,17 @@ interface ExistingFilmNote {
 // Utility Functions
 // ============================================================================
 
+/**
+ * Creates an empty sync result
+ */
+export function createTMDBSyncResult(): TMDBSyncResult {
+	return { created: 0, skipped: 0, errors: 0, planned: [], written: [] };
+}
+
 /**
  * Gets all markdown files in the TMDB folder with their TMDB ID
  */
-async function getExistingFilmNotes(plugin: LetterboxdPlugin): Promise<ExistingFilmNote[]> {
+export async function getExistingFilmNotes(plugin: LetterboxdPlugin): Promise<ExistingFilmNote[]> {
 	const { vault } = plugin.app;
 	const { tmdbFolderPath, tmdbIdFrontmatterKey } = plugin.settings;
 	const notes: ExistingFilmNote[] = [];
@@ -73,25 +86,34 @@ export async function getExistingTmdbIds(plugin: LetterboxdPlugin): Promise<Set<
 
 /**
  * Creates a Film note for a TMDB movie
+ * The note is recorded in result.written, or in result.planned instead of written in a dry run
+ * @returns The created note, null in a dry run
  */
-async function createFilmNote(plugin: LetterboxdPlugin, movie: TMDBMovie): Promise<void> {
+export async function createFilmNote(
+	plugin: LetterboxdPlugin,
+	movie: TMDBMovie,
+	result: TMDBSyncResult,
+	dryRun = false
+): Promise<TFile | null> {
 	const { vault } = plugin.app;
 	const { tmdbFolderPath, tmdbFilenameTemplate, tmdbNoteTemplate } = plugin.settings;
 
 	const filename = generateTMDBFilename(tmdbFilenameTemplate, movie);
 	const content = renderTMDBTemplate(tmdbNoteTemplate, movie);
-	const filePath = normalizePath(`${tmdbFolderPath}/${filename}.md`);
+	let filePath = normalizePath(`${tmdbFolderPath}/${filename}.md`);
 
-	const existingFile = vault.getAbstractFileByPath(filePath);
-	if (existingFile) {
+	if (isPathTaken(plugin, filePath, result.planned)) {
 		// Add TMDB ID suffix to avoid collision (different movies with same title/year)
-		await vault.create(
-			normalizePath(`${tmdbFolderPath}/${filename} (${movie.tmdbId}).md`),
-			content
-		);
-	} else {
-		await vault.create(filePath, content);
+		filePath = normalizePath(`${tmdbFolderPath}/${filename} (${movie.tmdbId}).md`);
 	}
+
+	if (dryRun) {
+		result.planned.push({ action: "create", path: filePath, content });
+		return null;
+	}
+	const file = await vault.create(filePath, content);
+	result.written.push({ path: file.path, change: "created", hash: hashContent(content) });
+	return file;
 }
 
 // ============================================================================
@@ -132,7 +154,9 @@ export async function syncSingleFilm(plugin: LetterboxdPlugin, tmdbId: string):
 
 		// Fetch from TMDB and create note
 		const movie = await fetchTMDBMovie(tmdbId, tmdbApiKey, tmdbLanguage, includeCredits);
-		await createFilmNote(plugin, movie);
+		await createFilmNote(plugin, movie, createTMDBSyncResult());
+		await plugin.sourceCache.setFilm(movie);
+		await plugin.sourceCache.save();
 		return true;
 	} catch (error) {
 		console.error(`TMDB: Failed to sync film ${tmdbId}`, error);
@@ -145,13 +169,15 @@ export async function syncSingleFilm(plugin: LetterboxdPlugin, tmdbId: string):
  * Used after Letterboxd sync to create Film notes for new diary entries
  * @param plugin - Plugin instance
  * @param tmdbIds - Array of TMDB movie IDs to sync
+ * @param dryRun - Collect planned notes in result.planned instead of writing them
  * @returns Sync result with counts
  */
 export async function syncFilmsFromTMDB(
 	plugin: LetterboxdPlugin,
-	tmdbIds: string[]
+	tmdbIds: string[],
+	dryRun = false
 ): Promise<TMDBSyncResult> {
-	const result: TMDBSyncResult = { created: 0, skipped: 0, errors: 0 };
+	const result = createTMDBSyncResult();
 	const { tmdbApiKey, tmdbFolderPath, tmdbLanguage, tmdbNoteTemplate } = plugin.settings;
 
 	if (!tmdbApiKey) {
@@ -168,32 +194,50 @@ export async function syncFilmsFromTMDB(
 	const includeCredits = templateNeedsCredits(tmdbNoteTemplate);
 
 	try {
-		await ensureFolderExists(plugin, tmdbFolderPath);
+		if (!dryRun) {
+			await ensureFolderExists(plugin, tmdbFolderPath);
+		}
 
 		// Get existing notes to avoid duplicates
 		const existingNotes = await getExistingFilmNotes(plugin);
 		const existingIds = new Set(existingNotes.map((n) => n.tmdbId).filter(Boolean));
 
-		// Process each ID
+		// Skip films with a note, and duplicates within the batch
+		const newIds: string[] = [];
 		for (const tmdbId of validIds) {
 			if (existingIds.has(tmdbId)) {
 				result.skipped++;
-				continue;
+			} else {
+				existingIds.add(tmdbId);
+				newIds.push(tmdbId);
 			}
+		}
 
+		// All movies are queued at once, the request scheduler limits how many
+		// requests actually run in parallel. Notes are then written one by one, as
+		// notes created at the same time could take the same filename.
+		const movies = await Promise.all(
+			newIds.map(async (tmdbId) => {
+				try {
+					return await fetchTMDBMovie(tmdbId, tmdbApiKey, tmdbLanguage, includeCredits);
+				} catch (error) {
+					console.error(`TMDB: Failed to fetch movie ${tmdbId}`, error);
+					result.errors++;
+					return null;
+				}
+			})
+		);
+
+		for (const movie of movies) {
+			if (!movie) continue;
 			try {
-				const movie = await fetchTMDBMovie(
-					tmdbId,
-					tmdbApiKey,
-					tmdbLanguage,
-					includeCredits
-				);
-				await createFilmNote(plugin, movie);
+				await createFilmNote(plugin, movie, result, dryRun);
+				if (!dryRun) {
+					await plugin.sourceCache.setFilm(movie);
+				}
 				result.created++;
-				// Add to set to handle duplicates within the batch
-				existingIds.add(tmdbId);
 			} catch (error) {
-				console.error(`TMDB: Failed to fetch movie ${tmdbId}`, error);
+				console.error(`TMDB: Failed to create note for movie ${movie.tmdbId}`, error);
 				result.errors++;
 			}
 		}
@@ -201,18 +245,23 @@ export async function syncFilmsFromTMDB(
 		console.error("TMDB: Sync failed", error);
 	}
 
+	await plugin.sourceCache.save();
 	return result;
 }
 
 /**
  * Syncs all Film notes from existing Letterboxd diary entries
- * Scans the Letterboxd folder for notes with tmdb_id and creates Film notes
+ * Scans the diary folder of every account for notes with tmdb_id and creates Film notes
  * @param plugin - Plugin instance
+ * @param dryRun - Collect planned notes in result.planned instead of writing them
  * @returns Sync result with counts
  */
-export async function syncAllFilmsFromDiary(plugin: LetterboxdPlugin): Promise<TMDBSyncResult> {
-	const result: TMDBSyncResult = { created: 0, skipped: 0, errors: 0 };
-	const { tmdbApiKey, folderPath, notificationLevel } = plugin.settings;
+export async function syncAllFilmsFromDiary(
+	plugin: LetterboxdPlugin,
+	dryRun = false
+): Promise<TMDBSyncResult> {
+	const result = createTMDBSyncResult();
+	const { tmdbApiKey, accounts, notificationLevel } = plugin.settings;
 
 	if (!tmdbApiKey) {
 		notify("TMDB: Please set your API key in settings", notificationLevel, "error");
@@ -223,9 +272,11 @@ export async function syncAllFilmsFromDiary(plugin: LetterboxdPlugin): Promise<T
 		notify("TMDB: Scanning diary for films...", notificationLevel, "progress");
 
 		const { vault } = plugin.app;
-		const folder = vault.getAbstractFileByPath(folderPath);
+		const folders = [...new Set(accounts.map((account) => account.folderPath))]
+			.map((folderPath) => vault.getAbstractFileByPath(folderPath))
+			.filter((folder): folder is TFolder => folder instanceof TFolder);
 
-		if (!(folder instanceof TFolder)) {
+		if (folders.length === 0) {
 			notify("TMDB: Letterboxd folder not found", notificationLevel, "error");
 			return result;
 		}
@@ -236,9 +287,9 @@ export async function syncAllFilmsFromDiary(plugin: LetterboxdPlugin): Promise<T
 		const tmdbIdRegex = createFrontmatterKeyRegex(DIARY_TMDB_ID_KEY);
 		const tmdbIds: string[] = [];
 
-		const files = folder.children.filter(
-			(f): f is TFile => f instanceof TFile && f.extension === "md"
-		);
+		const files = folders
+			.flatMap((folder) => folder.children)
+			.filter((f): f is TFile => f instanceof TFile && f.extension === "md");
 
 		for (const file of files) {
 			try {
@@ -259,10 +310,13 @@ export async function syncAllFilmsFromDiary(plugin: LetterboxdPlugin): Promise<T
 
 		notify(`TMDB: Found ${tmdbIds.length} films, syncing...`, notificationLevel, "progress");
 
-		const syncResult = await syncFilmsFromTMDB(plugin, tmdbIds);
+		const syncResult = await syncFilmsFromTMDB(plugin, tmdbIds, dryRun);
 		Object.assign(result, syncResult);
 
-		notify(buildResultMessage(result), notificationLevel, "result", result.created > 0);
+		// A dry run reports through its preview instead
+		if (!dryRun) {
+			notify(buildResultMessage(result), notificationLevel, "result", result.created > 0);
+		}
 	} catch (error) {
 		const msg = error instanceof Error ? error.message : "Unknown error";
 		notify(`TMDB: Sync failed - ${msg}`, notificationLevel, "error");
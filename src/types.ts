@@ -30,20 +30,115 @@ export interface LetterboxdEntry {
 	posterUrl: string;
 	/** Unique identifier for this diary entry (letterboxd-review-* or letterboxd-watch-*) */
 	guid: string;
-	/** User's review text, empty string if no review */
+	/** User's review as Markdown, empty string if no review */
 	review: string;
+	/** User's review as plain text (for filenames and YAML), empty string if no review */
+	reviewText: string;
 	/** Date the entry was published/logged on Letterboxd (YYYY-MM-DD format) */
 	pubDate: string;
 	/** Whether the review contains spoilers */
 	containsSpoilers: boolean;
+	/** Whether the film is liked (the heart) */
+	liked: boolean;
 	/** Tags from Letterboxd (fetched from viewing pages for RSS, parsed from CSV) */
 	tags: string[];
+	/**
+	 * Fields the source could not provide (not on the page, or the fetch failed)
+	 * Existing notes keep their value for these fields when they are updated.
+	 */
+	missingFields?: (keyof LetterboxdEntry)[];
 }
 
 /**
- * Plugin settings persisted to data.json
+ * A vault change a sync would make, collected instead of written in a dry run
  */
-export interface LetterboxdSettings {
+export interface PlannedAction {
+	/** Whether the note would be created or an existing note rewritten */
+	action: "create" | "update";
+	/** Vault path of the note, collision suffix included */
+	path: string;
+	/** Note content after the action */
+	content: string;
+}
+
+/**
+ * A file written by a sync, as recorded in the sync journal
+ */
+export interface JournalFile {
+	/** Vault path of the file */
+	path: string;
+	/** Whether the sync created the file or rewrote an existing one */
+	change: "created" | "modified";
+	/** Hash of the content the sync wrote (see hashContent) */
+	hash: string;
+}
+
+/**
+ * Journal record of one sync run (a command, including its follow-up TMDB sync)
+ */
+export interface SyncJournalRecord {
+	/** Unique ID of the run */
+	runId: string;
+	/** What the run synced from */
+	source: "RSS" | "Backfill" | "CSV" | "TMDB" | "Watchlist" | "Lists" | "Profile";
+	/** When the run finished (ISO 8601) */
+	date: string;
+	files: JournalFile[];
+}
+
+/**
+ * Progress of a CSV import, saved so an interrupted import can be resumed
+ * The CSV files themselves are kept in a file of the plugin folder.
+ */
+export interface CSVImportCheckpoint {
+	/** When the import started (ISO 8601) */
+	startedAt: string;
+	/** Username of the account imported to (the first account if missing) */
+	account?: string;
+	/** Keys of the CSV rows written so far (title|year|watched date) */
+	processed: string[];
+	/** Files written so far, for the sync journal */
+	written: JournalFile[];
+	/** TMDB IDs of the entries created so far (for the Film notes still to create) */
+	createdTmdbIds: string[];
+	/** Films of likes/films.csv, whose entries are imported as liked */
+	likedFilms?: { filmTitle: string; filmYear: number }[];
+}
+
+/**
+ * CSV row whose Letterboxd pages could not be fetched
+ * Its note was created from the CSV data alone, under a fallback GUID.
+ */
+export interface FailedEnrichment {
+	/** Entry the note was created from (guid is the fallback GUID) */
+	entry: LetterboxdEntry;
+	/** Why the pages could not be fetched */
+	reason: string;
+	/** When the last attempt failed (ISO 8601) */
+	failedAt: string;
+	/** Username of the account the note belongs to (the first account if missing) */
+	account?: string;
+}
+
+/**
+ * Plugin state persisted to data.json next to the settings
+ */
+export interface PluginState {
+	/** Sync journal, oldest record first */
+	syncJournal: SyncJournalRecord[];
+	/** Checkpoint of an unfinished CSV import, null when there is none */
+	csvImportCheckpoint: CSVImportCheckpoint | null;
+	/** CSV rows imported without their Letterboxd data, oldest first */
+	failedEnrichments: FailedEnrichment[];
+	/** Vault paths of the exports imported from the export watch folder */
+	importedExports: string[];
+}
+
+/**
+ * A Letterboxd account synced to the vault
+ * Each account has its own diary notes; Film notes are shared.
+ */
+export interface LetterboxdAccount {
 	/** Letterboxd username (used to construct RSS feed URL) */
 	username: string;
 	/** Folder path within vault where diary notes will be created */
@@ -56,10 +151,32 @@ export interface LetterboxdSettings {
 	syncOnStartup: boolean;
 	/** Only sync entries that have a review (skip watch-only logs) */
 	syncReviewsOnly: boolean;
+	/** Write the lists published in the RSS feed to list notes during diary syncs */
+	syncListsFromRss: boolean;
+	/** Vault path of the profile note */
+	profileNotePath: string;
+}
+
+/**
+ * Plugin settings persisted to data.json
+ */
+export interface LetterboxdSettings {
+	/** Accounts synced to the vault, in the order they were added */
+	accounts: LetterboxdAccount[];
+	/** Rewrite plugin-generated parts of existing notes when the entry changes on Letterboxd */
+	updateExistingNotes: boolean;
 	/** Notification verbosity level for sync operations */
 	notificationLevel: NotificationLevel;
 	/** Frontmatter key used to store the Letterboxd GUID for deduplication */
 	guidFrontmatterKey: string;
+	/** Vault folder whose new Letterboxd exports are imported automatically, empty to disable */
+	exportWatchFolder: string;
+	/** Folder path for list notes */
+	listFolderPath: string;
+	/** Note content template for list notes */
+	listNoteTemplate: string;
+	/** Note content template for the profile note */
+	profileNoteTemplate: string;
 
 	// ============================================================================
 	// TMDB Settings
@@ -77,4 +194,15 @@ export interface LetterboxdSettings {
 	tmdbLanguage: string;
 	/** Frontmatter key used to store TMDB ID for deduplication */
 	tmdbIdFrontmatterKey: string;
+
+	// ============================================================================
+	// Cache Settings
+	// ============================================================================
+
+	/** Days a film page's TMDB ID stays cached (0 disables caching) */
+	cacheTtlFilmPageDays: number;
+	/** Days the data of a diary entry page stays cached (0 disables caching) */
+	cacheTtlViewingPageDays: number;
+	/** Days a TMDB movie response stays cached (0 disables caching) */
+	cacheTtlTmdbMovieDays: number;
 }
@@ -0,0 +1,38 @@
+/**
+ * Account Suggest Modal
+ *
+ * Fuzzy search over the Letterboxd accounts of the settings
+ */
+
+import { App, FuzzySuggestModal } from "obsidian";
+import type { LetterboxdAccount } from "../types";
+
+/** Callback with the account the user chose */
+type OnChooseCallback = (account: LetterboxdAccount) => void;
+
+/**
+ * Modal to choose the Letterboxd account a command acts on
+ */
+export class AccountSuggestModal extends FuzzySuggestModal<LetterboxdAccount> {
+	private accounts: LetterboxdAccount[];
+	private onChoose: OnChooseCallback;
+
+	constructor(app: App, accounts: LetterboxdAccount[], onChoose: OnChooseCallback) {
+		super(app);
+		this.accounts = accounts;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a Letterboxd account");
+	}
+
+	getItems(): LetterboxdAccount[] {
+		return this.accounts;
+	}
+
+	getItemText(account: LetterboxdAccount): string {
+		return account.username;
+	}
+
+	onChooseItem(account: LetterboxdAccount): void {
+		this.onChoose(account);
+	}
+}
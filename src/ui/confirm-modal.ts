@@ -0,0 +1,67 @@
+/**
+ * Confirm Modal
+ *
+ * Asks the user to confirm a destructive action before it runs
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Modal with a message and Cancel / confirm buttons
+ */
+export class ConfirmModal extends Modal {
+	private modalTitle: string;
+	private message: string;
+	private confirmText: string;
+	private onConfirm: () => void;
+
+	constructor(
+		app: App,
+		options: {
+			title: string;
+			message: string;
+			confirmText: string;
+			onConfirm: () => void;
+		}
+	) {
+		super(app);
+		this.modalTitle = options.title;
+		this.message = options.message;
+		this.confirmText = options.confirmText;
+		this.onConfirm = options.onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle(this.modalTitle);
+		contentEl.createEl("p", { text: this.message });
+
+		// Buttons row
+		const buttonContainer = contentEl.createDiv({
+			cls: "letterboxd-template-buttons",
+		});
+
+		new Setting(buttonContainer)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText(this.confirmText)
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						this.onConfirm();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,80 @@
+/**
+ * Dry Run Report Modal
+ *
+ * Lists the notes a sync would create or rewrite, with the content each note
+ * would get, without anything having been written to the vault
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import type { PlannedAction } from "../types";
+
+/** Section headings by action type */
+const ACTION_HEADINGS: Record<PlannedAction["action"], string> = {
+	create: "Would create",
+	update: "Would update",
+};
+
+/**
+ * Modal listing the planned actions of a dry run
+ */
+export class DryRunReportModal extends Modal {
+	private modalTitle: string;
+	private planned: PlannedAction[];
+
+	constructor(app: App, title: string, planned: PlannedAction[]) {
+		super(app);
+		this.modalTitle = title;
+		this.planned = planned;
+	}
+
+	onOpen() {
+		const { contentEl, modalEl } = this;
+		contentEl.empty();
+		modalEl.addClass("mod-letterboxd-dry-run");
+
+		this.setTitle(this.modalTitle);
+
+		const creates = this.planned.filter((a) => a.action === "create");
+		const updates = this.planned.filter((a) => a.action === "update");
+
+		contentEl.createEl("p", {
+			cls: "letterboxd-preview-description setting-item-description",
+			text:
+				this.planned.length === 0
+					? "Nothing would change. Your vault is up to date."
+					: `${creates.length} notes would be created and ${updates.length} updated. Nothing has been written yet.`,
+		});
+
+		const listEl = contentEl.createDiv({ cls: "letterboxd-preview-list" });
+		for (const actions of [creates, updates]) {
+			if (actions.length === 0) continue;
+
+			listEl.createEl("h4", {
+				text: `${ACTION_HEADINGS[actions[0].action]} (${actions.length})`,
+			});
+			for (const action of actions) {
+				const detailsEl = listEl.createEl("details", {
+					cls: "letterboxd-preview-item",
+				});
+				detailsEl.createEl("summary", { text: action.path });
+				detailsEl.createEl("pre", { cls: "letterboxd-diff", text: action.content });
+			}
+		}
+
+		// Buttons row
+		const buttonContainer = contentEl.createDiv({
+			cls: "letterboxd-template-buttons",
+		});
+
+		new Setting(buttonContainer).addButton((btn) =>
+			btn.setButtonText("Close").onClick(() => {
+				this.close();
+			})
+		);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
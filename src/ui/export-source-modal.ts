@@ -0,0 +1,38 @@
+/**
+ * Export Source Modal
+ *
+ * Fuzzy search over the Letterboxd exports stored in the vault
+ */
+
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+import type { VaultExport } from "../notes/vault-export";
+
+/** Callback with the export the user chose */
+type OnChooseCallback = (source: VaultExport) => void;
+
+/**
+ * Modal to choose a .zip export or an extracted export folder from the vault
+ */
+export class ExportSourceModal extends FuzzySuggestModal<VaultExport> {
+	private sources: VaultExport[];
+	private onChoose: OnChooseCallback;
+
+	constructor(app: App, sources: VaultExport[], onChoose: OnChooseCallback) {
+		super(app);
+		this.sources = sources;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Choose a Letterboxd export (.zip file or extracted folder)");
+	}
+
+	getItems(): VaultExport[] {
+		return this.sources;
+	}
+
+	getItemText(source: VaultExport): string {
+		return source instanceof TFile ? source.path : `${source.path}/`;
+	}
+
+	onChooseItem(source: VaultExport): void {
+		this.onChoose(source);
+	}
+}
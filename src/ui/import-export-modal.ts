@@ -0,0 +1,148 @@
+/**
+ * Import Export Modal
+ *
+ * Lists the datasets found in a Letterboxd export with what each one maps
+ * to, and lets the user choose which of them to import
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import { EXPORT_DATASETS } from "../letterboxd/export";
+import type { ExportDataset } from "../letterboxd/export";
+
+/** Callback with the datasets the user selected */
+type OnConfirmCallback = (selected: Set<ExportDataset>) => void;
+
+/** Name and description of each dataset, {count} is replaced with its size */
+const DATASET_INFO: Record<ExportDataset, { name: string; desc: string }> = {
+	diary: {
+		name: "Diary",
+		desc: "{count} diary entries (diary.csv, reviews.csv) become diary notes.",
+	},
+	watched: {
+		name: "Watched films",
+		desc: '{count} films (watched.csv) get "status: watched" on their Film note.',
+	},
+	ratings: {
+		name: "Ratings",
+		desc: "{count} ratings (ratings.csv) are set as rating on their Film note.",
+	},
+	likes: {
+		name: "Liked films",
+		desc: '{count} films (likes/films.csv) get "liked: true" on their Film note.',
+	},
+	watchlist: {
+		name: "Watchlist",
+		desc: '{count} films (watchlist.csv) get "status: watchlist" on their Film note, unless watched.',
+	},
+	lists: {
+		name: "Lists",
+		desc: "{count} lists (lists/*.csv) become list notes linking the Film notes of their films.",
+	},
+};
+
+/**
+ * Modal with one toggle per dataset of an export
+ */
+export class ImportExportModal extends Modal {
+	private counts: Record<ExportDataset, number>;
+	private tmdbEnabled: boolean;
+	private selected: Set<ExportDataset>;
+	private onConfirm: OnConfirmCallback;
+	private confirmButton: ButtonComponent | null = null;
+
+	/**
+	 * @param counts - Number of items of each dataset, 0 if missing from the export
+	 * @param tmdbEnabled - Whether missing Film notes can be created
+	 */
+	constructor(
+		app: App,
+		counts: Record<ExportDataset, number>,
+		tmdbEnabled: boolean,
+		onConfirm: OnConfirmCallback
+	) {
+		super(app);
+		this.counts = counts;
+		this.tmdbEnabled = tmdbEnabled;
+		this.selected = new Set(EXPORT_DATASETS.filter((dataset) => counts[dataset] > 0));
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl, modalEl } = this;
+		contentEl.empty();
+		modalEl.addClass("mod-letterboxd-import-export");
+
+		this.setTitle("Import Letterboxd export");
+
+		contentEl.createEl("p", {
+			cls: "letterboxd-preview-description setting-item-description",
+			text: this.tmdbEnabled
+				? "Choose what to import. Film notes missing from the vault are created from TMDB."
+				: "Choose what to import. Without a TMDB API key, only the Film notes already in the vault are updated.",
+		});
+
+		for (const dataset of EXPORT_DATASETS) {
+			const count = this.counts[dataset];
+			const info = DATASET_INFO[dataset];
+			new Setting(contentEl)
+				.setName(info.name)
+				.setDesc(
+					count > 0
+						? info.desc.replace("{count}", String(count))
+						: "Not found in this export."
+				)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.selected.has(dataset))
+						.setDisabled(count === 0)
+						.onChange((value) => {
+							if (value) {
+								this.selected.add(dataset);
+							} else {
+								this.selected.delete(dataset);
+							}
+							this.updateConfirmButton();
+						})
+				);
+		}
+
+		// Buttons row
+		const buttonContainer = contentEl.createDiv({
+			cls: "letterboxd-template-buttons",
+		});
+
+		new Setting(buttonContainer)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) => {
+				this.confirmButton = btn;
+				btn.setCta().onClick(() => {
+					const selected = new Set(this.selected);
+					this.close();
+					this.onConfirm(selected);
+				});
+			});
+		this.updateConfirmButton();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.confirmButton = null;
+	}
+
+	/**
+	 * Updates the confirm button with the number of selected datasets
+	 */
+	private updateConfirmButton(): void {
+		if (!this.confirmButton) return;
+		const count = this.selected.size;
+		this.confirmButton
+			.setButtonText(`Import ${count} ${count === 1 ? "dataset" : "datasets"}`)
+			.setDisabled(count === 0);
+	}
+}
@@ -0,0 +1,68 @@
+/**
+ * List URL Modal
+ *
+ * Asks for the URL of a Letterboxd list to import
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+/** Callback with the URL the user entered */
+type OnSubmitCallback = (url: string) => void;
+
+/**
+ * Modal with a URL field and an Import button
+ */
+export class ListUrlModal extends Modal {
+	private url = "";
+	private onSubmit: OnSubmitCallback;
+
+	constructor(app: App, onSubmit: OnSubmitCallback) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.setTitle("Import Letterboxd list");
+
+		new Setting(contentEl)
+			.setName("List URL")
+			.setDesc("For example https://letterboxd.com/username/list/list-name/")
+			.addText((text) => {
+				text.setPlaceholder("https://letterboxd.com/…").onChange((value) => {
+					this.url = value.trim();
+				});
+				text.inputEl.addEventListener("keydown", (event) => {
+					if (event.key === "Enter") {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+			});
+
+		new Setting(contentEl).addButton((btn) =>
+			btn
+				.setButtonText("Import")
+				.setCta()
+				.onClick(() => this.submit())
+		);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Closes the modal and imports the entered URL, if any
+	 */
+	private submit(): void {
+		if (!this.url) {
+			return;
+		}
+		this.close();
+		this.onSubmit(this.url);
+	}
+}
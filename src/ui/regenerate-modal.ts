@@ -0,0 +1,133 @@
+/**
+ * Regenerate Notes Modal
+ *
+ * Shows the planned change of every note as a line diff, lets the user
+ * exclude notes one by one, and writes nothing until confirmed
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import type { ButtonComponent } from "obsidian";
+import type { RegenerationPlan } from "../notes/regenerate";
+import { diffLines, collapseUnchanged } from "../utils/diff";
+
+/** Callback with the plans the user confirmed */
+type OnConfirmCallback = (selected: RegenerationPlan[]) => void;
+
+/** Unchanged lines shown around each change */
+const DIFF_CONTEXT_LINES = 2;
+
+/**
+ * Modal previewing template regeneration with per-note include/exclude toggles
+ */
+export class RegenerateNotesModal extends Modal {
+	private plans: RegenerationPlan[];
+	private selected: Set<RegenerationPlan>;
+	private onConfirm: OnConfirmCallback;
+	private confirmButton: ButtonComponent | null = null;
+
+	constructor(app: App, plans: RegenerationPlan[], onConfirm: OnConfirmCallback) {
+		super(app);
+		this.plans = plans;
+		// Notes flagged with a warning must be opted in explicitly
+		this.selected = new Set(plans.filter((plan) => plan.warning === null));
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl, modalEl } = this;
+		contentEl.empty();
+		modalEl.addClass("mod-letterboxd-regenerate");
+
+		this.setTitle("Regenerate notes from template");
+
+		contentEl.createEl("p", {
+			cls: "letterboxd-preview-description setting-item-description",
+			text: `${this.plans.length} notes would change. Review the changes and untick the notes to leave as they are.`,
+		});
+
+		const listEl = contentEl.createDiv({ cls: "letterboxd-preview-list" });
+		for (const plan of this.plans) {
+			this.renderPlan(listEl, plan);
+		}
+
+		// Buttons row
+		const buttonContainer = contentEl.createDiv({
+			cls: "letterboxd-template-buttons",
+		});
+
+		new Setting(buttonContainer)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			)
+			.addButton((btn) => {
+				this.confirmButton = btn;
+				btn.setCta().onClick(() => {
+					const selected = this.plans.filter((plan) => this.selected.has(plan));
+					this.close();
+					this.onConfirm(selected);
+				});
+			});
+		this.updateConfirmButton();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.confirmButton = null;
+	}
+
+	/**
+	 * Renders one note: path, warning, include toggle and collapsible diff
+	 */
+	private renderPlan(containerEl: HTMLElement, plan: RegenerationPlan): void {
+		const itemEl = containerEl.createDiv({ cls: "letterboxd-preview-item" });
+
+		const setting = new Setting(itemEl).setName(plan.file.path).addToggle((toggle) =>
+			toggle.setValue(this.selected.has(plan)).onChange((value) => {
+				if (value) {
+					this.selected.add(plan);
+				} else {
+					this.selected.delete(plan);
+				}
+				this.updateConfirmButton();
+			})
+		);
+		if (plan.warning) {
+			setting.setDesc(plan.warning);
+			setting.descEl.addClass("mod-warning");
+		}
+
+		const detailsEl = itemEl.createEl("details");
+		detailsEl.createEl("summary", { text: "Show changes" });
+		const diffEl = detailsEl.createEl("pre", { cls: "letterboxd-diff" });
+
+		const lines = collapseUnchanged(
+			diffLines(plan.oldContent, plan.newContent),
+			DIFF_CONTEXT_LINES
+		);
+		for (const line of lines) {
+			if (line === null) {
+				diffEl.createDiv({ cls: "letterboxd-diff-gap", text: "…" });
+				continue;
+			}
+			const prefix = line.type === "add" ? "+ " : line.type === "remove" ? "- " : "  ";
+			diffEl.createDiv({
+				cls: `letterboxd-diff-line letterboxd-diff-${line.type}`,
+				text: prefix + line.text,
+			});
+		}
+	}
+
+	/**
+	 * Updates the confirm button label with the number of selected notes
+	 */
+	private updateConfirmButton(): void {
+		if (!this.confirmButton) return;
+		const count = this.selected.size;
+		this.confirmButton
+			.setButtonText(`Regenerate ${count} ${count === 1 ? "note" : "notes"}`)
+			.setDisabled(count === 0);
+	}
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { tokenizeCSV, parseCSVRows } from "./csv";
+
+// ============================================================================
+// tokenizeCSV
+// ============================================================================
+
+describe("tokenizeCSV", () => {
+	it("splits records and fields", () => {
+		expect([...tokenizeCSV("a,b,c\n1,2,3\n")]).toEqual([
+			["a", "b", "c"],
+			["1", "2", "3"],
+		]);
+	});
+
+	it("handles quoted fields with commas and escaped quotes", () => {
+		expect([...tokenizeCSV('"Crouching Tiger, Hidden Dragon","say ""hi"""')]).toEqual([
+			["Crouching Tiger, Hidden Dragon", 'say "hi"'],
+		]);
+	});
+
+	it("keeps line breaks inside quoted fields", () => {
+		expect([...tokenizeCSV('1,"First.\n\nSecond.",x\r\n2,"a\r\nb",y')]).toEqual([
+			["1", "First.\n\nSecond.", "x"],
+			["2", "a\r\nb", "y"],
+		]);
+	});
+
+	it("accepts CRLF, LF and CR record separators", () => {
+		expect([...tokenizeCSV("a\r\nb\nc\rd")]).toEqual([["a"], ["b"], ["c"], ["d"]]);
+	});
+
+	it("ignores a leading byte order mark", () => {
+		expect([...tokenizeCSV("﻿Name,Year\n")]).toEqual([["Name", "Year"]]);
+	});
+
+	it("keeps empty fields", () => {
+		expect([...tokenizeCSV(",,\n")]).toEqual([["", "", ""]]);
+	});
+});
+
+// ============================================================================
+// parseCSVRows
+// ============================================================================
+
+describe("parseCSVRows", () => {
+	it("maps fields by header name", () => {
+		expect(parseCSVRows("Name,Year\nHeat,1995\n")).toEqual([{ Name: "Heat", Year: "1995" }]);
+	});
+
+	it("skips blank lines", () => {
+		expect(parseCSVRows("Name\n\nHeat\n\n")).toEqual([{ Name: "Heat" }]);
+	});
+
+	it("fills missing trailing fields with empty strings", () => {
+		expect(parseCSVRows("Name,Year,Tags\nHeat,1995\n")).toEqual([
+			{ Name: "Heat", Year: "1995", Tags: "" },
+		]);
+	});
+
+	it("returns no rows for an empty file", () => {
+		expect(parseCSVRows("")).toEqual([]);
+	});
+});
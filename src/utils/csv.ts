@@ -0,0 +1,110 @@
+/**
+ * CSV Tokenizer
+ *
+ * RFC 4180 CSV parsing: quoted fields may contain commas, escaped quotes ("")
+ * and line breaks, records end with CRLF, LF or CR, and a leading byte order
+ * mark is ignored.
+ */
+
+/** Byte order mark some editors and exports prepend to UTF-8 files */
+const BOM = "\uFEFF";
+
+/**
+ * CSV record mapped by header name
+ */
+export type CSVRow = Record<string, string>;
+
+/**
+ * Splits CSV content into records, one at a time
+ * Line breaks inside quoted fields are kept as part of the field.
+ * @param content - CSV file content
+ * @yields Fields of each record, including empty records for blank lines
+ */
+export function* tokenizeCSV(content: string): Generator<string[]> {
+	const text = content.startsWith(BOM) ? content.slice(BOM.length) : content;
+	let fields: string[] = [];
+	let field = "";
+	let inQuotes = false;
+	let i = 0;
+
+	while (i < text.length) {
+		const char = text[i];
+
+		if (inQuotes) {
+			if (char === '"') {
+				if (text[i + 1] === '"') {
+					// Escaped quote ""
+					field += '"';
+					i += 2;
+					continue;
+				}
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+			i++;
+			continue;
+		}
+
+		if (char === '"') {
+			inQuotes = true;
+		} else if (char === ",") {
+			fields.push(field);
+			field = "";
+		} else if (char === "\r" || char === "\n") {
+			fields.push(field);
+			yield fields;
+			fields = [];
+			field = "";
+			// CRLF is a single record separator
+			if (char === "\r" && text[i + 1] === "\n") {
+				i++;
+			}
+		} else {
+			field += char;
+		}
+		i++;
+	}
+
+	// Last record without a trailing line break
+	if (field !== "" || fields.length > 0) {
+		fields.push(field);
+		yield fields;
+	}
+}
+
+/**
+ * Returns true for records produced by blank lines
+ */
+function isBlankRecord(fields: string[]): boolean {
+	return fields.length === 1 && fields[0].trim() === "";
+}
+
+/**
+ * Parses CSV content whose first record is a header row
+ * Fields are looked up by header name, so column order doesn't matter.
+ * Missing fields are empty strings, blank lines are skipped.
+ * @param content - CSV file content
+ * @returns Rows keyed by (trimmed) header name
+ */
+export function parseCSVRows(content: string): CSVRow[] {
+	const rows: CSVRow[] = [];
+	let header: string[] | null = null;
+
+	for (const fields of tokenizeCSV(content)) {
+		if (isBlankRecord(fields)) continue;
+
+		if (!header) {
+			header = fields.map((name) => name.trim());
+			continue;
+		}
+
+		const row: CSVRow = {};
+		header.forEach((name, index) => {
+			row[name] = fields[index] ?? "";
+		});
+		rows.push(row);
+	}
+
+	return rows;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { diffLines, collapseUnchanged } from "./diff";
+
+// ============================================================================
+// diffLines
+// ============================================================================
+
+describe("diffLines", () => {
+	it("marks identical texts as unchanged", () => {
+		expect(diffLines("a\nb", "a\nb")).toEqual([
+			{ type: "equal", text: "a" },
+			{ type: "equal", text: "b" },
+		]);
+	});
+
+	it("detects changed lines as removal then addition", () => {
+		expect(diffLines("a\nb\nc", "a\nB\nc")).toEqual([
+			{ type: "equal", text: "a" },
+			{ type: "remove", text: "b" },
+			{ type: "add", text: "B" },
+			{ type: "equal", text: "c" },
+		]);
+	});
+
+	it("detects added and removed lines at the edges", () => {
+		expect(diffLines("a\nb", "b\nc")).toEqual([
+			{ type: "remove", text: "a" },
+			{ type: "equal", text: "b" },
+			{ type: "add", text: "c" },
+		]);
+	});
+});
+
+// ============================================================================
+// collapseUnchanged
+// ============================================================================
+
+describe("collapseUnchanged", () => {
+	it("keeps context around changes and marks hidden runs with null", () => {
+		const lines = diffLines("1\n2\n3\n4\n5\n6\n7", "1\n2\n3\nfour\n5\n6\n7");
+		expect(collapseUnchanged(lines, 1)).toEqual([
+			null,
+			{ type: "equal", text: "3" },
+			{ type: "remove", text: "4" },
+			{ type: "add", text: "four" },
+			{ type: "equal", text: "5" },
+			null,
+		]);
+	});
+
+	it("collapses everything when nothing changed", () => {
+		expect(collapseUnchanged(diffLines("a\nb", "a\nb"), 2)).toEqual([null]);
+	});
+});
@@ -0,0 +1,80 @@
+/**
+ * Line-based text diff used to preview note changes
+ */
+
+/** A single line of a diff */
+export interface DiffLine {
+	type: "equal" | "add" | "remove";
+	text: string;
+}
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence
+ * @param oldText - Original text
+ * @param newText - Updated text
+ * @returns Diff lines in order; removals come before additions within a change
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = oldText.split("\n");
+	const b = newText.split("\n");
+
+	// lcs[i][j] = length of the LCS of a[i..] and b[j..]
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+		new Array<number>(b.length + 1).fill(0)
+	);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			lines.push({ type: "equal", text: a[i] });
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			lines.push({ type: "remove", text: a[i] });
+			i++;
+		} else {
+			lines.push({ type: "add", text: b[j] });
+			j++;
+		}
+	}
+	for (; i < a.length; i++) lines.push({ type: "remove", text: a[i] });
+	for (; j < b.length; j++) lines.push({ type: "add", text: b[j] });
+
+	return lines;
+}
+
+/**
+ * Drops unchanged lines far from any change
+ * @param lines - Diff lines from diffLines
+ * @param context - Number of unchanged lines to keep around each change
+ * @returns Diff lines with null marking each run of hidden unchanged lines
+ */
+export function collapseUnchanged(lines: DiffLine[], context: number): (DiffLine | null)[] {
+	const changed = lines.map((line) => line.type !== "equal");
+	const isNearChange = (index: number) => {
+		const from = Math.max(0, index - context);
+		const to = Math.min(lines.length - 1, index + context);
+		for (let i = from; i <= to; i++) {
+			if (changed[i]) return true;
+		}
+		return false;
+	};
+
+	const result: (DiffLine | null)[] = [];
+	lines.forEach((line, index) => {
+		if (isNearChange(index)) {
+			result.push(line);
+		} else if (result[result.length - 1] !== null) {
+			result.push(null);
+		}
+	});
+	return result;
+}
@@ -16,3 +16,33 @@ export function createFrontmatterKeyRegex(key: string): RegExp {
 	const escapedKey = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 	return new RegExp(`^${escapedKey}:\\s*(.+)$`, "m");
 }
+
+/** Regex matching a leading YAML frontmatter block, capturing its inner text */
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Splits note content into its frontmatter (without delimiters) and body
+ * @param content - Full note content
+ * @returns Frontmatter text (null if the note has none) and the remaining body
+ */
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+	const match = content.match(FRONTMATTER_PATTERN);
+	if (!match) {
+		return { frontmatter: null, body: content };
+	}
+	return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+/**
+ * Adds a `key: value` line at the end of a note's frontmatter
+ * A frontmatter block is created if the note has none.
+ * @param content - Full note content
+ * @param key - Frontmatter key (must not exist yet)
+ * @param value - YAML value, as written
+ * @returns Note content with the line added
+ */
+export function appendFrontmatterLine(content: string, key: string, value: string): string {
+	const { frontmatter, body } = splitFrontmatter(content);
+	const lines = frontmatter ? `${frontmatter}\n${key}: ${value}` : `${key}: ${value}`;
+	return `---\n${lines}\n---\n${body}`;
+}
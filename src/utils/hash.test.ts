@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { hashContent } from "./hash";
+
+// ============================================================================
+// hashContent
+// ============================================================================
+
+describe("hashContent", () => {
+	it("returns the same hash for the same content", () => {
+		expect(hashContent("# Die Hard\n")).toBe(hashContent("# Die Hard\n"));
+	});
+
+	it("returns different hashes for different content", () => {
+		expect(hashContent("rating: 9")).not.toBe(hashContent("rating: 8"));
+	});
+
+	it("returns a hex string", () => {
+		expect(hashContent("")).toMatch(/^[0-9a-f]+$/);
+	});
+});
@@ -0,0 +1,24 @@
+/**
+ * Content hashing used to detect whether a file changed since it was written
+ */
+
+/**
+ * Hashes a string with cyrb53 (fast 53-bit non-cryptographic hash)
+ * @param content - Text to hash
+ * @returns Hash as a hex string
+ */
+export function hashContent(content: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < content.length; i++) {
+		const ch = content.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
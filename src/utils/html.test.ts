@@ -0,0 +1,130 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from "vitest";
+import { decodeHtmlEntities, htmlToMarkdown, htmlToText } from "./html";
+
+// ============================================================================
+// decodeHtmlEntities
+// ============================================================================
+
+describe("decodeHtmlEntities", () => {
+	it("decodes the basic named entities", () => {
+		expect(decodeHtmlEntities("&lt;Tom &amp; Jerry&gt; &quot;hi&quot; &apos;x&apos;")).toBe(
+			`<Tom & Jerry> "hi" 'x'`
+		);
+	});
+
+	it("decodes other HTML 4 named entities", () => {
+		expect(decodeHtmlEntities("Am&eacute;lie &mdash; &hellip; &ldquo;&rdquo; &Aacute;")).toBe(
+			"Amélie — … “” Á"
+		);
+	});
+
+	it("decodes decimal and hex references", () => {
+		expect(decodeHtmlEntities("it&#039;s &#x2019; &#128512;")).toBe("it's ’ 😀");
+	});
+
+	it("decodes non-breaking spaces to regular spaces", () => {
+		expect(decodeHtmlEntities("a&nbsp;b")).toBe("a b");
+	});
+
+	it("leaves unknown entities as-is", () => {
+		expect(decodeHtmlEntities("&notanentity; & more")).toBe("&notanentity; & more");
+	});
+
+	it("decodes HTML5 named entities with the DOM", () => {
+		expect(
+			decodeHtmlEntities("&bigstar;&bigstar;&half; &NewLine;&nbsp;&NonBreakingSpace;")
+		).toBe("★★½ \n  ");
+	});
+});
+
+// ============================================================================
+// htmlToMarkdown
+// ============================================================================
+
+describe("htmlToMarkdown", () => {
+	it("separates paragraphs with blank lines", () => {
+		expect(htmlToMarkdown("<p>One.</p>\n<p>Two.</p>")).toBe("One.\n\nTwo.");
+	});
+
+	it("converts line breaks", () => {
+		expect(htmlToMarkdown("<p>Line 1<br />Line 2<br>Line 3</p>")).toBe(
+			"Line 1\nLine 2\nLine 3"
+		);
+	});
+
+	it("keeps emphasis", () => {
+		expect(
+			htmlToMarkdown(
+				"<p><i>Italic</i>, <em>em</em>, <b>bold</b>, <strong>strong</strong></p>"
+			)
+		).toBe("*Italic*, *em*, **bold**, **strong**");
+	});
+
+	it("moves spaces out of emphasis markers", () => {
+		expect(htmlToMarkdown("<p>a<em> word </em>b</p>")).toBe("a *word* b");
+	});
+
+	it("converts links", () => {
+		expect(
+			htmlToMarkdown(
+				'<p>See <a href="https://letterboxd.com/film/heat/" rel="nofollow">Heat</a>.</p>'
+			)
+		).toBe("See [Heat](https://letterboxd.com/film/heat/).");
+	});
+
+	it("converts links whose text is the URL to autolinks", () => {
+		expect(htmlToMarkdown('<a href="https://boxd.it/1">https://boxd.it/1</a>')).toBe(
+			"<https://boxd.it/1>"
+		);
+	});
+
+	it("converts blockquotes", () => {
+		expect(
+			htmlToMarkdown("<p>He said:</p><blockquote><p>First.</p><p>Second.</p></blockquote>")
+		).toBe("He said:\n\n> First.\n>\n> Second.");
+	});
+
+	it("converts unordered and ordered lists", () => {
+		expect(htmlToMarkdown("<ul><li>One</li><li>Two</li></ul>")).toBe("- One\n- Two");
+		expect(htmlToMarkdown("<ol><li>One</li><li>Two</li></ol>")).toBe("1. One\n2. Two");
+	});
+
+	it("indents nested lists", () => {
+		expect(htmlToMarkdown("<ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>")).toBe(
+			"- One\n  - Nested\n- Two"
+		);
+	});
+
+	it("decodes entities in text and links", () => {
+		expect(htmlToMarkdown('<p><a href="/a?x=1&amp;y=2">Tom &amp; Jerry</a></p>')).toBe(
+			"[Tom & Jerry](/a?x=1&y=2)"
+		);
+	});
+
+	it("drops unknown tags but keeps their text", () => {
+		expect(htmlToMarkdown('<p><span class="x">kept</span></p>')).toBe("kept");
+	});
+
+	it("tolerates unclosed tags", () => {
+		expect(htmlToMarkdown("<p>Open <em>emphasis")).toBe("Open *emphasis*");
+	});
+
+	it("returns empty string for empty input", () => {
+		expect(htmlToMarkdown("")).toBe("");
+	});
+});
+
+// ============================================================================
+// htmlToText
+// ============================================================================
+
+describe("htmlToText", () => {
+	it("drops Markdown syntax", () => {
+		expect(
+			htmlToText(
+				'<p><em>Great</em> film, see <a href="https://x.test">this</a>.</p><blockquote><p>Quote</p></blockquote>'
+			)
+		).toBe("Great film, see this.\n\nQuote");
+	});
+});
@@ -0,0 +1,317 @@
+/**
+ * Shared utilities for working with HTML scraped from Letterboxd
+ */
+
+import { NAMED_ENTITIES } from "./html-entities";
+
+/** Named entities outside NAMED_ENTITIES, decoded by the DOM (null if unknown) */
+const domDecodedEntities = new Map<string, string | null>();
+
+/**
+ * Decodes a named entity missing from NAMED_ENTITIES with the DOM's HTML parser
+ * @param name - Entity name, without & and ;
+ * @returns Decoded text, or null if the name is no entity or there is no DOM
+ */
+function decodeEntityWithDom(name: string): string | null {
+	if (typeof DOMParser === "undefined") {
+		return null;
+	}
+
+	let decoded = domDecodedEntities.get(name);
+	if (decoded === undefined) {
+		// Parsed inside an element, where leading whitespace is kept
+		const html = `<p>&${name};</p>`;
+		const text = new DOMParser().parseFromString(html, "text/html").body.textContent ?? "";
+		// Entities decode to one or two characters. A longer text is an unknown
+		// name the parser read a legacy prefix of (&notanentity; → ¬anentity;).
+		const length = [...text].length;
+		decoded = text !== `&${name};` && length > 0 && length <= 2 ? text : null;
+		domDecodedEntities.set(name, decoded);
+	}
+	return decoded;
+}
+
+/**
+ * Decodes HTML entities in a text fragment
+ * Handles all named HTML 4 entities plus decimal (&#039;) and hex (&#x27;)
+ * references. Other HTML5 named entities (&bigstar;, &half;...) are decoded
+ * by the DOM's HTML parser, so only where one exists (Obsidian, not Node).
+ * Non-breaking spaces are decoded to regular spaces.
+ * @param text - Text that may contain HTML entities
+ * @returns Decoded text (unknown entities are left as-is)
+ */
+export function decodeHtmlEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (match, entity: string) => {
+		let codePoint: number | undefined;
+		if (entity[0] === "#") {
+			codePoint =
+				entity[1].toLowerCase() === "x"
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+		} else {
+			codePoint = NAMED_ENTITIES[entity] ?? NAMED_ENTITIES[entity.toLowerCase()];
+			if (codePoint === undefined) {
+				const decoded = decodeEntityWithDom(entity);
+				return decoded === null ? match : decoded.replace(/\u00a0/g, " ");
+			}
+		}
+
+		if (codePoint === undefined || isNaN(codePoint) || codePoint > 0x10ffff) {
+			return match;
+		}
+		return codePoint === 0xa0 ? " " : String.fromCodePoint(codePoint);
+	});
+}
+
+/**
+ * Element of a parsed HTML fragment
+ */
+interface HtmlElement {
+	tag: string;
+	attributes: string;
+	children: HtmlNode[];
+}
+
+/** Text (still entity-encoded) or element */
+type HtmlNode = string | HtmlElement;
+
+/** Elements that never have content or a closing tag */
+const VOID_TAGS = new Set(["br", "img", "hr", "wbr", "input", "meta", "link", "source"]);
+
+/** Elements rendered as blocks, separated by blank lines */
+const BLOCK_TAGS = new Set([
+	"p",
+	"div",
+	"blockquote",
+	"ul",
+	"ol",
+	"li",
+	"hr",
+	"pre",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+]);
+
+/**
+ * Parses an HTML fragment into a tree
+ * Tolerates unclosed and stray closing tags; comments and scripts are dropped.
+ */
+function parseHtmlFragment(html: string): HtmlElement {
+	const root: HtmlElement = { tag: "", attributes: "", children: [] };
+	const stack: HtmlElement[] = [root];
+	const cleaned = html
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "");
+	const tokenRegex = /<(\/?)([a-z][a-z0-9]*)\b([^>]*)>|([^<]+|<)/gi;
+
+	let match;
+	while ((match = tokenRegex.exec(cleaned)) !== null) {
+		const [, closing, tagName, attributes, text] = match;
+		const parent = stack[stack.length - 1];
+
+		if (text !== undefined) {
+			parent.children.push(text);
+			continue;
+		}
+
+		const tag = tagName.toLowerCase();
+		if (closing) {
+			// Close the nearest matching element, ignore stray closing tags
+			const index = stack.map((el) => el.tag).lastIndexOf(tag);
+			if (index > 0) {
+				stack.length = index;
+			}
+			continue;
+		}
+
+		const element: HtmlElement = { tag, attributes, children: [] };
+		parent.children.push(element);
+		if (!VOID_TAGS.has(tag) && !attributes.trim().endsWith("/")) {
+			stack.push(element);
+		}
+	}
+
+	return root;
+}
+
+/**
+ * Reads an attribute value from a tag's attribute string
+ */
+function getAttribute(attributes: string, name: string): string {
+	const match = attributes.match(
+		new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i")
+	);
+	return match ? decodeHtmlEntities(match[1] ?? match[2] ?? match[3] ?? "") : "";
+}
+
+/**
+ * Wraps inline content in a Markdown marker, keeping surrounding spaces outside
+ * ("<em> word </em>" → " *word* ")
+ */
+function wrapInline(content: string, marker: string): string {
+	const trimmed = content.trim();
+	if (!trimmed) return content;
+
+	const leading = content.match(/^\s*/)?.[0] ?? "";
+	const trailing = content.match(/\s*$/)?.[0] ?? "";
+	return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+/**
+ * Renders HTML trees as Markdown or as plain text
+ */
+class HtmlRenderer {
+	constructor(private markdown: boolean) {}
+
+	/**
+	 * Renders inline content
+	 */
+	private inline(node: HtmlNode): string {
+		if (typeof node === "string") {
+			return decodeHtmlEntities(node.replace(/\s+/g, " "));
+		}
+
+		if (node.tag === "br") return "\n";
+		if (node.tag === "img") return "";
+
+		const content = node.children.map((child) => this.inline(child)).join("");
+		if (!this.markdown) return content;
+
+		switch (node.tag) {
+			case "em":
+			case "i":
+				return wrapInline(content, "*");
+			case "strong":
+			case "b":
+				return wrapInline(content, "**");
+			case "s":
+			case "del":
+			case "strike":
+				return wrapInline(content, "~~");
+			case "code":
+				return wrapInline(content, "`");
+			case "a": {
+				const href = getAttribute(node.attributes, "href");
+				const text = content.trim();
+				if (!href || !text) return content;
+				return text === href ? `<${href}>` : `[${text}](${href})`;
+			}
+			default:
+				return content;
+		}
+	}
+
+	/**
+	 * Renders the children of an element as blocks
+	 * Inline runs between block elements become paragraphs of their own.
+	 */
+	blocks(children: HtmlNode[]): string[] {
+		const blocks: string[] = [];
+		let inlineRun = "";
+
+		const flush = () => {
+			const paragraph = inlineRun
+				.split("\n")
+				.map((line) => line.trim())
+				.join("\n")
+				.trim();
+			if (paragraph) blocks.push(paragraph);
+			inlineRun = "";
+		};
+
+		for (const child of children) {
+			if (typeof child !== "string" && BLOCK_TAGS.has(child.tag)) {
+				flush();
+				const block = this.block(child);
+				if (block) blocks.push(block);
+			} else {
+				inlineRun += this.inline(child);
+			}
+		}
+		flush();
+
+		return blocks;
+	}
+
+	/**
+	 * Renders a block element
+	 */
+	private block(element: HtmlElement): string {
+		switch (element.tag) {
+			case "blockquote": {
+				const content = this.blocks(element.children).join("\n\n");
+				if (!this.markdown) return content;
+				return content
+					.split("\n")
+					.map((line) => (line ? `> ${line}` : ">"))
+					.join("\n");
+			}
+			case "ul":
+			case "ol":
+				return this.list(element);
+			case "hr":
+				return this.markdown ? "---" : "";
+			case "h1":
+			case "h2":
+			case "h3":
+			case "h4":
+			case "h5":
+			case "h6": {
+				const content = this.blocks(element.children).join(" ");
+				if (!this.markdown || !content) return content;
+				return `${"#".repeat(parseInt(element.tag[1], 10))} ${content}`;
+			}
+			default:
+				return this.blocks(element.children).join("\n\n");
+		}
+	}
+
+	/**
+	 * Renders a list, indenting item continuation lines and nested lists
+	 */
+	private list(element: HtmlElement): string {
+		const ordered = element.tag === "ol";
+		const items = element.children.filter(
+			(child): child is HtmlElement => typeof child !== "string" && child.tag === "li"
+		);
+
+		return items
+			.map((item, index) => {
+				const marker = ordered ? `${index + 1}.` : "-";
+				const indent = " ".repeat(marker.length + 1);
+				const content = this.blocks(item.children).join("\n");
+				return content
+					.split("\n")
+					.map((line, lineIndex) =>
+						lineIndex === 0 ? `${marker} ${line}` : line ? `${indent}${line}` : ""
+					)
+					.join("\n");
+			})
+			.join("\n");
+	}
+}
+
+/**
+ * Converts an HTML fragment to Markdown
+ * Keeps paragraphs, line breaks, emphasis, links, blockquotes, lists and
+ * headings; other tags are dropped and their text kept. Entities are decoded.
+ * @param html - HTML fragment
+ * @returns Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+	return new HtmlRenderer(true).blocks(parseHtmlFragment(html).children).join("\n\n");
+}
+
+/**
+ * Converts an HTML fragment to plain text
+ * Like htmlToMarkdown, without any Markdown syntax.
+ * @param html - HTML fragment
+ * @returns Plain text
+ */
+export function htmlToText(html: string): string {
+	return new HtmlRenderer(false).blocks(parseHtmlFragment(html).children).join("\n\n");
+}
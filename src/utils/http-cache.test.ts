@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import type { DataAdapter } from "obsidian";
+import { HttpCache, getCacheKey } from "./http-cache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CACHE_PATH = "plugin/http-cache.json";
+
+/**
+ * In-memory stand-in for the vault adapter
+ */
+function createAdapter(files: Record<string, string> = {}) {
+	const adapter = {
+		exists: (path: string) => Promise.resolve(path in files),
+		read: (path: string) => Promise.resolve(files[path]),
+		write: (path: string, data: string) => {
+			files[path] = data;
+			return Promise.resolve();
+		},
+		remove: (path: string) => {
+			delete files[path];
+			return Promise.resolve();
+		},
+	};
+	return { adapter: adapter as unknown as DataAdapter, files };
+}
+
+function createCache(ttls = { filmPage: 365, viewingPage: 30, tmdbMovie: 1 }) {
+	let clock = 0;
+	const cache = new HttpCache(() => clock);
+	const { adapter, files } = createAdapter();
+	cache.open(adapter, CACHE_PATH, ttls);
+	return {
+		cache,
+		files,
+		advance: (ms: number) => {
+			clock += ms;
+		},
+	};
+}
+
+// ============================================================================
+// getCacheKey
+// ============================================================================
+
+describe("getCacheKey", () => {
+	it("uses the URL alone without a language", () => {
+		expect(getCacheKey("https://letterboxd.com/film/heat/")).toBe(
+			"https://letterboxd.com/film/heat/"
+		);
+	});
+
+	it("prefixes the language", () => {
+		expect(getCacheKey("https://api.themoviedb.org/3/movie/1", "fr-FR")).toBe(
+			"fr-FR|https://api.themoviedb.org/3/movie/1"
+		);
+	});
+});
+
+// ============================================================================
+// HttpCache
+// ============================================================================
+
+describe("HttpCache", () => {
+	it("returns cached values until their TTL expires", async () => {
+		const { cache, advance } = createCache();
+		await cache.set("tmdbMovie", "https://api.themoviedb.org/3/movie/1", { id: 1 });
+
+		advance(DAY_MS / 2);
+		expect(await cache.get("tmdbMovie", "https://api.themoviedb.org/3/movie/1")).toEqual({
+			id: 1,
+		});
+
+		advance(DAY_MS);
+		expect(await cache.get("tmdbMovie", "https://api.themoviedb.org/3/movie/1")).toBeNull();
+	});
+
+	it("keeps values of different languages apart", async () => {
+		const { cache } = createCache();
+		await cache.set("tmdbMovie", "https://api.themoviedb.org/3/movie/1", "en", "en-US");
+
+		expect(await cache.get("tmdbMovie", "https://api.themoviedb.org/3/movie/1", "en-US")).toBe(
+			"en"
+		);
+		expect(
+			await cache.get("tmdbMovie", "https://api.themoviedb.org/3/movie/1", "fr-FR")
+		).toBeNull();
+	});
+
+	it("does not cache resource types with a TTL of 0", async () => {
+		const { cache } = createCache({ filmPage: 0, viewingPage: 30, tmdbMovie: 1 });
+		await cache.set("filmPage", "https://letterboxd.com/film/heat/", "949");
+
+		expect(await cache.get("filmPage", "https://letterboxd.com/film/heat/")).toBeNull();
+	});
+
+	it("does nothing until opened", async () => {
+		const cache = new HttpCache();
+		await cache.set("filmPage", "https://letterboxd.com/film/heat/", "949");
+
+		expect(await cache.get("filmPage", "https://letterboxd.com/film/heat/")).toBeNull();
+	});
+
+	it("saves to disk without expired values and reloads from it", async () => {
+		const { cache, files, advance } = createCache();
+		await cache.set("tmdbMovie", "https://api.themoviedb.org/3/movie/1", { id: 1 });
+		advance(2 * DAY_MS);
+		await cache.set("filmPage", "https://letterboxd.com/film/heat/", "949");
+		await cache.save();
+
+		const reloaded = new HttpCache(() => 2 * DAY_MS);
+		reloaded.open(createAdapter(files).adapter, CACHE_PATH, {
+			filmPage: 365,
+			viewingPage: 30,
+			tmdbMovie: 1,
+		});
+
+		expect(await reloaded.get("filmPage", "https://letterboxd.com/film/heat/")).toBe("949");
+		expect(Object.keys(JSON.parse(files[CACHE_PATH]) as object)).toEqual([
+			"https://letterboxd.com/film/heat/",
+		]);
+	});
+
+	it("clears cached values and the cache file", async () => {
+		const { cache, files } = createCache();
+		await cache.set("filmPage", "https://letterboxd.com/film/heat/", "949");
+		await cache.save();
+
+		await cache.clear();
+
+		expect(await cache.get("filmPage", "https://letterboxd.com/film/heat/")).toBeNull();
+		expect(files[CACHE_PATH]).toBeUndefined();
+	});
+});
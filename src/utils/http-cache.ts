@@ -0,0 +1,193 @@
+/**
+ * HTTP Response Cache
+ *
+ * Keeps the data extracted from Letterboxd pages and TMDB responses in a JSON
+ * file in the plugin folder, keyed by URL plus language, so re-running an
+ * import or a Film note sync doesn't fetch the same pages again. Each resource
+ * type has its own time to live: a film page's TMDB ID never changes, while
+ * TMDB vote counts go stale within days.
+ */
+
+import type { DataAdapter } from "obsidian";
+
+/** Name of the cache file inside the plugin folder */
+export const HTTP_CACHE_FILENAME = "http-cache.json";
+
+/** Delay between a cache write and saving the file (ms) */
+const SAVE_DELAY_MS = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cached resource types, each with its own TTL
+ * - filmPage: Letterboxd film page → TMDB ID
+ * - viewingPage: Letterboxd diary entry page → viewing ID, film data
+ * - tmdbMovie: TMDB /movie/{id} response
+ */
+export type HttpCacheResource = "filmPage" | "viewingPage" | "tmdbMovie";
+
+/** Time to live by resource type, in days (0 disables caching) */
+export type HttpCacheTtls = Record<HttpCacheResource, number>;
+
+interface HttpCacheRecord {
+	resource: HttpCacheResource;
+	/** When the value was fetched (ms since epoch) */
+	fetchedAt: number;
+	value: unknown;
+}
+
+/**
+ * Builds the cache key of a URL fetched in a given language
+ */
+export function getCacheKey(url: string, language = ""): string {
+	return language ? `${language}|${url}` : url;
+}
+
+/**
+ * Persistent cache of fetched data
+ * Does nothing until open() is called with the plugin folder. Writes are
+ * batched and saved at most every few seconds.
+ */
+export class HttpCache {
+	private adapter: DataAdapter | null = null;
+	private path = "";
+	private ttls: HttpCacheTtls = { filmPage: 0, viewingPage: 0, tmdbMovie: 0 };
+	private data: Record<string, HttpCacheRecord> | null = null;
+	private dirty = false;
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(private now: () => number = Date.now) {}
+
+	/**
+	 * Starts caching to a file
+	 * @param adapter - Vault adapter
+	 * @param path - Path of the cache file
+	 * @param ttls - Time to live by resource type, in days
+	 */
+	open(adapter: DataAdapter, path: string, ttls: HttpCacheTtls): void {
+		this.adapter = adapter;
+		this.path = path;
+		this.ttls = { ...ttls };
+		this.data = null;
+	}
+
+	setTtls(ttls: HttpCacheTtls): void {
+		this.ttls = { ...ttls };
+	}
+
+	private async load(): Promise<Record<string, HttpCacheRecord>> {
+		if (this.data) {
+			return this.data;
+		}
+
+		this.data = {};
+		if (!this.adapter) {
+			return this.data;
+		}
+
+		try {
+			if (await this.adapter.exists(this.path)) {
+				const parsed = JSON.parse(await this.adapter.read(this.path)) as Record<
+					string,
+					HttpCacheRecord
+				> | null;
+				this.data = parsed ?? {};
+			}
+		} catch (error) {
+			// A corrupt cache only costs refetching, start over
+			console.warn("Letterboxd: Could not read HTTP cache, starting empty", error);
+		}
+		return this.data;
+	}
+
+	/**
+	 * Returns the cached value for a URL, or null if missing or expired
+	 */
+	async get<T>(resource: HttpCacheResource, url: string, language = ""): Promise<T | null> {
+		const ttlDays = this.ttls[resource];
+		if (!this.adapter || ttlDays <= 0) {
+			return null;
+		}
+
+		const data = await this.load();
+		const record = data[getCacheKey(url, language)];
+		if (!record || record.resource !== resource) {
+			return null;
+		}
+		if (this.now() - record.fetchedAt > ttlDays * DAY_MS) {
+			return null;
+		}
+		return record.value as T;
+	}
+
+	/**
+	 * Caches the value fetched from a URL
+	 */
+	async set(
+		resource: HttpCacheResource,
+		url: string,
+		value: unknown,
+		language = ""
+	): Promise<void> {
+		if (!this.adapter || this.ttls[resource] <= 0) {
+			return;
+		}
+
+		const data = await this.load();
+		data[getCacheKey(url, language)] = { resource, fetchedAt: this.now(), value };
+		this.dirty = true;
+		this.scheduleSave();
+	}
+
+	/**
+	 * Removes every cached value and deletes the cache file
+	 */
+	async clear(): Promise<void> {
+		this.data = {};
+		this.dirty = false;
+		this.cancelSave();
+		if (this.adapter && (await this.adapter.exists(this.path))) {
+			await this.adapter.remove(this.path);
+		}
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) return;
+		this.saveTimer = setTimeout(() => void this.save(), SAVE_DELAY_MS);
+	}
+
+	private cancelSave(): void {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+	}
+
+	/**
+	 * Writes the cache to disk, dropping expired values
+	 * Failures are logged, not thrown: the cache must never make a sync fail.
+	 */
+	async save(): Promise<void> {
+		this.cancelSave();
+		if (!this.adapter || !this.data || !this.dirty) {
+			return;
+		}
+
+		const now = this.now();
+		for (const [key, record] of Object.entries(this.data)) {
+			if (now - record.fetchedAt > this.ttls[record.resource] * DAY_MS) {
+				delete this.data[key];
+			}
+		}
+
+		try {
+			await this.adapter.write(this.path, JSON.stringify(this.data));
+			this.dirty = false;
+		} catch (error) {
+			console.error("Letterboxd: Failed to save HTTP cache", error);
+		}
+	}
+}
+
+/** Cache shared by all network calls of the plugin, opened on plugin load */
+export const httpCache = new HttpCache();
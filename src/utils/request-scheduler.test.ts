@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from "vitest";
+import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+import { RequestScheduler, RequestBudgetError, parseRetryAfter } from "./request-scheduler";
+
+function response(status: number, headers: Record<string, string> = {}): RequestUrlResponse {
+	return { status, headers, text: "", json: null, arrayBuffer: new ArrayBuffer(0) };
+}
+
+/**
+ * Creates a scheduler with a fake clock: sleeping advances the clock instantly
+ */
+function createScheduler(
+	send: (params: RequestUrlParam) => Promise<RequestUrlResponse>,
+	options: ConstructorParameters<typeof RequestScheduler>[0] = {}
+) {
+	let clock = 0;
+	const sleeps: number[] = [];
+	const scheduler = new RequestScheduler(
+		options,
+		send,
+		(ms) => {
+			sleeps.push(ms);
+			clock += ms;
+			return Promise.resolve();
+		},
+		() => clock
+	);
+	return { scheduler, sleeps };
+}
+
+// ============================================================================
+// parseRetryAfter
+// ============================================================================
+
+describe("parseRetryAfter", () => {
+	it("parses delay in seconds", () => {
+		expect(parseRetryAfter("5")).toBe(5000);
+	});
+
+	it("parses an HTTP date relative to now", () => {
+		const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+		expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30000);
+	});
+
+	it("returns null for missing or invalid values", () => {
+		expect(parseRetryAfter(undefined)).toBeNull();
+		expect(parseRetryAfter("soon")).toBeNull();
+	});
+});
+
+// ============================================================================
+// RequestScheduler
+// ============================================================================
+
+describe("RequestScheduler", () => {
+	it("returns successful responses without retrying", async () => {
+		const send = vi.fn(() => Promise.resolve(response(200)));
+		const { scheduler, sleeps } = createScheduler(send);
+
+		const result = await scheduler.request({ url: "https://letterboxd.com/film/heat/" });
+
+		expect(result.status).toBe(200);
+		expect(send).toHaveBeenCalledTimes(1);
+		expect(sleeps).toEqual([]);
+	});
+
+	it("does not retry client errors", async () => {
+		const send = vi.fn(() => Promise.resolve(response(404)));
+		const { scheduler } = createScheduler(send);
+
+		const result = await scheduler.request({ url: "https://letterboxd.com/film/none/" });
+
+		expect(result.status).toBe(404);
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it("retries network errors and 5xx responses with exponential backoff", async () => {
+		const send = vi
+			.fn()
+			.mockRejectedValueOnce(new Error("net::ERR_CONNECTION_RESET"))
+			.mockResolvedValueOnce(response(502))
+			.mockResolvedValueOnce(response(200));
+		const { scheduler, sleeps } = createScheduler(send, { baseDelayMs: 100 });
+
+		const result = await scheduler.request({ url: "https://letterboxd.com/film/heat/" });
+
+		expect(result.status).toBe(200);
+		expect(sleeps).toEqual([100, 200]);
+	});
+
+	it("gives up after the last retry", async () => {
+		const send = vi.fn(() => Promise.reject(new Error("offline")));
+		const { scheduler } = createScheduler(send, { maxRetries: 2 });
+
+		await expect(scheduler.request({ url: "https://letterboxd.com/" })).rejects.toThrow(
+			"offline"
+		);
+		expect(send).toHaveBeenCalledTimes(3);
+	});
+
+	it("waits for Retry-After on HTTP 429", async () => {
+		const send = vi
+			.fn()
+			.mockResolvedValueOnce(response(429, { "Retry-After": "7" }))
+			.mockResolvedValueOnce(response(200));
+		const { scheduler, sleeps } = createScheduler(send);
+
+		const result = await scheduler.request({ url: "https://api.themoviedb.org/3/movie/1" });
+
+		expect(result.status).toBe(200);
+		expect(sleeps).toEqual([7000]);
+	});
+
+	it("returns the response when Retry-After is too long to wait for", async () => {
+		const send = vi.fn(() => Promise.resolve(response(503, { "retry-after": "3600" })));
+		const { scheduler } = createScheduler(send);
+
+		const result = await scheduler.request({ url: "https://letterboxd.com/" });
+
+		expect(result.status).toBe(503);
+		expect(send).toHaveBeenCalledTimes(1);
+	});
+
+	it("limits concurrent requests per host", async () => {
+		let active = 0;
+		let maxActive = 0;
+		const send = vi.fn(async () => {
+			active++;
+			maxActive = Math.max(maxActive, active);
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			active--;
+			return response(200);
+		});
+		const { scheduler } = createScheduler(send, { concurrency: 2 });
+
+		await Promise.all(
+			Array.from({ length: 6 }, (_, i) =>
+				scheduler.request({ url: `https://letterboxd.com/film/${i}/` })
+			)
+		);
+
+		expect(send).toHaveBeenCalledTimes(6);
+		expect(maxActive).toBe(2);
+	});
+
+	it("fails requests once the host's budget is used up", async () => {
+		const send = vi.fn(() => Promise.resolve(response(200)));
+		const { scheduler } = createScheduler(send, { budget: 2 });
+
+		await scheduler.request({ url: "https://letterboxd.com/a/" });
+		await scheduler.request({ url: "https://letterboxd.com/b/" });
+
+		await expect(scheduler.request({ url: "https://letterboxd.com/c/" })).rejects.toThrow(
+			RequestBudgetError
+		);
+		// Other hosts have their own budget
+		await expect(
+			scheduler.request({ url: "https://api.themoviedb.org/3/movie/1" })
+		).resolves.toMatchObject({ status: 200 });
+	});
+});
@@ -0,0 +1,241 @@
+/**
+ * Request Scheduler
+ *
+ * Every HTTP request of the plugin goes through the shared scheduler, which:
+ * - limits the number of concurrent requests per host
+ * - retries network errors, HTTP 429 and 5xx responses with exponential backoff
+ * - honours Retry-After on HTTP 429/503, pausing the whole host
+ * - enforces a request budget per host, so a runaway import can't hammer a site
+ */
+
+import { requestUrl } from "obsidian";
+import type { RequestUrlParam, RequestUrlResponse } from "obsidian";
+
+/**
+ * Scheduler limits, with overrides per host
+ */
+export interface RequestSchedulerOptions {
+	/** Concurrent requests per host, unless overridden in hostConcurrency */
+	concurrency: number;
+	/** Concurrent requests by host name */
+	hostConcurrency: Record<string, number>;
+	/** Retries after the first attempt */
+	maxRetries: number;
+	/** Delay before the first retry (ms), doubled on each retry */
+	baseDelayMs: number;
+	/** Longest backoff delay (ms) */
+	maxDelayMs: number;
+	/** Longest Retry-After the scheduler waits for (ms); longer ones fail the request */
+	maxRetryAfterMs: number;
+	/** Requests allowed per host within budgetWindowMs */
+	budget: number;
+	/** Rolling window of the request budget (ms) */
+	budgetWindowMs: number;
+}
+
+/** Default scheduler limits */
+export const DEFAULT_SCHEDULER_OPTIONS: RequestSchedulerOptions = {
+	concurrency: 2,
+	hostConcurrency: {
+		"api.themoviedb.org": 4,
+	},
+	maxRetries: 3,
+	baseDelayMs: 1000,
+	maxDelayMs: 30000,
+	maxRetryAfterMs: 120000,
+	budget: 5000,
+	budgetWindowMs: 60 * 60 * 1000,
+};
+
+/** Statuses that are worth retrying */
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Thrown when a host's request budget is used up
+ */
+export class RequestBudgetError extends Error {
+	constructor(host: string) {
+		super(`Request budget for ${host} used up, try again later`);
+		this.name = "RequestBudgetError";
+	}
+}
+
+/**
+ * Sends a request and resolves with the response (any status)
+ */
+export type RequestSender = (params: RequestUrlParam) => Promise<RequestUrlResponse>;
+
+/**
+ * Scheduling state of a single host
+ */
+interface HostState {
+	/** Requests currently in flight */
+	active: number;
+	/** Requests waiting for a free slot, in order */
+	waiting: (() => void)[];
+	/** No request starts before this time (set by Retry-After) */
+	pausedUntil: number;
+	/** Start times of the requests within the budget window */
+	sent: number[];
+}
+
+/**
+ * Parses a Retry-After header value (seconds or HTTP date) into a delay in ms
+ * @returns Delay in ms, or null if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+	if (!value) return null;
+
+	const trimmed = value.trim();
+	if (/^\d+$/.test(trimmed)) {
+		return parseInt(trimmed, 10) * 1000;
+	}
+
+	const date = Date.parse(trimmed);
+	return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Reads a response header regardless of its case
+ */
+function getHeader(response: RequestUrlResponse, name: string): string | undefined {
+	const key = Object.keys(response.headers ?? {}).find((k) => k.toLowerCase() === name);
+	return key ? response.headers[key] : undefined;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function defaultSender(params: RequestUrlParam): Promise<RequestUrlResponse> {
+	return requestUrl({ ...params, throw: false });
+}
+
+/**
+ * Queues requests per host and retries transient failures
+ */
+export class RequestScheduler {
+	private options: RequestSchedulerOptions;
+	private send: RequestSender;
+	private sleep: (ms: number) => Promise<void>;
+	private now: () => number;
+	private hosts = new Map<string, HostState>();
+
+	constructor(
+		options: Partial<RequestSchedulerOptions> = {},
+		send: RequestSender = defaultSender,
+		sleep: (ms: number) => Promise<void> = defaultSleep,
+		now: () => number = Date.now
+	) {
+		this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+		this.send = send;
+		this.sleep = sleep;
+		this.now = now;
+	}
+
+	/**
+	 * Sends a request once a slot for its host is free, retrying transient failures
+	 * @returns The final response, whatever its status
+	 * @throws RequestBudgetError if the host's budget is used up, or the last network error
+	 */
+	async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+		const host = new URL(params.url).hostname;
+		const state = this.getHostState(host);
+
+		for (let attempt = 0; ; attempt++) {
+			await this.acquire(host, state);
+
+			let response: RequestUrlResponse | null = null;
+			let networkError: unknown = null;
+			try {
+				const pause = state.pausedUntil - this.now();
+				if (pause > 0) {
+					await this.sleep(pause);
+				}
+				this.spendBudget(host, state);
+				response = await this.send(params);
+			} catch (error) {
+				if (error instanceof RequestBudgetError) throw error;
+				networkError = error;
+			} finally {
+				this.release(state);
+			}
+
+			if (response && !RETRYABLE_STATUSES.has(response.status)) {
+				return response;
+			}
+
+			let delay = Math.min(this.options.baseDelayMs * 2 ** attempt, this.options.maxDelayMs);
+			if (response && (response.status === 429 || response.status === 503)) {
+				const retryAfter = parseRetryAfter(getHeader(response, "retry-after"), this.now());
+				if (retryAfter !== null) {
+					if (retryAfter > this.options.maxRetryAfterMs) return response;
+					delay = retryAfter;
+					state.pausedUntil = Math.max(state.pausedUntil, this.now() + retryAfter);
+				}
+			}
+
+			if (attempt >= this.options.maxRetries) {
+				if (response) return response;
+				throw networkError;
+			}
+
+			await this.sleep(delay);
+		}
+	}
+
+	private getHostState(host: string): HostState {
+		let state = this.hosts.get(host);
+		if (!state) {
+			state = { active: 0, waiting: [], pausedUntil: 0, sent: [] };
+			this.hosts.set(host, state);
+		}
+		return state;
+	}
+
+	/**
+	 * Waits for a free slot for the host
+	 */
+	private async acquire(host: string, state: HostState): Promise<void> {
+		const limit = this.options.hostConcurrency[host] ?? this.options.concurrency;
+		if (state.active < limit) {
+			state.active++;
+			return;
+		}
+		// The releasing request hands its slot over, so active stays unchanged
+		await new Promise<void>((resolve) => state.waiting.push(resolve));
+	}
+
+	private release(state: HostState): void {
+		const next = state.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			state.active--;
+		}
+	}
+
+	/**
+	 * Counts a request against the host's budget
+	 * @throws RequestBudgetError if the budget is used up
+	 */
+	private spendBudget(host: string, state: HostState): void {
+		const windowStart = this.now() - this.options.budgetWindowMs;
+		state.sent = state.sent.filter((time) => time > windowStart);
+		if (state.sent.length >= this.options.budget) {
+			throw new RequestBudgetError(host);
+		}
+		state.sent.push(this.now());
+	}
+}
+
+/** Scheduler shared by all network calls of the plugin */
+export const requestScheduler = new RequestScheduler();
+
+/**
+ * Sends a request through the shared scheduler
+ * Unlike requestUrl, error statuses are returned rather than thrown.
+ */
+export function scheduledRequest(params: RequestUrlParam): Promise<RequestUrlResponse> {
+	return requestScheduler.request(params);
+}
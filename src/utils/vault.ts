@@ -4,6 +4,7 @@
 
 import { TFolder } from "obsidian";
 import type LetterboxdPlugin from "../main";
+import type { PlannedAction } from "../types";
 
 /**
  * Ensures a folder exists in the vault, creating it if necessary
@@ -20,3 +21,20 @@ export async function ensureFolderExists(
 		await vault.createFolder(folderPath);
 	}
 }
+
+/**
+ * Checks whether a path is taken by an existing file or by a note planned in a dry run
+ * @param plugin - Plugin instance for vault access
+ * @param filePath - Normalized vault path
+ * @param planned - Actions planned so far in the current dry run
+ */
+export function isPathTaken(
+	plugin: LetterboxdPlugin,
+	filePath: string,
+	planned: PlannedAction[]
+): boolean {
+	return (
+		plugin.app.vault.getAbstractFileByPath(filePath) !== null ||
+		planned.some((action) => action.path === filePath)
+	);
+}
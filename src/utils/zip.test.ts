@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "zlib";
+import { unzip } from "./zip";
+
+/**
+ * Builds a ZIP archive in memory
+ * CRCs are left at zero, the reader doesn't verify them.
+ */
+function buildZip(files: { path: string; content: string; deflate?: boolean }[]): Uint8Array {
+	const encoder = new TextEncoder();
+	const locals: Buffer[] = [];
+	const centrals: Buffer[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = Buffer.from(encoder.encode(file.path));
+		const raw = Buffer.from(encoder.encode(file.content));
+		const data = file.deflate ? deflateRawSync(raw) : raw;
+		const method = file.deflate ? 8 : 0;
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(method, 8);
+		local.writeUInt32LE(data.length, 18);
+		local.writeUInt32LE(raw.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		locals.push(local, name, data);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(method, 10);
+		central.writeUInt32LE(data.length, 20);
+		central.writeUInt32LE(raw.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centrals.push(central, name);
+
+		offset += local.length + name.length + data.length;
+	}
+
+	const centralDirectory = Buffer.concat(centrals);
+	const eocd = Buffer.alloc(22);
+	eocd.writeUInt32LE(0x06054b50, 0);
+	eocd.writeUInt16LE(files.length, 8);
+	eocd.writeUInt16LE(files.length, 10);
+	eocd.writeUInt32LE(centralDirectory.length, 12);
+	eocd.writeUInt32LE(offset, 16);
+
+	return new Uint8Array(Buffer.concat([...locals, centralDirectory, eocd]));
+}
+
+// ============================================================================
+// unzip
+// ============================================================================
+
+describe("unzip", () => {
+	const decode = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+	it("reads stored and deflated files", async () => {
+		const files = await unzip(
+			buildZip([
+				{ path: "diary.csv", content: "Date,Name\n" },
+				{
+					path: "lists/favourites.csv",
+					content: "Position,Name\n".repeat(50),
+					deflate: true,
+				},
+			])
+		);
+
+		expect([...files.keys()]).toEqual(["diary.csv", "lists/favourites.csv"]);
+		expect(decode(files.get("diary.csv"))).toBe("Date,Name\n");
+		expect(decode(files.get("lists/favourites.csv"))).toBe("Position,Name\n".repeat(50));
+	});
+
+	it("skips directory entries", async () => {
+		const files = await unzip(
+			buildZip([
+				{ path: "lists/", content: "" },
+				{ path: "lists/a.csv", content: "x" },
+			])
+		);
+
+		expect([...files.keys()]).toEqual(["lists/a.csv"]);
+	});
+
+	it("accepts an ArrayBuffer", async () => {
+		const zip = buildZip([{ path: "a.txt", content: "hello", deflate: true }]);
+		const buffer = new Uint8Array(zip).buffer;
+
+		expect(decode((await unzip(buffer)).get("a.txt"))).toBe("hello");
+	});
+
+	it("rejects data that is not a ZIP file", async () => {
+		await expect(unzip(new TextEncoder().encode("Date,Name\n".repeat(10)))).rejects.toThrow(
+			"Not a ZIP file"
+		);
+	});
+});
@@ -0,0 +1,122 @@
+/**
+ * Minimal in-memory ZIP reader
+ *
+ * Reads the files of a ZIP archive (such as the Letterboxd data export)
+ * without unpacking it to disk. Supports stored and deflated entries, which is
+ * what Letterboxd and common archivers produce; ZIP64 and encrypted archives
+ * are not supported.
+ */
+
+/** End of central directory record signature ("PK\5\6") */
+const EOCD_SIGNATURE = 0x06054b50;
+/** Central directory file header signature ("PK\1\2") */
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+/** Local file header signature ("PK\3\4") */
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/** Size of the end of central directory record without its comment */
+const EOCD_SIZE = 22;
+/** Maximum length of the archive comment following the EOCD record */
+const MAX_COMMENT_LENGTH = 0xffff;
+
+/** Compression methods */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** General purpose flag of encrypted entries */
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * Decompresses raw DEFLATE data
+ * Uses the platform's DecompressionStream (available in Obsidian and Node 18+).
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	// Copy into a plain ArrayBuffer-backed view, as Blob rejects shared buffers
+	const stream = new Blob([new Uint8Array(data)])
+		.stream()
+		.pipeThrough(new DecompressionStream("deflate-raw"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Finds the offset of the end of central directory record
+ * @throws Error if the data is not a ZIP archive
+ */
+function findEndOfCentralDirectory(view: DataView): number {
+	const minOffset = Math.max(0, view.byteLength - EOCD_SIZE - MAX_COMMENT_LENGTH);
+	for (let offset = view.byteLength - EOCD_SIZE; offset >= minOffset; offset--) {
+		if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+			return offset;
+		}
+	}
+	throw new Error("Not a ZIP file");
+}
+
+/**
+ * Reads all files of a ZIP archive
+ * Directory entries are skipped.
+ * @param data - Contents of the .zip file
+ * @returns File contents by path inside the archive (e.g., "lists/favourites.csv")
+ * @throws Error if the archive is invalid or uses an unsupported feature
+ */
+export async function unzip(data: ArrayBuffer | Uint8Array): Promise<Map<string, Uint8Array>> {
+	const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const decoder = new TextDecoder();
+	const files = new Map<string, Uint8Array>();
+
+	const eocd = findEndOfCentralDirectory(view);
+	const entryCount = view.getUint16(eocd + 10, true);
+	let offset = view.getUint32(eocd + 16, true);
+
+	if (entryCount === 0xffff || offset === 0xffffffff) {
+		throw new Error("ZIP64 archives are not supported");
+	}
+
+	for (let i = 0; i < entryCount; i++) {
+		if (
+			offset + 46 > bytes.length ||
+			view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE
+		) {
+			throw new Error("Invalid ZIP file: corrupt central directory");
+		}
+
+		const flags = view.getUint16(offset + 8, true);
+		const method = view.getUint16(offset + 10, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		if (path.endsWith("/")) {
+			continue;
+		}
+		if (flags & FLAG_ENCRYPTED) {
+			throw new Error(`Encrypted ZIP entries are not supported (${path})`);
+		}
+		if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+			throw new Error(`Invalid ZIP file: missing local header for ${path}`);
+		}
+
+		// Sizes in the local header may be zero (data descriptor), use the central ones
+		const dataStart =
+			localOffset +
+			30 +
+			view.getUint16(localOffset + 26, true) +
+			view.getUint16(localOffset + 28, true);
+		const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+
+		if (method === METHOD_STORED) {
+			files.set(path, compressed);
+		} else if (method === METHOD_DEFLATE) {
+			files.set(path, await inflateRaw(compressed));
+		} else {
+			throw new Error(`Unsupported ZIP compression method ${method} (${path})`);
+		}
+	}
+
+	return files;
+}